@@ -0,0 +1,12 @@
+-- Checks submitted by staff wait for admin review before counting in salaries
+CREATE TYPE "CheckStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- Existing checks were created by admins, so they are treated as approved
+ALTER TABLE "Check"
+ADD COLUMN "status" "CheckStatus" NOT NULL DEFAULT 'approved',
+ADD COLUMN "rejectionReason" TEXT,
+ADD COLUMN "reviewedBy" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3);
+
+-- Review queue and salary aggregation filter by status within a date range
+CREATE INDEX "Check_status_createdAt_idx" ON "Check" ("status", "createdAt");
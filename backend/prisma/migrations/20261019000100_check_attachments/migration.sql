@@ -0,0 +1,16 @@
+-- Receipt photos attached to checks: stored on disk (filePath) or kept in Telegram (telegramFileId)
+CREATE TABLE "CheckAttachment" (
+    "id" TEXT NOT NULL,
+    "checkId" TEXT NOT NULL,
+    "filePath" TEXT,
+    "telegramFileId" TEXT,
+    "mimeType" TEXT,
+    "size" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CheckAttachment_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "CheckAttachment"
+ADD CONSTRAINT "CheckAttachment_checkId_fkey" FOREIGN KEY ("checkId") REFERENCES "Check"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "CheckAttachment_checkId_idx" ON "CheckAttachment" ("checkId");
@@ -0,0 +1,56 @@
+-- Payout ledger: one batch per closed period, one payout per user inside a batch
+CREATE TYPE "PayoutNetwork" AS ENUM ('trc20', 'bep20');
+
+CREATE TYPE "PayoutStatus" AS ENUM ('pending', 'paid', 'cancelled');
+
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PayoutBatch_periodStart_periodEnd_key" ON "PayoutBatch" ("periodStart", "periodEnd");
+
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12, 2) NOT NULL,
+    "network" "PayoutNetwork",
+    "wallet" TEXT,
+    "txHash" TEXT,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'pending',
+    "paidAt" TIMESTAMP(3),
+    "paidBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Payout"
+ADD CONSTRAINT "Payout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Payout"
+ADD CONSTRAINT "Payout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "Payout_userId_periodStart_periodEnd_key" ON "Payout" ("userId", "periodStart", "periodEnd");
+
+CREATE INDEX "Payout_batchId_idx" ON "Payout" ("batchId");
+
+CREATE INDEX "Payout_userId_status_idx" ON "Payout" ("userId", "status");
+
+CREATE TRIGGER payout_batch_set_updated_at
+    BEFORE UPDATE ON "PayoutBatch"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
+
+CREATE TRIGGER payout_set_updated_at
+    BEFORE UPDATE ON "Payout"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
@@ -0,0 +1,18 @@
+-- Closed pay periods with frozen salary snapshots, and adjustment checks for corrections
+CREATE TABLE "PayPeriod" (
+    "id" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+    "closedBy" TEXT,
+    "closedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "snapshot" JSONB NOT NULL,
+    CONSTRAINT "PayPeriod_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PayPeriod_start_end_key" ON "PayPeriod" ("start", "end");
+
+ALTER TABLE "Check"
+ADD COLUMN "adjustedCheckId" TEXT;
+
+ALTER TABLE "Check"
+ADD CONSTRAINT "Check_adjustedCheckId_fkey" FOREIGN KEY ("adjustedCheckId") REFERENCES "Check"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Effective-dated commission percents; existing percents apply to the whole history
+CREATE TABLE "CommissionRate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "percent" DOUBLE PRECISION,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CommissionRate_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "CommissionRate"
+ADD CONSTRAINT "CommissionRate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "CommissionRate_userId_effectiveFrom_idx" ON "CommissionRate" ("userId", "effectiveFrom");
+
+INSERT INTO "CommissionRate" ("id", "userId", "percent", "effectiveFrom")
+SELECT gen_random_uuid()::text, "id", "commissionPercent", '1970-01-01 00:00:00'
+FROM "User"
+WHERE "commissionPercent" IS NOT NULL;
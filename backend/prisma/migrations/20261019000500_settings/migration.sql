@@ -0,0 +1,13 @@
+-- Key/value settings editable from the admin dashboard (salary rules and similar)
+CREATE TABLE "Setting" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Setting_pkey" PRIMARY KEY ("key")
+);
+
+CREATE TRIGGER setting_set_updated_at
+    BEFORE UPDATE ON "Setting"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
@@ -0,0 +1,19 @@
+-- Bonuses, penalties, advances and corrections added on top of the computed salary
+CREATE TYPE "SalaryAdjustmentType" AS ENUM ('bonus', 'penalty', 'advance', 'correction');
+
+CREATE TABLE "SalaryAdjustment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "SalaryAdjustmentType" NOT NULL,
+    "amount" DECIMAL(12, 2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SalaryAdjustment_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "SalaryAdjustment"
+ADD CONSTRAINT "SalaryAdjustment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "SalaryAdjustment_userId_date_idx" ON "SalaryAdjustment" ("userId", "date");
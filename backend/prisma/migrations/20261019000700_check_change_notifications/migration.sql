@@ -0,0 +1,2 @@
+-- Per-user opt-out of messages about checks changed by an admin
+ALTER TABLE "User" ADD COLUMN "notifyCheckChanges" BOOLEAN NOT NULL DEFAULT true;
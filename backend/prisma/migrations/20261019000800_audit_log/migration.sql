@@ -0,0 +1,20 @@
+-- Trail of admin and profile mutations with the changed fields before and after
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "actorTelegramId" TEXT,
+    "actorIsAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog" ("createdAt");
+
+CREATE INDEX "AuditLog_entityType_entityId_idx" ON "AuditLog" ("entityType", "entityId");
+
+CREATE INDEX "AuditLog_actorTelegramId_idx" ON "AuditLog" ("actorTelegramId");
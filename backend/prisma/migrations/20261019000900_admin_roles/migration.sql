@@ -0,0 +1,4 @@
+-- Admin roles; existing admins had full access and become owners
+CREATE TYPE "AdminRole" AS ENUM ('owner', 'manager', 'accountant', 'moderator');
+
+ALTER TABLE "Admin" ADD COLUMN "role" "AdminRole" NOT NULL DEFAULT 'owner';
@@ -0,0 +1,22 @@
+-- History of mutes, blocks and warnings with the outcome of the Telegram call
+CREATE TYPE "ModerationAction" AS ENUM ('mute', 'unmute', 'block', 'unblock', 'warn');
+
+CREATE TABLE "ModerationEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" "ModerationAction" NOT NULL,
+    "actorTelegramId" TEXT,
+    "chatId" TEXT,
+    "reason" TEXT,
+    "durationMinutes" INTEGER,
+    "until" TIMESTAMP(3),
+    "telegramOk" BOOLEAN,
+    "telegramError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ModerationEvent_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "ModerationEvent"
+ADD CONSTRAINT "ModerationEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "ModerationEvent_userId_createdAt_idx" ON "ModerationEvent" ("userId", "createdAt");
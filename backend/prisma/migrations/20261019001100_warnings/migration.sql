@@ -0,0 +1,17 @@
+-- Warning points that expire and escalate to mutes and blocks
+CREATE TABLE "Warning" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "points" INTEGER NOT NULL DEFAULT 1,
+    "reason" TEXT,
+    "actorTelegramId" TEXT,
+    "chatId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Warning_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Warning"
+ADD CONSTRAINT "Warning_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "Warning_userId_expiresAt_idx" ON "Warning" ("userId", "expiresAt");
@@ -0,0 +1,41 @@
+-- Managed group chats and the users known to be in each of them
+CREATE TABLE "ManagedChat" (
+    "id" TEXT NOT NULL,
+    "telegramChatId" TEXT NOT NULL,
+    "title" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "ManagedChat_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ManagedChat_telegramChatId_key" ON "ManagedChat" ("telegramChatId");
+
+CREATE TABLE "ChatMembership" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "mutedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "ChatMembership_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "ChatMembership"
+ADD CONSTRAINT "ChatMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ChatMembership"
+ADD CONSTRAINT "ChatMembership_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "ManagedChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "ChatMembership_userId_chatId_key" ON "ChatMembership" ("userId", "chatId");
+
+CREATE INDEX "ChatMembership_mutedUntil_idx" ON "ChatMembership" ("mutedUntil");
+
+-- Group chats (negative ids) users were assigned to become managed, with those users as members
+INSERT INTO "ManagedChat" ("id", "telegramChatId", "updatedAt")
+SELECT gen_random_uuid()::text, "chatId", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "chatId" FROM "User" WHERE "chatId" LIKE '-%') AS "chats";
+
+INSERT INTO "ChatMembership" ("id", "userId", "chatId", "mutedUntil", "updatedAt")
+SELECT gen_random_uuid()::text, "User"."id", "ManagedChat"."id", "User"."mutedUntil", CURRENT_TIMESTAMP
+FROM "User"
+JOIN "ManagedChat" ON "ManagedChat"."telegramChatId" = "User"."chatId";
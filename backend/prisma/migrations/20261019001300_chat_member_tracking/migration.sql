@@ -0,0 +1,9 @@
+-- Membership status, join/leave times and inviter from chat_member updates
+CREATE TYPE "ChatMemberStatus" AS ENUM ('creator', 'administrator', 'member', 'restricted', 'left', 'kicked');
+
+ALTER TABLE "ChatMembership"
+ADD COLUMN "status" "ChatMemberStatus" NOT NULL DEFAULT 'member',
+ADD COLUMN "joinedAt" TIMESTAMP(3),
+ADD COLUMN "leftAt" TIMESTAMP(3),
+ADD COLUMN "invitedByTelegramId" TEXT,
+ADD COLUMN "invitedByName" TEXT;
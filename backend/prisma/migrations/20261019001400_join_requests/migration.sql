@@ -0,0 +1,23 @@
+-- Requests to join managed chats, approved or declined by admins
+CREATE TYPE "JoinRequestStatus" AS ENUM ('pending', 'approved', 'declined');
+
+CREATE TABLE "JoinRequest" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "status" "JoinRequestStatus" NOT NULL DEFAULT 'pending',
+    "bio" TEXT,
+    "decidedByTelegramId" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "JoinRequest_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "JoinRequest"
+ADD CONSTRAINT "JoinRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "JoinRequest"
+ADD CONSTRAINT "JoinRequest_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "ManagedChat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "JoinRequest_status_createdAt_idx" ON "JoinRequest" ("status", "createdAt");
@@ -0,0 +1,9 @@
+-- Bans are kept per chat; blocked users are treated as banned in the chats known for them
+ALTER TABLE "ChatMembership"
+ADD COLUMN "isBanned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "banReason" TEXT;
+
+UPDATE "ChatMembership" m
+SET "isBanned" = true, "banReason" = u."blockReason"
+FROM "User" u
+WHERE u."id" = m."userId" AND u."isBlocked" = true;
@@ -0,0 +1,19 @@
+-- Applicants are kept on the request and become users only once approved
+ALTER TABLE "JoinRequest"
+ADD COLUMN "telegramId" TEXT,
+ADD COLUMN "username" TEXT,
+ADD COLUMN "firstName" TEXT,
+ADD COLUMN "lastName" TEXT,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+UPDATE "JoinRequest" r
+SET "telegramId" = u."telegramId",
+    "username" = u."username",
+    "firstName" = u."firstName",
+    "lastName" = u."lastName"
+FROM "User" u
+WHERE u."id" = r."userId";
+
+ALTER TABLE "JoinRequest" ALTER COLUMN "telegramId" SET NOT NULL;
+
+CREATE INDEX "JoinRequest_telegramId_chatId_idx" ON "JoinRequest" ("telegramId", "chatId");
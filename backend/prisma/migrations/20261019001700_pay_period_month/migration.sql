@@ -0,0 +1,10 @@
+-- Closed periods are found by their month, which does not move when the hostel time zone changes
+ALTER TABLE "PayPeriod"
+ADD COLUMN "month" TEXT;
+
+UPDATE "PayPeriod"
+SET "month" = to_char("start" + ("end" - "start") / 2, 'YYYY-MM');
+
+ALTER TABLE "PayPeriod" ALTER COLUMN "month" SET NOT NULL;
+
+CREATE UNIQUE INDEX "PayPeriod_month_key" ON "PayPeriod" ("month");
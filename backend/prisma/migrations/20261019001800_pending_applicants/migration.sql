@@ -0,0 +1,31 @@
+-- Applicants are pending users until a join request of theirs is approved
+ALTER TABLE "User"
+ADD COLUMN "isPending" BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO "User" ("id", "telegramId", "username", "firstName", "lastName", "isPending", "updatedAt")
+SELECT DISTINCT ON (r."telegramId")
+    gen_random_uuid()::text,
+    r."telegramId",
+    r."username",
+    r."firstName",
+    r."lastName",
+    true,
+    CURRENT_TIMESTAMP
+FROM "JoinRequest" r
+WHERE r."userId" IS NULL
+ORDER BY r."telegramId", r."createdAt" DESC
+ON CONFLICT ("telegramId") DO NOTHING;
+
+UPDATE "JoinRequest" r
+SET "userId" = u."id"
+FROM "User" u
+WHERE r."userId" IS NULL AND u."telegramId" = r."telegramId";
+
+DROP INDEX "JoinRequest_telegramId_chatId_idx";
+
+ALTER TABLE "JoinRequest"
+ALTER COLUMN "userId" SET NOT NULL,
+DROP COLUMN "telegramId",
+DROP COLUMN "username",
+DROP COLUMN "firstName",
+DROP COLUMN "lastName";
@@ -0,0 +1,10 @@
+-- Keep updatedAt current for writes that bypass Prisma, as on the other tables
+CREATE TRIGGER managed_chat_set_updated_at
+    BEFORE UPDATE ON "ManagedChat"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
+
+CREATE TRIGGER chat_membership_set_updated_at
+    BEFORE UPDATE ON "ChatMembership"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
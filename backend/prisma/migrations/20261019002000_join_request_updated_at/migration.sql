@@ -0,0 +1,5 @@
+-- Keep updatedAt current for writes that bypass Prisma, as on the other tables
+CREATE TRIGGER join_request_set_updated_at
+    BEFORE UPDATE ON "JoinRequest"
+    FOR EACH ROW
+    EXECUTE FUNCTION prisma_set_updated_at();
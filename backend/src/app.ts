@@ -3,6 +3,7 @@ import express from 'express';
 import type { NextFunction, Request, Response } from 'express';
 import helmet from 'helmet';
 import morgan from 'morgan';
+import multer from 'multer';
 import { ZodError } from 'zod';
 
 import routes from './routes';
@@ -35,6 +36,13 @@ export function createApp() {
       });
     }
 
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({
+        error: err.code === 'LIMIT_FILE_SIZE' ? 'Файл слишком большой' : 'Ошибка загрузки файла',
+        code: err.code
+      });
+    }
+
     console.error(err);
     res.status(500).json({ error: 'Internal server error' });
   });
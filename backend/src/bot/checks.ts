@@ -0,0 +1,342 @@
+import type { Prisma } from '@prisma/client';
+import type TelegramBot from 'node-telegram-bot-api';
+import type { CallbackQuery, Message } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import { amountSchema, createCheck, noteSchema } from '../services/checks';
+import { hasPermission } from '../services/permissions';
+import { computeUserSalary } from '../services/salary';
+import { getHostelTimeZone } from '../services/timeZone';
+import { currentMonthRange } from '../utils/dateRange';
+import { formatAmount } from '../utils/format';
+
+const CHECK_USAGE = 'Отправьте /check 1500 комната 12 или просто /check, чтобы заполнить чек по шагам.';
+const CAPTION_HINT = 'Добавьте к фото подпись с суммой, например: 1500 комната 12';
+
+const CALLBACK_CANCEL = 'check:cancel';
+const CALLBACK_SKIP_NOTE = 'check:skip-note';
+const CALLBACK_CONFIRM = 'check:confirm';
+
+// Guided check drafts live in memory only; an abandoned draft simply expires
+const DRAFT_TTL_MS = 10 * 60 * 1000;
+
+interface CheckDraft {
+  step: 'amount' | 'note' | 'confirm';
+  amount?: number;
+  note?: string;
+  expiresAt: number;
+}
+
+const drafts = new Map<string, CheckDraft>();
+
+function getDraft(chatId: number | string) {
+  const draft = drafts.get(chatId.toString());
+
+  if (draft && draft.expiresAt < Date.now()) {
+    drafts.delete(chatId.toString());
+    return undefined;
+  }
+
+  return draft;
+}
+
+function saveDraft(chatId: number | string, draft: Omit<CheckDraft, 'expiresAt'>) {
+  drafts.set(chatId.toString(), { ...draft, expiresAt: Date.now() + DRAFT_TTL_MS });
+}
+
+function parseAmount(raw: string): { amount: number } | { error: string } {
+  const result = amountSchema.safeParse(raw.trim().replace(',', '.'));
+
+  return result.success
+    ? { amount: result.data }
+    : { error: result.error.issues[0]?.message ?? 'Некорректная сумма' };
+}
+
+function parseNote(raw: string): { note: string | undefined } | { error: string } {
+  const result = noteSchema.safeParse(raw.trim());
+
+  return result.success
+    ? { note: result.data }
+    : { error: result.error.issues[0]?.message ?? 'Некорректная заметка' };
+}
+
+async function resolveSender(bot: TelegramBot, chatId: number | string, telegramId: number) {
+  const [user, admin] = await Promise.all([
+    prisma.user.findUnique({ where: { telegramId: telegramId.toString() } }),
+    prisma.admin.findUnique({ where: { telegramId: telegramId.toString() } })
+  ]);
+
+  if (!user) {
+    await bot.sendMessage(chatId, 'Сначала откройте приложение командой /start.');
+    return null;
+  }
+
+  if (user.isBlocked) {
+    await bot.sendMessage(chatId, 'Вы заблокированы и не можете отправлять чеки.');
+    return null;
+  }
+
+  if (user.isPending && !admin) {
+    await bot.sendMessage(chatId, 'Ваша заявка на вступление ещё не одобрена.');
+    return null;
+  }
+
+  return { user, admin };
+}
+
+async function submitCheck(
+  bot: TelegramBot,
+  chatId: number | string,
+  telegramId: number,
+  { amount, note }: { amount: number; note?: string },
+  attachments?: Prisma.CheckAttachmentCreateWithoutCheckInput[]
+) {
+  const sender = await resolveSender(bot, chatId, telegramId);
+
+  if (!sender) {
+    return;
+  }
+
+  const check = await createCheck({
+    userId: sender.user.id,
+    amount,
+    note,
+    reviewer: hasPermission(sender.admin, 'checks.manage') ? sender.admin : null,
+    attachments
+  });
+
+  // Same numbers as /checks/summary/self for the current month
+  const stats = await computeUserSalary(
+    sender.user,
+    currentMonthRange(new Date(), await getHostelTimeZone())
+  );
+
+  const lines = [
+    check.status === 'approved'
+      ? `Чек на ${formatAmount(amount)} сохранён.`
+      : `Чек на ${formatAmount(amount)} отправлен на проверку администратору.`,
+    `Текущий месяц: ${stats.checks} шт. на ${formatAmount(stats.amount)}.`,
+    stats.salary !== null
+      ? `Зарплата за месяц: ${formatAmount(stats.salary)} (${stats.percent}%).`
+      : 'Процент не задан — обратитесь к администратору.'
+  ];
+
+  if (check.status === 'pending') {
+    lines.push('Чек будет учтён в зарплате после подтверждения.');
+  }
+
+  await bot.sendMessage(chatId, lines.join('\n'));
+}
+
+async function startGuidedCheck(bot: TelegramBot, chatId: number | string) {
+  saveDraft(chatId, { step: 'amount' });
+
+  await bot.sendMessage(chatId, 'Введите сумму чека, например 1500 или 1500.50.', {
+    reply_markup: {
+      inline_keyboard: [[{ text: 'Отмена', callback_data: CALLBACK_CANCEL }]]
+    }
+  });
+}
+
+async function askForConfirmation(bot: TelegramBot, chatId: number | string, draft: CheckDraft) {
+  await bot.sendMessage(
+    chatId,
+    [`Сумма: ${formatAmount(draft.amount ?? 0)}`, `Заметка: ${draft.note || '—'}`, '', 'Отправить чек?'].join(
+      '\n'
+    ),
+    {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: 'Подтвердить', callback_data: CALLBACK_CONFIRM },
+            { text: 'Отмена', callback_data: CALLBACK_CANCEL }
+          ]
+        ]
+      }
+    }
+  );
+}
+
+async function handleCheckCommand(bot: TelegramBot, msg: Message, args: string) {
+  if (!msg.chat || msg.chat.type !== 'private' || !msg.from) {
+    return;
+  }
+
+  const chatId = msg.chat.id;
+
+  if (!(await resolveSender(bot, chatId, msg.from.id))) {
+    return;
+  }
+
+  if (!args) {
+    await startGuidedCheck(bot, chatId);
+    return;
+  }
+
+  const [rawAmount, ...noteParts] = args.split(/\s+/);
+  const amount = parseAmount(rawAmount);
+
+  if ('error' in amount) {
+    await bot.sendMessage(chatId, `${amount.error}. ${CHECK_USAGE}`);
+    return;
+  }
+
+  const note = parseNote(noteParts.join(' '));
+
+  if ('error' in note) {
+    await bot.sendMessage(chatId, note.error);
+    return;
+  }
+
+  drafts.delete(chatId.toString());
+  await submitCheck(bot, chatId, msg.from.id, { amount: amount.amount, note: note.note });
+}
+
+async function handleDraftMessage(bot: TelegramBot, msg: Message) {
+  if (!msg.chat || msg.chat.type !== 'private' || !msg.from || !msg.text || msg.text.startsWith('/')) {
+    return;
+  }
+
+  const chatId = msg.chat.id;
+  const draft = getDraft(chatId);
+
+  if (!draft) {
+    return;
+  }
+
+  if (draft.step === 'amount') {
+    const amount = parseAmount(msg.text);
+
+    if ('error' in amount) {
+      await bot.sendMessage(chatId, `${amount.error}. Попробуйте ещё раз.`);
+      return;
+    }
+
+    saveDraft(chatId, { step: 'note', amount: amount.amount });
+    await bot.sendMessage(chatId, 'Добавьте заметку (например, комната 12) или нажмите «Без заметки».', {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: 'Без заметки', callback_data: CALLBACK_SKIP_NOTE },
+            { text: 'Отмена', callback_data: CALLBACK_CANCEL }
+          ]
+        ]
+      }
+    });
+    return;
+  }
+
+  if (draft.step === 'note') {
+    const note = parseNote(msg.text);
+
+    if ('error' in note) {
+      await bot.sendMessage(chatId, `${note.error}. Попробуйте ещё раз.`);
+      return;
+    }
+
+    const next: CheckDraft = { ...draft, step: 'confirm', note: note.note };
+    saveDraft(chatId, next);
+    await askForConfirmation(bot, chatId, next);
+  }
+}
+
+async function handleCheckCallback(bot: TelegramBot, query: CallbackQuery) {
+  const chatId = query.message?.chat?.id;
+
+  if (!query.data?.startsWith('check:') || chatId === undefined) {
+    return;
+  }
+
+  await bot.answerCallbackQuery(query.id);
+  const draft = getDraft(chatId);
+
+  if (query.data === CALLBACK_CANCEL) {
+    drafts.delete(chatId.toString());
+    await bot.sendMessage(chatId, 'Создание чека отменено.');
+    return;
+  }
+
+  if (!draft) {
+    await bot.sendMessage(chatId, `Черновик чека устарел. ${CHECK_USAGE}`);
+    return;
+  }
+
+  if (query.data === CALLBACK_SKIP_NOTE && draft.step === 'note') {
+    const next: CheckDraft = { ...draft, step: 'confirm', note: undefined };
+    saveDraft(chatId, next);
+    await askForConfirmation(bot, chatId, next);
+    return;
+  }
+
+  if (query.data === CALLBACK_CONFIRM && draft.step === 'confirm' && draft.amount !== undefined) {
+    drafts.delete(chatId.toString());
+    await submitCheck(bot, chatId, query.from.id, { amount: draft.amount, note: draft.note });
+  }
+}
+
+async function handleCheckPhoto(bot: TelegramBot, msg: Message) {
+  if (!msg.chat || msg.chat.type !== 'private' || !msg.from || !msg.photo?.length) {
+    return;
+  }
+
+  const chatId = msg.chat.id;
+  const [rawAmount, ...noteParts] = (msg.caption ?? '').trim().split(/\s+/);
+
+  if (!rawAmount) {
+    await bot.sendMessage(chatId, CAPTION_HINT);
+    return;
+  }
+
+  const amount = parseAmount(rawAmount);
+
+  if ('error' in amount) {
+    await bot.sendMessage(chatId, `${amount.error}. ${CAPTION_HINT}`);
+    return;
+  }
+
+  const note = parseNote(noteParts.join(' '));
+
+  if ('error' in note) {
+    await bot.sendMessage(chatId, note.error);
+    return;
+  }
+
+  // Telegram sends several sizes of the same photo, the last one is the largest
+  const photo = msg.photo[msg.photo.length - 1];
+
+  await submitCheck(bot, chatId, msg.from.id, { amount: amount.amount, note: note.note }, [
+    {
+      telegramFileId: photo.file_id,
+      mimeType: 'image/jpeg',
+      size: photo.file_size ?? null
+    }
+  ]);
+}
+
+function reportFailure(bot: TelegramBot, chatId: number | string | undefined) {
+  return async (error: unknown) => {
+    console.error('Failed to process check in bot', error);
+
+    if (chatId !== undefined) {
+      await bot.sendMessage(chatId, 'Не удалось сохранить чек. Попробуйте позже.').catch(() => undefined);
+    }
+  };
+}
+
+export function registerCheckHandlers(bot: TelegramBot) {
+  bot.onText(/^\/check(?:@\w+)?(?:\s+([\s\S]+))?$/, (msg, match) => {
+    handleCheckCommand(bot, msg, match?.[1]?.trim() ?? '').catch(reportFailure(bot, msg.chat?.id));
+  });
+
+  bot.on('message', (msg) => {
+    handleDraftMessage(bot, msg).catch(reportFailure(bot, msg.chat?.id));
+  });
+
+  bot.on('callback_query', (query) => {
+    handleCheckCallback(bot, query).catch(reportFailure(bot, query.message?.chat?.id));
+  });
+
+  bot.on('photo', (msg) => {
+    handleCheckPhoto(bot, msg).catch(reportFailure(bot, msg.chat?.id));
+  });
+}
@@ -0,0 +1,78 @@
+import TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+
+import { env } from '../env';
+import { registerCheckHandlers } from './checks';
+import { registerJoinRequestHandlers } from './joinRequests';
+import { registerMembershipHandlers } from './membership';
+import { registerModerationHandlers } from './moderation';
+import { registerPayslipHandlers } from './payslips';
+
+// chat_member updates are only sent when asked for explicitly
+const ALLOWED_UPDATES = [
+  'message',
+  'callback_query',
+  'chat_member',
+  'my_chat_member',
+  'chat_join_request'
+];
+
+let botInstance: TelegramBot | null = null;
+
+export function getBot(): TelegramBot {
+  if (!botInstance) {
+    botInstance = new TelegramBot(env.BOT_TOKEN, {
+      polling: { params: { allowed_updates: JSON.stringify(ALLOWED_UPDATES) } },
+      baseApiUrl: env.TELEGRAM_API_BASE_URL
+    });
+
+    botInstance.setMyCommands([
+      { command: 'start', description: 'Запуск веб-приложения' },
+      { command: 'check', description: 'Отправить чек' },
+      { command: 'payslip', description: 'Расчётный листок за месяц' }
+    ]);
+
+    botInstance.onText(/\/start/, (msg: Message) => {
+      if (!msg.chat || !msg.chat.id) {
+        return;
+      }
+
+      const greeting = [
+        'Привет! Нажми кнопку, чтобы открыть приложение.',
+        'Чтобы отправить чек, используй /check 1500 комната 12 или пришли фото с суммой в подписи.'
+      ].join('\n');
+
+      botInstance!.sendMessage(msg.chat.id, greeting, {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: 'Открыть приложение',
+                web_app: {
+                  url: env.WEBAPP_URL
+                }
+              }
+            ]
+          ]
+        }
+      });
+    });
+
+    registerCheckHandlers(botInstance);
+    registerJoinRequestHandlers(botInstance);
+    registerMembershipHandlers(botInstance);
+    registerModerationHandlers(botInstance);
+    registerPayslipHandlers(botInstance);
+  }
+
+  return botInstance;
+}
+
+export async function stopBot() {
+  if (!botInstance) {
+    return;
+  }
+
+  await botInstance.stopPolling();
+  botInstance = null;
+}
@@ -0,0 +1,104 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { CallbackQuery, ChatJoinRequest } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import { recordAuditAs } from '../services/audit';
+import { findManagedChat } from '../services/chats';
+import {
+  JOIN_CALLBACK_PREFIX,
+  decideJoinRequest,
+  joinRequestText,
+  receiveJoinRequest
+} from '../services/joinRequests';
+import type { JoinDecision } from '../services/joinRequests';
+import { hasPermission } from '../services/permissions';
+
+const DECISION_ERRORS = {
+  not_found: 'Заявка не найдена.',
+  decided: 'Заявка уже рассмотрена.',
+  telegram: 'Telegram не принял решение: заявка могла устареть.'
+};
+
+async function handleJoinRequest(request: ChatJoinRequest) {
+  const chat = await findManagedChat(request.chat.id.toString());
+
+  if (chat) {
+    await receiveJoinRequest(chat, request);
+  }
+}
+
+async function handleJoinCallback(bot: TelegramBot, query: CallbackQuery) {
+  if (!query.data?.startsWith(JOIN_CALLBACK_PREFIX)) {
+    return;
+  }
+
+  const [decision, id] = query.data.slice(JOIN_CALLBACK_PREFIX.length).split(':');
+
+  if ((decision !== 'approve' && decision !== 'decline') || !id) {
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+
+  const sender = await prisma.admin.findUnique({
+    where: { telegramId: query.from.id.toString() }
+  });
+
+  if (!sender || !hasPermission(sender, 'users.moderate')) {
+    await bot.answerCallbackQuery(query.id, { text: 'Недостаточно прав.', show_alert: true });
+    return;
+  }
+
+  const outcome = await decideJoinRequest(id, decision as JoinDecision, sender.telegramId);
+
+  if (!outcome.ok) {
+    await bot.answerCallbackQuery(query.id, { text: DECISION_ERRORS[outcome.error] });
+    return;
+  }
+
+  const { joinRequest } = outcome;
+  await recordAuditAs(
+    { telegramId: sender.telegramId, isAdmin: true },
+    {
+      action: decision === 'approve' ? 'user.join.approve' : 'user.join.decline',
+      entityType: 'user',
+      entityId: joinRequest.userId,
+      after: {
+        joinRequestId: joinRequest.id,
+        status: joinRequest.status,
+        chatId: joinRequest.chat.telegramChatId
+      }
+    }
+  );
+
+  await bot.answerCallbackQuery(query.id, {
+    text: decision === 'approve' ? 'Заявка одобрена.' : 'Заявка отклонена.'
+  });
+
+  // Other moderators keep their buttons; pressing them later only reports the request as decided
+  if (query.message?.chat?.id !== undefined) {
+    const verdict = decision === 'approve' ? 'Одобрена' : 'Отклонена';
+    const name = sender.displayName ?? `ID ${sender.telegramId}`;
+    const text = joinRequestText(joinRequest.user, joinRequest.chat, joinRequest.bio);
+
+    await bot
+      .editMessageText(`${text}\n\n${verdict}: ${name}`, {
+        chat_id: query.message.chat.id,
+        message_id: query.message.message_id
+      })
+      .catch((error) => console.error('Failed to update join request message', id, error));
+  }
+}
+
+export function registerJoinRequestHandlers(bot: TelegramBot) {
+  bot.on('chat_join_request', (request) => {
+    handleJoinRequest(request).catch((error) =>
+      console.error('Failed to handle join request', request.chat.id, error)
+    );
+  });
+
+  bot.on('callback_query', (query) => {
+    handleJoinCallback(bot, query).catch((error) =>
+      console.error('Failed to decide join request', query.data, error)
+    );
+  });
+}
@@ -0,0 +1,101 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { ChatMemberUpdated } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import { findManagedChat, isInChat, recordMembershipUpdate } from '../services/chats';
+import { notifyUser } from '../services/moderation';
+import { hasPermission } from '../services/permissions';
+
+function isGroup(update: ChatMemberUpdated) {
+  return update.chat.type === 'group' || update.chat.type === 'supergroup';
+}
+
+async function notifyChatManagers(message: string) {
+  const admins = await prisma.admin.findMany({ select: { telegramId: true, role: true } });
+
+  await Promise.all(
+    admins
+      .filter((admin) => hasPermission(admin, 'settings.manage'))
+      .map((admin) => notifyUser(admin.telegramId, message))
+  );
+}
+
+// Someone joined, left, was added or removed; only managed chats are tracked
+async function handleChatMember(update: ChatMemberUpdated) {
+  if (!isGroup(update) || update.new_chat_member.user.is_bot) {
+    return;
+  }
+
+  const chat = await findManagedChat(update.chat.id.toString());
+
+  if (chat) {
+    await recordMembershipUpdate(chat, update);
+  }
+}
+
+/**
+ * The bot's own status changed. An admin who may manage settings adding the bot to a group makes
+ * it a managed chat; losing admin rights or being removed is reported, since moderation and
+ * member tracking stop working there.
+ */
+async function handleMyChatMember(update: ChatMemberUpdated) {
+  if (!isGroup(update)) {
+    return;
+  }
+
+  const telegramChatId = update.chat.id.toString();
+  const title = update.chat.title ?? telegramChatId;
+  const status = update.new_chat_member.status;
+  const chat = await findManagedChat(telegramChatId);
+
+  if (!chat) {
+    const sender = await prisma.admin.findUnique({
+      where: { telegramId: update.from.id.toString() }
+    });
+
+    if (isInChat(update.new_chat_member) && sender && hasPermission(sender, 'settings.manage')) {
+      await prisma.managedChat.create({
+        data: { telegramChatId, title: update.chat.title ?? null }
+      });
+      await notifyChatManagers(
+        status === 'administrator'
+          ? `Чат «${title}» подключён.`
+          : `Чат «${title}» подключён. Назначьте бота администратором, чтобы работала модерация.`
+      );
+    }
+
+    return;
+  }
+
+  if (update.chat.title && update.chat.title !== chat.title) {
+    await prisma.managedChat.update({
+      where: { id: chat.id },
+      data: { title: update.chat.title }
+    });
+  }
+
+  if (status === 'administrator' || status === update.old_chat_member.status) {
+    return;
+  }
+
+  await notifyChatManagers(
+    isInChat(update.new_chat_member)
+      ? `Бот больше не администратор в чате «${title}»: ` +
+          'модерация и учёт участников там не работают.'
+      : `Бот удалён из чата «${title}».`
+  );
+}
+
+export function registerMembershipHandlers(bot: TelegramBot) {
+  bot.on('chat_member', (update) => {
+    handleChatMember(update).catch((error) =>
+      console.error('Failed to record chat member update', update.chat.id, error)
+    );
+  });
+
+  bot.on('my_chat_member', (update) => {
+    handleMyChatMember(update).catch((error) =>
+      console.error('Failed to handle bot membership update', update.chat.id, error)
+    );
+  });
+}
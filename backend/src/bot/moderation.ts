@@ -0,0 +1,217 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message, TelegramUser } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import { recordAuditAs } from '../services/audit';
+import type { AuditAction } from '../services/audit';
+import { findManagedChat, trackMembership, upsertChatUser } from '../services/chats';
+import { applyBlock, applyMute, applyUnblock, applyUnmute } from '../services/moderation';
+import type { ModerationOutcome } from '../services/moderation';
+import { hasPermission } from '../services/permissions';
+import { getHostelTimeZone } from '../services/timeZone';
+import { issueWarning } from '../services/warnings';
+import type { WarningEscalation } from '../services/warnings';
+import { telegramDisplayName } from '../utils/format';
+
+type ModerationCommand = 'mute' | 'unmute' | 'ban' | 'unban' | 'warn';
+
+const DEFAULT_MUTE_MINUTES = 60;
+// Same limit as POST /api/users/:id/mute
+const MAX_MUTE_MINUTES = 60 * 24 * 30;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 1,
+  м: 1,
+  h: 60,
+  ч: 60,
+  d: 24 * 60,
+  д: 24 * 60,
+  w: 7 * 24 * 60,
+  н: 7 * 24 * 60
+};
+
+const COMMAND_AUDIT_ACTIONS: Record<ModerationCommand, AuditAction> = {
+  mute: 'user.mute',
+  unmute: 'user.unmute',
+  ban: 'user.block',
+  unban: 'user.unblock',
+  warn: 'user.warn'
+};
+
+const COMMAND_USAGE = [
+  'Ответьте на сообщение пользователя командой:',
+  '/mute 2h причина, /unmute, /ban причина, /unban или /warn причина.'
+].join('\n');
+
+// `30m`, `2h`, `1d`, `1w` (or the Russian м/ч/д/н), null when the token is not a duration
+function parseDuration(token: string | undefined) {
+  const match = token?.toLowerCase().match(/^(\d+)([a-zа-я])$/);
+  const unit = match ? DURATION_UNITS[match[2]] : undefined;
+
+  return match && unit ? Number(match[1]) * unit : null;
+}
+
+function describeEscalation(name: string, escalation: WarningEscalation | null) {
+  if (!escalation) {
+    return '';
+  }
+
+  if (!escalation.outcome?.ok) {
+    return ' Автоматическая санкция не применилась, проверьте права бота.';
+  }
+
+  return escalation.threshold.action === 'block'
+    ? ` ${name} заблокирован автоматически.`
+    : ` ${name} автоматически получил мут.`;
+}
+
+async function describeOutcome(
+  command: Exclude<ModerationCommand, 'warn'>,
+  target: TelegramUser,
+  until?: Date
+) {
+  const name = telegramDisplayName(target);
+
+  switch (command) {
+    case 'mute': {
+      const timeZone = await getHostelTimeZone();
+      return `${name} не может писать до ${until!.toLocaleString('ru-RU', { timeZone })}.`;
+    }
+    case 'unmute':
+      return `${name} снова может писать.`;
+    case 'ban':
+      return `${name} заблокирован.`;
+    case 'unban':
+      return `${name} разблокирован.`;
+  }
+}
+
+async function handleModerationCommand(
+  bot: TelegramBot,
+  msg: Message,
+  command: ModerationCommand,
+  args: string
+) {
+  if (!msg.chat || (msg.chat.type !== 'group' && msg.chat.type !== 'supergroup') || !msg.from) {
+    return;
+  }
+
+  const chatId = msg.chat.id.toString();
+  const reply = (text: string) =>
+    bot.sendMessage(msg.chat!.id, text, { reply_to_message_id: msg.message_id });
+
+  const sender = await prisma.admin.findUnique({ where: { telegramId: msg.from.id.toString() } });
+
+  if (!sender || !hasPermission(sender, 'users.moderate')) {
+    await reply('Команда доступна только администраторам с правом модерации.');
+    return;
+  }
+
+  const target = msg.reply_to_message?.from;
+
+  if (!target) {
+    await reply(COMMAND_USAGE);
+    return;
+  }
+
+  const targetAdmin = await prisma.admin.findUnique({
+    where: { telegramId: target.id.toString() }
+  });
+
+  if (target.is_bot || targetAdmin) {
+    await reply('Эта команда не применяется к администраторам и ботам.');
+    return;
+  }
+
+  const chat = await findManagedChat(chatId);
+
+  if (!chat) {
+    await reply('Этот чат не подключён к боту. Добавьте его в настройках приложения.');
+    return;
+  }
+
+  const user = await upsertChatUser(target, chatId);
+  await trackMembership(user.id, chat);
+
+  const request = { actorTelegramId: sender.telegramId, chats: [chat] };
+  let outcome: ModerationOutcome;
+  let until: Date | undefined;
+
+  if (command === 'warn') {
+    const result = await issueWarning(user, {
+      actorTelegramId: sender.telegramId,
+      chatId,
+      reason: args
+    });
+
+    await recordAuditAs(
+      { telegramId: sender.telegramId, isAdmin: true },
+      {
+        action: COMMAND_AUDIT_ACTIONS[command],
+        entityType: 'user',
+        entityId: user.id,
+        before: user,
+        after: { ...result.user, warningPoints: result.points, reason: result.warning.reason }
+      }
+    );
+
+    const name = telegramDisplayName(target);
+    await reply(
+      `${name} получил предупреждение, активных баллов: ${result.points}.` +
+        describeEscalation(name, result.escalation)
+    );
+    return;
+  }
+
+  if (command === 'mute') {
+    const [first, ...rest] = args.split(/\s+/);
+    const parsed = parseDuration(first);
+    const durationMinutes = Math.min(parsed ?? DEFAULT_MUTE_MINUTES, MAX_MUTE_MINUTES);
+    const reason = parsed === null ? args : rest.join(' ');
+
+    until = new Date(Date.now() + durationMinutes * 60 * 1000);
+    outcome = await applyMute(user, { ...request, until, durationMinutes, reason });
+  } else if (command === 'unmute') {
+    outcome = await applyUnmute(user, request);
+  } else if (command === 'ban') {
+    outcome = await applyBlock(user, { ...request, reason: args });
+  } else {
+    outcome = await applyUnblock(user, request);
+  }
+
+  if (!outcome.ok) {
+    await reply('Telegram не применил действие. Проверьте, что бот — администратор чата.');
+    return;
+  }
+
+  await recordAuditAs(
+    { telegramId: sender.telegramId, isAdmin: true },
+    {
+      action: COMMAND_AUDIT_ACTIONS[command],
+      entityType: 'user',
+      entityId: user.id,
+      before: user,
+      after: outcome.user
+    }
+  );
+
+  await reply(await describeOutcome(command, target, until));
+}
+
+export function registerModerationHandlers(bot: TelegramBot) {
+  bot.onText(/^\/(mute|unmute|ban|unban|warn)(?:@\w+)?(?:\s+([\s\S]+))?$/, (msg, match) => {
+    const command = match![1] as ModerationCommand;
+
+    handleModerationCommand(bot, msg, command, match?.[2]?.trim() ?? '').catch(
+      async (error: unknown) => {
+        console.error('Failed to run moderation command in bot', command, error);
+
+        if (msg.chat?.id !== undefined) {
+          await bot
+            .sendMessage(msg.chat.id, 'Не удалось выполнить команду. Попробуйте позже.')
+            .catch(() => undefined);
+        }
+      }
+    );
+  });
+}
@@ -0,0 +1,66 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import {
+  buildPayslip,
+  currentPayslipMonth,
+  payslipFilename,
+  payslipMonthSchema,
+  renderPayslipPdf
+} from '../services/payslips';
+import { getHostelTimeZone } from '../services/timeZone';
+
+const PAYSLIP_USAGE = 'Отправьте /payslip, чтобы получить листок за текущий месяц, или /payslip 2024-05.';
+
+async function handlePayslipCommand(bot: TelegramBot, msg: Message, args: string) {
+  if (!msg.chat || msg.chat.type !== 'private' || !msg.from) {
+    return;
+  }
+
+  const chatId = msg.chat.id;
+  const user = await prisma.user.findUnique({ where: { telegramId: msg.from.id.toString() } });
+
+  if (!user) {
+    await bot.sendMessage(chatId, 'Сначала откройте приложение командой /start.');
+    return;
+  }
+
+  const month = args ? payslipMonthSchema.safeParse(args) : null;
+
+  if (month && !month.success) {
+    await bot.sendMessage(chatId, PAYSLIP_USAGE);
+    return;
+  }
+
+  const payslip = await buildPayslip(
+    user,
+    month?.data ?? currentPayslipMonth(await getHostelTimeZone())
+  );
+
+  if (!payslip) {
+    await bot.sendMessage(chatId, PAYSLIP_USAGE);
+    return;
+  }
+
+  await bot.sendDocument(
+    chatId,
+    await renderPayslipPdf(payslip),
+    { caption: `Расчётный листок за ${payslip.month}` },
+    { filename: payslipFilename(payslip), contentType: 'application/pdf' }
+  );
+}
+
+export function registerPayslipHandlers(bot: TelegramBot) {
+  bot.onText(/^\/payslip(?:@\w+)?(?:\s+(\S+))?\s*$/, (msg, match) => {
+    handlePayslipCommand(bot, msg, match?.[1]?.trim() ?? '').catch(async (error: unknown) => {
+      console.error('Failed to send payslip in bot', error);
+
+      if (msg.chat?.id !== undefined) {
+        await bot
+          .sendMessage(msg.chat.id, 'Не удалось сформировать листок. Попробуйте позже.')
+          .catch(() => undefined);
+      }
+    });
+  });
+}
@@ -2,18 +2,28 @@ import 'dotenv/config';
 
 import { z } from 'zod';
 
+import { isValidTimeZone } from './utils/dateRange';
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   PORT: z.coerce.number().default(4000),
   BOT_TOKEN: z.string().min(1, 'BOT_TOKEN is required'),
   WEBAPP_URL: z.string().url('WEBAPP_URL must be a valid URL'),
   TELEGRAM_API_BASE_URL: z.string().url().default('https://api.telegram.org'),
+  // Seconds a WebApp launch stays valid; 0 disables the check
+  TELEGRAM_INIT_DATA_MAX_AGE: z.coerce.number().int().min(0).default(24 * 60 * 60),
+  TELEGRAM_INIT_DATA_SIGNATURE_KEY: z.enum(['production', 'test']).default('production'),
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
   ADMIN_SEED_CHAT_IDS: z
     .string()
     .optional()
     .transform((value) => value?.split(',').map((id) => id.trim()).filter(Boolean) ?? []),
-  DEFAULT_CHAT_ID: z.string().default('-1003141626322')
+  DEFAULT_CHAT_ID: z.string().default('-1003141626322'),
+  UPLOADS_DIR: z.string().default('uploads'),
+  HOSTEL_TIMEZONE: z
+    .string()
+    .default('Asia/Dubai')
+    .refine(isValidTimeZone, 'HOSTEL_TIMEZONE must be an IANA time zone')
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -1,29 +1,56 @@
 import type { NextFunction, Request, Response } from 'express';
 
-import { prisma } from '../prisma';
 import { env } from '../env';
+import { prisma } from '../prisma';
+import { hasPermission } from '../services/permissions';
+import type { Permission } from '../services/permissions';
+import { cacheSession, getCachedSession, sessionCacheKey } from '../services/sessionCache';
 import { parseTelegramUser, verifyTelegramInitData } from '../utils/telegram';
+import type { InitDataErrorCode } from '../utils/telegram';
 
 const TELEGRAM_INIT_DATA_HEADER = 'x-telegram-init-data';
 
+// `code` lets the WebApp tell an expired launch (relaunch the app) from a forged one
+const INIT_DATA_ERRORS: Record<InitDataErrorCode, string> = {
+  INIT_DATA_MISSING: 'Missing Telegram init data',
+  INIT_DATA_INVALID: 'Invalid Telegram init data',
+  INIT_DATA_EXPIRED: 'Telegram init data has expired',
+  INIT_DATA_USER_INVALID: 'Invalid Telegram user payload'
+};
+
+function rejectInitData(res: Response, code: InitDataErrorCode) {
+  return res.status(401).json({ error: INIT_DATA_ERRORS[code], code });
+}
+
 export async function telegramAuth(req: Request, res: Response, next: NextFunction) {
   try {
     const initData = req.header(TELEGRAM_INIT_DATA_HEADER);
 
     if (!initData) {
-      return res.status(401).json({ error: 'Missing Telegram init data' });
+      return rejectInitData(res, 'INIT_DATA_MISSING');
     }
 
-    const isValid = verifyTelegramInitData(initData, env.BOT_TOKEN);
+    const verification = verifyTelegramInitData(initData, env.BOT_TOKEN, {
+      maxAgeSeconds: env.TELEGRAM_INIT_DATA_MAX_AGE,
+      signatureKey: env.TELEGRAM_INIT_DATA_SIGNATURE_KEY
+    });
 
-    if (!isValid) {
-      return res.status(401).json({ error: 'Invalid Telegram init data' });
+    if (!verification.valid) {
+      return rejectInitData(res, verification.code);
     }
 
     const telegramUser = parseTelegramUser(initData);
 
-    if (!telegramUser) {
-      return res.status(401).json({ error: 'Invalid Telegram user payload' });
+    if (!telegramUser || typeof telegramUser.id !== 'number') {
+      return rejectInitData(res, 'INIT_DATA_USER_INVALID');
+    }
+
+    const cacheKey = sessionCacheKey(initData);
+    const cached = getCachedSession(cacheKey);
+
+    if (cached) {
+      req.context = { telegramUser: cached.telegramUser, user: cached.user, admin: cached.admin };
+      return next();
     }
 
     const telegramId = telegramUser.id.toString();
@@ -58,13 +85,6 @@ export async function telegramAuth(req: Request, res: Response, next: NextFuncti
       });
     }
 
-    if (userRecord.mutedUntil && userRecord.mutedUntil.getTime() < Date.now()) {
-      userRecord = await prisma.user.update({
-        where: { id: userRecord.id },
-        data: { mutedUntil: null }
-      });
-    }
-
     if (userRecord.isBlocked) {
       return res.status(403).json({
         error: 'Пользователь заблокирован',
@@ -73,11 +93,20 @@ export async function telegramAuth(req: Request, res: Response, next: NextFuncti
       });
     }
 
+    if (userRecord.isPending && !adminRecord) {
+      return res.status(403).json({
+        error: 'Заявка на вступление ещё не одобрена',
+        reason: null,
+        blocked: true
+      });
+    }
+
     req.context = {
       telegramUser,
       user: userRecord,
       admin: adminRecord
     };
+    cacheSession(cacheKey, req.context);
 
     next();
   } catch (error) {
@@ -93,10 +122,12 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.context?.admin) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.context?.admin ?? null, permission)) {
+      return res.status(403).json({ error: 'Недостаточно прав', permission });
+    }
 
-  next();
+    next();
+  };
 }
@@ -1,7 +1,15 @@
 import { PrismaClient } from '@prisma/client';
 
+import { invalidateSessionsAfterWrite } from './services/sessionCache';
+
 export const prisma = new PrismaClient();
 
+prisma.$use(async (params, next) => {
+  const result = await next(params);
+  invalidateSessionsAfterWrite(params.model, params.action, result);
+  return result;
+});
+
 export async function disconnectPrisma() {
   await prisma.$disconnect();
 }
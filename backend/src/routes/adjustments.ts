@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+import { listAdjustments, serializeAdjustment, signedAdjustmentAmount } from '../services/adjustments';
+import { recordAudit } from '../services/audit';
+import { adjustmentAmountSchema, toDecimal } from '../services/checks';
+import { isDateLocked } from '../services/payPeriods';
+import { getHostelTimeZone } from '../services/timeZone';
+import { asyncHandler } from '../utils/asyncHandler';
+import { parseDateInput, parseMonthInput } from '../utils/dateRange';
+
+const router = Router();
+
+const adjustmentTypeSchema = z.enum(['bonus', 'penalty', 'advance', 'correction']);
+
+const createAdjustmentSchema = z.object({
+  userId: z.string().min(1, 'userId обязателен'),
+  type: adjustmentTypeSchema,
+  amount: adjustmentAmountSchema,
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Укажите причину')
+    .max(500, 'Максимальная длина причины 500 символов'),
+  date: z.string().optional()
+});
+
+const listAdjustmentsQuerySchema = z.object({
+  userId: z.string().min(1, 'userId обязателен'),
+  month: z.string().optional()
+});
+
+const LOCKED_ADJUSTMENT_ERROR = 'Период закрыт, начисление нельзя изменить';
+
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const query = listAdjustmentsQuerySchema.parse(req.query);
+    const range = query.month ? parseMonthInput(query.month, await getHostelTimeZone()) : {};
+
+    if (!range) {
+      return res.status(400).json({ error: 'Некорректный месяц' });
+    }
+
+    const adjustments = await listAdjustments(query.userId, range);
+
+    res.json(adjustments.map(serializeAdjustment));
+  })
+);
+
+router.post(
+  '/',
+  asyncHandler(async (req, res) => {
+    const payload = createAdjustmentSchema.parse(req.body);
+    const date = payload.date?.trim()
+      ? parseDateInput(payload.date, await getHostelTimeZone())
+      : new Date();
+
+    if (!date) {
+      return res.status(400).json({ error: 'Некорректная дата' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Пользователь не найден' });
+    }
+
+    if (await isDateLocked(date)) {
+      return res.status(409).json({ error: LOCKED_ADJUSTMENT_ERROR });
+    }
+
+    const adjustment = await prisma.salaryAdjustment.create({
+      data: {
+        userId: user.id,
+        type: payload.type,
+        amount: toDecimal(signedAdjustmentAmount(payload.type, payload.amount)),
+        reason: payload.reason,
+        date,
+        createdBy: req.context!.admin!.telegramId
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'adjustment.create',
+      entityType: 'adjustment',
+      entityId: adjustment.id,
+      after: serializeAdjustment(adjustment)
+    });
+
+    res.status(201).json(serializeAdjustment(adjustment));
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const adjustment = await prisma.salaryAdjustment.findUnique({ where: { id } });
+
+    if (!adjustment) {
+      return res.status(404).json({ error: 'Начисление не найдено' });
+    }
+
+    if (await isDateLocked(adjustment.date)) {
+      return res.status(409).json({ error: LOCKED_ADJUSTMENT_ERROR });
+    }
+
+    await prisma.salaryAdjustment.delete({ where: { id } });
+
+    await recordAudit(req, {
+      action: 'adjustment.delete',
+      entityType: 'adjustment',
+      entityId: id,
+      before: serializeAdjustment(adjustment)
+    });
+
+    res.status(204).send();
+  })
+);
+
+export default router;
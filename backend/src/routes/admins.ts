@@ -1,7 +1,10 @@
+import type { Admin } from '@prisma/client';
 import { Router } from 'express';
 import { z } from 'zod';
 
 import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import { adminRoleSchema } from '../services/permissions';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -9,9 +12,27 @@ const router = Router();
 const adminBodySchema = z.object({
   telegramId: z.string().min(1, 'telegramId is required'),
   displayName: z.string().min(1).optional(),
-  notes: z.string().optional()
+  notes: z.string().optional(),
+  role: adminRoleSchema.default('manager')
 });
-const updateAdminSchema = adminBodySchema.partial();
+const updateAdminSchema = adminBodySchema.partial().extend({
+  role: adminRoleSchema.optional()
+});
+
+const LAST_OWNER_ERROR = 'Нельзя убрать последнего владельца';
+
+// Someone must always be able to manage admins and roles
+async function isLastOwner(admin: Pick<Admin, 'id' | 'role'>) {
+  if (admin.role !== 'owner') {
+    return false;
+  }
+
+  const owners = await prisma.admin.count({
+    where: { role: 'owner', id: { not: admin.id } }
+  });
+
+  return owners === 0;
+}
 
 router.get(
   '/',
@@ -46,6 +67,12 @@ router.post(
     const admin = await prisma.admin.create({
       data
     });
+    await recordAudit(req, {
+      action: 'admin.create',
+      entityType: 'admin',
+      entityId: admin.id,
+      after: admin
+    });
 
     res.status(201).json(admin);
   })
@@ -57,6 +84,18 @@ router.put(
     const { id } = req.params;
     const data = updateAdminSchema.parse(req.body);
 
+    const before = await prisma.admin.findUnique({
+      where: { id }
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: 'Admin not found' });
+    }
+
+    if (data.role && data.role !== 'owner' && (await isLastOwner(before))) {
+      return res.status(409).json({ error: LAST_OWNER_ERROR });
+    }
+
     if (data.telegramId) {
       const existing = await prisma.admin.findUnique({
         where: { telegramId: data.telegramId }
@@ -77,6 +116,13 @@ router.put(
       where: { id },
       data
     });
+    await recordAudit(req, {
+      action: 'admin.update',
+      entityType: 'admin',
+      entityId: id,
+      before,
+      after: admin
+    });
 
     res.json(admin);
   })
@@ -87,10 +133,28 @@ router.delete(
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    await prisma.admin.delete({
+    const admin = await prisma.admin.findUnique({
       where: { id }
     });
 
+    if (!admin) {
+      return res.status(404).json({ error: 'Admin not found' });
+    }
+
+    if (await isLastOwner(admin)) {
+      return res.status(409).json({ error: LAST_OWNER_ERROR });
+    }
+
+    const deleted = await prisma.admin.delete({
+      where: { id }
+    });
+    await recordAudit(req, {
+      action: 'admin.delete',
+      entityType: 'admin',
+      entityId: id,
+      before: deleted
+    });
+
     res.status(204).send();
   })
 );
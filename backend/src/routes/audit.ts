@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import {
+  attachAuditActors,
+  auditActionSchema,
+  auditEntityTypeSchema,
+  listAuditLog
+} from '../services/audit';
+import { resolveTimeZone } from '../services/timeZone';
+import { asyncHandler } from '../utils/asyncHandler';
+import { resolveRange } from '../utils/dateRange';
+
+const router = Router();
+
+const auditQuerySchema = z.object({
+  action: auditActionSchema.optional(),
+  entityType: auditEntityTypeSchema.optional(),
+  entityId: z.string().trim().optional(),
+  actor: z.string().trim().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  cursor: z.string().optional()
+});
+
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const query = auditQuerySchema.parse(req.query);
+    const range = resolveRange(
+      { startDate: query.startDate, endDate: query.endDate },
+      await resolveTimeZone(req)
+    );
+
+    const { entries, nextCursor } = await listAuditLog({
+      action: query.action,
+      entityType: query.entityType,
+      entityId: query.entityId || undefined,
+      actor: query.actor || undefined,
+      start: range.start,
+      end: range.end,
+      cursor: query.cursor
+    });
+
+    res.json({
+      entries: await attachAuditActors(entries),
+      nextCursor
+    });
+  })
+);
+
+export default router;
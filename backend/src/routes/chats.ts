@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { requirePermission } from '../middleware/auth';
+import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import { fetchChatTitle, findManagedChat, listManagedChats } from '../services/chats';
+import { syncUserBlock, syncUserMute } from '../services/moderation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const chatBodySchema = z.object({
+  telegramChatId: z
+    .string()
+    .trim()
+    .regex(/^-\d+$/, 'chat_id группы начинается с минуса, например -1001234567890')
+});
+
+function serializeChat(chat: Awaited<ReturnType<typeof listManagedChats>>[number]) {
+  const { _count, ...rest } = chat;
+  return { ...rest, memberCount: _count.memberships };
+}
+
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const chats = await listManagedChats();
+
+    res.json(chats.map(serializeChat));
+  })
+);
+
+router.post(
+  '/',
+  requirePermission('settings.manage'),
+  asyncHandler(async (req, res) => {
+    const { telegramChatId } = chatBodySchema.parse(req.body);
+
+    if (await findManagedChat(telegramChatId)) {
+      return res.status(409).json({ error: 'Чат уже подключён' });
+    }
+
+    const info = await fetchChatTitle(telegramChatId);
+
+    if (!info) {
+      return res.status(400).json({ error: 'Бот не состоит в этом чате или chat_id неверный' });
+    }
+
+    const chat = await prisma.managedChat.create({
+      data: { telegramChatId, title: info.title },
+      include: { _count: { select: { memberships: true } } }
+    });
+
+    await recordAudit(req, {
+      action: 'chat.create',
+      entityType: 'chat',
+      entityId: chat.id,
+      after: serializeChat(chat)
+    });
+
+    res.status(201).json(serializeChat(chat));
+  })
+);
+
+// Memberships go with the chat, so bans and mutes there stop counting for the user; the
+// moderation history keeps the chat id
+router.delete(
+  '/:id',
+  requirePermission('settings.manage'),
+  asyncHandler(async (req, res) => {
+    const chat = await prisma.managedChat.findUnique({ where: { id: req.params.id } });
+
+    if (!chat) {
+      return res.status(404).json({ error: 'Чат не найден' });
+    }
+
+    const restricted = await prisma.chatMembership.findMany({
+      where: { chatId: chat.id, OR: [{ isBanned: true }, { mutedUntil: { not: null } }] },
+      select: { userId: true }
+    });
+
+    await prisma.managedChat.delete({ where: { id: chat.id } });
+
+    for (const { userId } of restricted) {
+      await syncUserBlock(userId);
+      await syncUserMute(userId);
+    }
+
+    await recordAudit(req, {
+      action: 'chat.delete',
+      entityType: 'chat',
+      entityId: chat.id,
+      before: chat
+    });
+
+    res.status(204).send();
+  })
+);
+
+export default router;
@@ -1,45 +1,83 @@
-import { Router } from 'express';
 import { Prisma } from '@prisma/client';
+import type { Check } from '@prisma/client';
+import { Router } from 'express';
+import type { Request } from 'express';
 import { z } from 'zod';
 
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { prisma } from '../prisma';
+import { summarizeAdjustments } from '../services/adjustments';
+import { recordAudit } from '../services/audit';
+import {
+  MAX_ATTACHMENTS_PER_CHECK,
+  checkPhotosUpload,
+  openAttachmentStream,
+  removeStoredFiles
+} from '../services/checkAttachments';
+import { checksExportTable, summaryExportTable } from '../services/checkExports';
+import { checkImportUpload, importChecks } from '../services/checkImport';
+import { notifyCheckChange, notifyCheckOwner } from '../services/checkNotifications';
+import {
+  adjustmentAmountSchema,
+  amountSchema,
+  checkUserSelect,
+  createCheck,
+  noteSchema,
+  serializeCheck,
+  toDecimal
+} from '../services/checks';
+import { buildChecksSummary } from '../services/checksSummary';
+import { exportFormatSchema, sendExport } from '../services/exports';
+import {
+  LOCKED_CHECK_ERROR,
+  findClosedPeriods,
+  findPeriodSnapshot,
+  isCheckLocked,
+  isLockedAt,
+  snapshotStatsFor
+} from '../services/payPeriods';
+import { hasPermission } from '../services/permissions';
+import { computeUserSalary, roundAmount } from '../services/salary';
+import { getHostelTimeZone, resolveTimeZone } from '../services/timeZone';
 import { asyncHandler } from '../utils/asyncHandler';
-import { requireAdmin, requireAuth } from '../middleware/auth';
+import { currentMonthRange, resolveRange } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
 
 const router = Router();
 
-const amountSchema = z
-  .coerce
-  .number()
-  .positive('Сумма должна быть больше 0')
-  .refine((value) => {
-    const scaled = value * 100;
-    return Math.abs(scaled - Math.round(scaled)) < 1e-6;
-  }, 'Сумма допускает максимум 2 знака после запятой');
-
 const createCheckSchema = z.object({
-  userId: z.string().min(1, 'userId обязателен'),
+  userId: z.string().min(1, 'userId обязателен').optional(),
   amount: amountSchema,
-  note: z
-    .string()
-    .max(500, 'Максимальная длина заметки 500 символов')
-    .optional()
+  note: noteSchema.optional()
 });
 
 const updateCheckSchema = z
   .object({
     amount: amountSchema.optional(),
-    note: z
-      .string()
-      .max(500, 'Максимальная длина заметки 500 символов')
-      .optional()
+    note: noteSchema.optional()
   })
   .refine((data) => data.amount !== undefined || data.note !== undefined, {
     message: 'Не переданы данные для обновления'
   });
 
+const adjustCheckSchema = z.object({
+  amount: adjustmentAmountSchema,
+  note: noteSchema.optional()
+});
+
+const rejectCheckSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Укажите причину отклонения')
+    .max(500, 'Максимальная длина причины 500 символов')
+});
+
+const checkStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
 const listChecksQuerySchema = z.object({
   userId: z.string().optional(),
+  status: checkStatusSchema.optional(),
   period: z.enum(['day', 'week', 'month']).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional()
@@ -50,125 +88,35 @@ const summaryQuerySchema = z.object({
   endDate: z.string().optional()
 });
 
+// Without userId the export covers every user
+const exportChecksQuerySchema = listChecksQuerySchema.extend({
+  format: exportFormatSchema
+});
+
+const exportSummaryQuerySchema = summaryQuerySchema.extend({
+  format: exportFormatSchema
+});
+
 const selfSummaryQuerySchema = z.object({
   period: z.enum(['day', 'week', 'month']).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional()
 });
 
-interface DateRange {
-  start?: Date;
-  end?: Date;
-}
-
-function startOfDay(date: Date) {
-  const result = new Date(date);
-  result.setHours(0, 0, 0, 0);
-  return result;
-}
-
-function endOfDay(date: Date) {
-  const result = new Date(date);
-  result.setHours(23, 59, 59, 999);
-  return result;
-}
-
-function currentDayRange(reference: Date): Required<DateRange> {
-  const start = startOfDay(reference);
-  const end = endOfDay(reference);
-  return { start, end };
-}
-
-function currentWeekRange(reference: Date): Required<DateRange> {
-  const base = startOfDay(reference);
-  const day = base.getDay() === 0 ? 7 : base.getDay();
-  base.setDate(base.getDate() - (day - 1));
-  const start = base;
-  const end = endOfDay(new Date(start));
-  end.setDate(start.getDate() + 6);
-
-  return { start, end };
-}
-
-function currentMonthRange(reference: Date): Required<DateRange> {
-  const start = startOfDay(new Date(reference.getFullYear(), reference.getMonth(), 1));
-  const end = endOfDay(new Date(reference.getFullYear(), reference.getMonth() + 1, 0));
-
-  return { start, end };
-}
-
-function parseDateInput(value?: string): Date | undefined {
-  if (!value) {
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-
-  if (!trimmed) {
-    return undefined;
-  }
-
-  const parsed = new Date(trimmed);
-
-  if (Number.isNaN(parsed.getTime())) {
-    return undefined;
-  }
-
-  return parsed;
-}
-
-function resolveRange({
-  period,
-  startDate,
-  endDate
-}: z.infer<typeof listChecksQuerySchema>): Required<DateRange> | DateRange {
-  const reference = new Date();
-
-  if (period === 'day') {
-    return currentDayRange(reference);
-  }
-
-  if (period === 'week') {
-    return currentWeekRange(reference);
-  }
-
-  if (period === 'month') {
-    return currentMonthRange(reference);
-  }
-
-  const start = parseDateInput(startDate);
-  const end = parseDateInput(endDate);
-
-  if (start && !end) {
-    return { start: startOfDay(start), end: endOfDay(start) };
-  }
-
-  if (!start && end) {
-    return { start: startOfDay(end), end: endOfDay(end) };
-  }
-
-  if (start && end) {
-    let rangeStart = startOfDay(start);
-    let rangeEnd = endOfDay(end);
-
-    if (rangeStart > rangeEnd) {
-      [rangeStart, rangeEnd] = [rangeEnd, rangeStart];
-    }
-
-    return { start: rangeStart, end: rangeEnd };
-  }
-
-  return {};
+// Attachments are visible to check reviewers and to the owner; staff may change them only while pending
+function canViewCheck(req: Request, check: Check) {
+  const { user, admin } = req.context!;
+  return hasPermission(admin, 'checks.view') || check.userId === user.id;
 }
 
-function toDecimal(amount: number) {
-  const rounded = Math.round(amount * 100) / 100;
-  return new Prisma.Decimal(rounded.toFixed(2));
+function canEditCheckAttachments(req: Request, check: Check) {
+  const { user, admin } = req.context!;
+  return (
+    hasPermission(admin, 'checks.manage') ||
+    (check.userId === user.id && check.status === 'pending')
+  );
 }
 
-const FUND_RATE = 0.15;
-const roundAmount = (value: number) => Math.round(value * 100) / 100;
-
 router.use(requireAuth);
 
 router.get(
@@ -176,13 +124,13 @@ router.get(
   asyncHandler(async (req, res) => {
     const query = listChecksQuerySchema.parse(req.query);
     const { user, admin } = req.context!;
-    const isAdmin = Boolean(admin);
+    const canViewAll = hasPermission(admin, 'checks.view');
 
-    const range = resolveRange(query);
+    const range = resolveRange(query, await resolveTimeZone(req));
 
     let targetUserId: string;
 
-    if (isAdmin) {
+    if (canViewAll) {
       if (query.userId && query.userId !== 'me') {
         targetUserId = query.userId;
       } else {
@@ -224,6 +172,12 @@ router.get(
       userId: targetUserId
     };
 
+    if (!canViewAll && targetUserId !== user.id) {
+      where.status = 'approved';
+    } else if (query.status) {
+      where.status = query.status;
+    }
+
     if (range.start || range.end) {
       where.createdAt = {};
 
@@ -236,18 +190,18 @@ router.get(
       }
     }
 
-    if (isAdmin) {
+    const closedPeriods = await findClosedPeriods(range);
+    const isLocked = (check: Check) => isLockedAt(closedPeriods, check.createdAt);
+
+    if (canViewAll) {
       const checks = await prisma.check.findMany({
         where,
         include: {
           user: {
-            select: {
-              id: true,
-              telegramId: true,
-              firstName: true,
-              lastName: true,
-              username: true
-            }
+            select: checkUserSelect
+          },
+          attachments: {
+            orderBy: { createdAt: 'asc' }
           }
         },
         orderBy: {
@@ -257,12 +211,7 @@ router.get(
 
       res.json(
         checks.map((check) => ({
-          id: check.id,
-          userId: check.userId,
-          amount: check.amount.toNumber(),
-          note: check.note,
-          createdAt: check.createdAt,
-          updatedAt: check.updatedAt,
+          ...serializeCheck(check, isLocked(check)),
           user: check.user
         }))
       );
@@ -272,19 +221,81 @@ router.get(
 
     const checks = await prisma.check.findMany({
       where,
+      include: {
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      },
       orderBy: {
         createdAt: 'desc'
       }
     });
 
+    res.json(
+      checks.map((check) =>
+        canViewCheck(req, check)
+          ? serializeCheck(check, isLocked(check))
+          : { ...serializeCheck(check, isLocked(check)), attachments: [] }
+      )
+    );
+  })
+);
+
+router.get(
+  '/export',
+  requirePermission('checks.view'),
+  asyncHandler(async (req, res) => {
+    const query = exportChecksQuerySchema.parse(req.query);
+    const timeZone = await resolveTimeZone(req);
+    const range = resolveRange(query, timeZone);
+    const userId = query.userId === 'me' ? req.context!.user.id : query.userId;
+
+    const where: Prisma.CheckWhereInput = {
+      ...(userId ? { userId } : {}),
+      ...(query.status ? { status: query.status } : {}),
+      ...(range.start || range.end
+        ? {
+            createdAt: {
+              ...(range.start ? { gte: range.start } : {}),
+              ...(range.end ? { lte: range.end } : {})
+            }
+          }
+        : {})
+    };
+
+    const checks = await prisma.check.findMany({
+      where,
+      include: { user: { select: checkUserSelect } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    await sendExport(res, checksExportTable(checks, timeZone), query.format, 'checks');
+  })
+);
+
+router.get(
+  '/pending',
+  requirePermission('checks.view'),
+  asyncHandler(async (_req, res) => {
+    const checks = await prisma.check.findMany({
+      where: { status: 'pending' },
+      include: {
+        user: {
+          select: checkUserSelect
+        },
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
     res.json(
       checks.map((check) => ({
-        id: check.id,
-        userId: check.userId,
-        amount: check.amount.toNumber(),
-        note: check.note,
-        createdAt: check.createdAt,
-        updatedAt: check.updatedAt
+        ...serializeCheck(check),
+        user: check.user
       }))
     );
   })
@@ -292,44 +303,371 @@ router.get(
 
 router.post(
   '/',
-  requireAdmin,
   asyncHandler(async (req, res) => {
     const payload = createCheckSchema.parse(req.body);
+    const { user, admin } = req.context!;
+    const canManage = hasPermission(admin, 'checks.manage');
+    const requestedUserId = payload.userId && payload.userId !== 'me' ? payload.userId : user.id;
+
+    // Staff may only submit checks for themselves; check managers can submit for anyone
+    if (!canManage && requestedUserId !== user.id) {
+      return res.status(403).json({ error: 'Недостаточно прав' });
+    }
 
     const targetUser = await prisma.user.findUnique({
-      where: { id: payload.userId }
+      where: { id: requestedUserId }
     });
 
     if (!targetUser) {
       return res.status(404).json({ error: 'Пользователь не найден' });
     }
 
-    const created = await prisma.check.create({
+    const created = await createCheck({
+      userId: targetUser.id,
+      amount: payload.amount,
+      note: payload.note,
+      reviewer: canManage ? admin : null
+    });
+    await recordAudit(req, {
+      action: 'check.create',
+      entityType: 'check',
+      entityId: created.id,
+      after: { ...created, attachments: undefined }
+    });
+    await notifyCheckChange(targetUser, admin, { action: 'created', after: created });
+
+    res.status(201).json(serializeCheck(created));
+  })
+);
+
+router.post(
+  '/import',
+  requirePermission('checks.manage'),
+  checkImportUpload,
+  asyncHandler(async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Прикрепите CSV-файл' });
+    }
+
+    const dryRun = req.body.dryRun !== 'false';
+    const report = await importChecks(req.file.buffer.toString('utf8'), {
+      dryRun,
+      admin: req.context!.admin!,
+      timeZone: await getHostelTimeZone()
+    });
+
+    if (!dryRun && report.errors.length > 0) {
+      return res.status(400).json({ error: 'В файле есть ошибки, чеки не импортированы', report });
+    }
+
+    if (report.imported > 0) {
+      await recordAudit(req, {
+        action: 'check.import',
+        entityType: 'check',
+        after: { file: req.file.originalname, imported: report.imported, amount: report.amount }
+      });
+    }
+
+    res.status(report.imported > 0 ? 201 : 200).json(report);
+  })
+);
+
+router.post(
+  '/:id/attachments',
+  checkPhotosUpload,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const storedNames = files.map((file) => file.filename);
+
+    const check = await prisma.check.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { attachments: true }
+        }
+      }
+    });
+
+    if (!check) {
+      await removeStoredFiles(storedNames);
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    if (!canEditCheckAttachments(req, check)) {
+      await removeStoredFiles(storedNames);
+      return res.status(403).json({ error: 'Недостаточно прав' });
+    }
+
+    if (await isCheckLocked(check)) {
+      await removeStoredFiles(storedNames);
+      return res.status(409).json({ error: LOCKED_CHECK_ERROR });
+    }
+
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'Прикрепите хотя бы одно изображение (JPEG, PNG, WEBP, HEIC)' });
+    }
+
+    if (check._count.attachments + files.length > MAX_ATTACHMENTS_PER_CHECK) {
+      await removeStoredFiles(storedNames);
+      return res
+        .status(400)
+        .json({ error: `К чеку можно прикрепить не более ${MAX_ATTACHMENTS_PER_CHECK} фото` });
+    }
+
+    await prisma.checkAttachment.createMany({
+      data: files.map((file) => ({
+        checkId: check.id,
+        filePath: file.filename,
+        mimeType: file.mimetype,
+        size: file.size
+      }))
+    });
+    await recordAudit(req, {
+      action: 'check.attachments.add',
+      entityType: 'check',
+      entityId: check.id,
+      after: { files: files.map((file) => file.originalname) }
+    });
+
+    const updated = await prisma.check.findUniqueOrThrow({
+      where: { id },
+      include: {
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    res.status(201).json(serializeCheck(updated));
+  })
+);
+
+router.get(
+  '/:id/attachments/:attachmentId',
+  asyncHandler(async (req, res, next) => {
+    const { id, attachmentId } = req.params;
+
+    const attachment = await prisma.checkAttachment.findFirst({
+      where: { id: attachmentId, checkId: id },
+      include: { check: true }
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Вложение не найдено' });
+    }
+
+    if (!canViewCheck(req, attachment.check)) {
+      return res.status(403).json({ error: 'Недостаточно прав' });
+    }
+
+    const stream = openAttachmentStream(attachment);
+
+    stream.on('error', next);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.type(attachment.mimeType ?? 'image/jpeg');
+    stream.pipe(res);
+  })
+);
+
+router.delete(
+  '/:id/attachments/:attachmentId',
+  asyncHandler(async (req, res) => {
+    const { id, attachmentId } = req.params;
+
+    const attachment = await prisma.checkAttachment.findFirst({
+      where: { id: attachmentId, checkId: id },
+      include: { check: true }
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Вложение не найдено' });
+    }
+
+    if (!canEditCheckAttachments(req, attachment.check)) {
+      return res.status(403).json({ error: 'Недостаточно прав' });
+    }
+
+    if (await isCheckLocked(attachment.check)) {
+      return res.status(409).json({ error: LOCKED_CHECK_ERROR });
+    }
+
+    await prisma.checkAttachment.delete({
+      where: { id: attachment.id }
+    });
+    await recordAudit(req, {
+      action: 'check.attachments.delete',
+      entityType: 'check',
+      entityId: id,
+      before: { attachmentId: attachment.id, filePath: attachment.filePath }
+    });
+    await removeStoredFiles([attachment.filePath]);
+
+    res.status(204).send();
+  })
+);
+
+router.post(
+  '/:id/approve',
+  requirePermission('checks.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { admin } = req.context!;
+
+    const check = await prisma.check.findUnique({
+      where: { id }
+    });
+
+    if (!check) {
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    // Conditional on the status so two reviewers acting at once can't both decide
+    const { count } = await prisma.check.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'approved',
+        rejectionReason: null,
+        reviewedBy: admin!.telegramId,
+        reviewedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'Чек уже рассмотрен' });
+    }
+
+    const updated = await prisma.check.findUniqueOrThrow({
+      where: { id },
+      include: {
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    await recordAudit(req, {
+      action: 'check.approve',
+      entityType: 'check',
+      entityId: id,
+      before: check,
+      after: { ...updated, attachments: undefined }
+    });
+
+    res.json(serializeCheck(updated));
+  })
+);
+
+router.post(
+  '/:id/reject',
+  requirePermission('checks.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { admin } = req.context!;
+    const payload = rejectCheckSchema.parse(req.body);
+
+    const check = await prisma.check.findUnique({
+      where: { id }
+    });
+
+    if (!check) {
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    const { count } = await prisma.check.updateMany({
+      where: { id, status: 'pending' },
       data: {
-        userId: payload.userId,
-        amount: toDecimal(payload.amount),
-        note: payload.note?.trim() || null
+        status: 'rejected',
+        rejectionReason: payload.reason,
+        reviewedBy: admin!.telegramId,
+        reviewedAt: new Date()
       }
     });
 
-    res.status(201).json({
-      id: created.id,
-      userId: created.userId,
-      amount: created.amount.toNumber(),
-      note: created.note,
-      createdAt: created.createdAt,
-      updatedAt: created.updatedAt
+    if (count === 0) {
+      return res.status(409).json({ error: 'Чек уже рассмотрен' });
+    }
+
+    const updated = await prisma.check.findUniqueOrThrow({
+      where: { id },
+      include: {
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
     });
+
+    await recordAudit(req, {
+      action: 'check.reject',
+      entityType: 'check',
+      entityId: id,
+      before: check,
+      after: { ...updated, attachments: undefined }
+    });
+
+    res.json(serializeCheck(updated));
+  })
+);
+
+router.post(
+  '/:id/adjustments',
+  requirePermission('checks.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { admin } = req.context!;
+    const payload = adjustCheckSchema.parse(req.body);
+
+    const check = await prisma.check.findUnique({
+      where: { id }
+    });
+
+    if (!check) {
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    if (check.status !== 'approved') {
+      return res.status(409).json({ error: 'Корректировать можно только подтверждённый чек' });
+    }
+
+    // The adjustment is dated now, so it always lands in the open period
+    const created = await createCheck({
+      userId: check.userId,
+      amount: payload.amount,
+      note: payload.note,
+      reviewer: admin,
+      adjustedCheckId: check.id
+    });
+    await recordAudit(req, {
+      action: 'check.adjust',
+      entityType: 'check',
+      entityId: created.id,
+      after: { ...created, attachments: undefined }
+    });
+    await notifyCheckOwner(check.userId, admin, { action: 'created', after: created });
+
+    res.status(201).json(serializeCheck(created));
   })
 );
 
 router.put(
   '/:id',
-  requireAdmin,
+  requirePermission('checks.manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const payload = updateCheckSchema.parse(req.body);
 
+    const check = await prisma.check.findUnique({
+      where: { id }
+    });
+
+    if (!check) {
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    if (await isCheckLocked(check)) {
+      return res.status(409).json({ error: LOCKED_CHECK_ERROR });
+    }
+
     const data: Prisma.CheckUpdateInput = {};
 
     if (payload.amount !== undefined) {
@@ -342,30 +680,62 @@ router.put(
 
     const updated = await prisma.check.update({
       where: { id },
-      data
+      data,
+      include: {
+        attachments: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
     });
 
-    res.json({
-      id: updated.id,
-      userId: updated.userId,
-      amount: updated.amount.toNumber(),
-      note: updated.note,
-      createdAt: updated.createdAt,
-      updatedAt: updated.updatedAt
+    await recordAudit(req, {
+      action: 'check.update',
+      entityType: 'check',
+      entityId: id,
+      before: check,
+      after: { ...updated, attachments: undefined }
     });
+    await notifyCheckOwner(check.userId, req.context!.admin, {
+      action: 'updated',
+      before: check,
+      after: updated
+    });
+
+    res.json(serializeCheck(updated));
   })
 );
 
 router.delete(
   '/:id',
-  requireAdmin,
+  requirePermission('checks.manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    await prisma.check.delete({
+    const check = await prisma.check.findUnique({
       where: { id }
     });
 
+    if (!check) {
+      return res.status(404).json({ error: 'Чек не найден' });
+    }
+
+    if (await isCheckLocked(check)) {
+      return res.status(409).json({ error: LOCKED_CHECK_ERROR });
+    }
+
+    const deleted = await prisma.check.delete({
+      where: { id },
+      include: { attachments: true }
+    });
+    await removeStoredFiles(deleted.attachments.map((attachment) => attachment.filePath));
+    await recordAudit(req, {
+      action: 'check.delete',
+      entityType: 'check',
+      entityId: id,
+      before: check
+    });
+    await notifyCheckOwner(check.userId, req.context!.admin, { action: 'deleted', before: check });
+
     res.status(204).send();
   })
 );
@@ -376,9 +746,10 @@ router.get(
     const { user } = req.context!;
     const query = selfSummaryQuerySchema.parse(req.query);
     const reference = new Date();
+    const timeZone = await resolveTimeZone(req);
 
     const useCustomRange = Boolean(query.startDate?.trim() || query.endDate?.trim());
-    const baseRange = currentMonthRange(reference);
+    const baseRange = currentMonthRange(reference, timeZone);
 
     const resolvedRange = resolveRange(
       useCustomRange
@@ -390,7 +761,8 @@ router.get(
             period: query.period ?? 'month',
             startDate: query.startDate,
             endDate: query.endDate
-          }
+          },
+      timeZone
     );
 
     const range: Required<DateRange> = {
@@ -398,187 +770,44 @@ router.get(
       end: resolvedRange.end ?? baseRange.end
     };
 
-    const [totalAggregate, userAggregate] = await Promise.all([
-      prisma.check.aggregate({
-        where: {
-          createdAt: {
-            gte: range.start,
-            lte: range.end
-          }
-        },
-        _sum: {
-          amount: true
-        },
-        _count: {
-          id: true
-        }
-      }),
-      prisma.check.aggregate({
-        where: {
-          userId: user.id,
-          createdAt: {
-            gte: range.start,
-            lte: range.end
-          }
-        },
-        _sum: {
-          amount: true
-        },
-        _count: {
-          id: true
-        }
-      })
-    ]);
-
-    const totalAmount = totalAggregate._sum.amount ? totalAggregate._sum.amount.toNumber() : 0;
-    const totalChecks = totalAggregate._count.id ?? 0;
-
-    const ownAmount = userAggregate._sum.amount ? userAggregate._sum.amount.toNumber() : 0;
-    const ownChecks = userAggregate._count.id ?? 0;
-
-    let salary: number | null = null;
-    let partnerFromOwn: number | null = null;
-    let partnerFromOthers: number | null = null;
-
-    if (typeof user.commissionPercent === 'number') {
-      const baseRate = user.commissionPercent / 100;
-      if (user.isPartner) {
-        const othersAmount = Math.max(totalAmount - ownAmount, 0);
-        partnerFromOwn = roundAmount(baseRate * FUND_RATE * ownAmount);
-        partnerFromOthers = roundAmount(baseRate * FUND_RATE * othersAmount);
-        salary = roundAmount((partnerFromOwn ?? 0) + (partnerFromOthers ?? 0));
-      } else {
-        salary = roundAmount(baseRate * FUND_RATE * totalAmount);
-      }
-    }
+    const snapshot = await findPeriodSnapshot(range, timeZone);
+    const stats = snapshot ? snapshotStatsFor(snapshot, user.id) : await computeUserSalary(user, range);
+    const adjustments = await summarizeAdjustments(user.id, range);
 
     res.json({
       generatedAt: reference,
       period: useCustomRange ? 'custom' : query.period ?? 'month',
+      timeZone,
+      closed: Boolean(snapshot),
       range: {
         start: range.start,
         end: range.end
       },
-      stats: {
-        amount: roundAmount(ownAmount),
-        checks: ownChecks,
-        salary,
-        percent: user.commissionPercent ?? null,
-        partnerFromOwn: user.isPartner ? partnerFromOwn : null,
-        partnerFromOthers: user.isPartner ? partnerFromOthers : null,
-        totalChecks
-      }
+      stats,
+      adjustments,
+      payable: roundAmount((stats.salary ?? 0) + adjustments.total)
     });
   })
 );
 
 router.get(
   '/summary',
-  requireAdmin,
+  requirePermission('checks.view'),
   asyncHandler(async (req, res) => {
     const query = summaryQuerySchema.parse(req.query);
-    const reference = new Date();
-
-    const ranges = {
-      day: currentDayRange(reference),
-      week: currentWeekRange(reference),
-      month: currentMonthRange(reference)
-    };
-
-    const customStart = parseDateInput(query.startDate);
-    const customEnd = parseDateInput(query.endDate);
-
-    let customRange: Required<DateRange> | undefined;
-
-    if (customStart && customEnd) {
-      let start = startOfDay(customStart);
-      let end = endOfDay(customEnd);
-
-      if (start > end) {
-        [start, end] = [end, start];
-      }
-
-      customRange = { start, end };
-    } else if (customStart && !customEnd) {
-      customRange = { start: startOfDay(customStart), end: endOfDay(customStart) };
-    } else if (!customStart && customEnd) {
-      customRange = { start: startOfDay(customEnd), end: endOfDay(customEnd) };
-    }
-
-    const users = await prisma.user.findMany({
-      orderBy: [
-        { firstName: 'asc' },
-        { username: 'asc' },
-        { telegramId: 'asc' }
-      ]
-    });
-
-    async function getStats(range: Required<DateRange>) {
-      const groups = await prisma.check.groupBy({
-        by: ['userId'],
-        where: {
-          createdAt: {
-            gte: range.start,
-            lte: range.end
-          }
-        },
-        _count: {
-          id: true
-        },
-        _sum: {
-          amount: true
-        }
-      });
 
-      return groups.reduce<Record<string, { count: number; total: number }>>((acc, item) => {
-        acc[item.userId] = {
-          count: item._count.id,
-          total: item._sum.amount ? item._sum.amount.toNumber() : 0
-        };
-        return acc;
-      }, {});
-    }
-
-    const [dayStats, weekStats, monthStats, customStats] = await Promise.all([
-      getStats(ranges.day),
-      getStats(ranges.week),
-      getStats(ranges.month),
-      customRange ? getStats(customRange) : Promise.resolve<Record<string, { count: number; total: number }>>({})
-    ]);
-
-    const payload = users.map((user) => {
-      const day = dayStats[user.id] ?? { count: 0, total: 0 };
-      const week = weekStats[user.id] ?? { count: 0, total: 0 };
-      const month = monthStats[user.id] ?? { count: 0, total: 0 };
-      const custom = customRange ? customStats[user.id] ?? { count: 0, total: 0 } : undefined;
+    res.json(await buildChecksSummary(query, await resolveTimeZone(req)));
+  })
+);
 
-      return {
-        user: {
-          id: user.id,
-          telegramId: user.telegramId,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          username: user.username,
-          commissionPercent: user.commissionPercent,
-          isPartner: user.isPartner
-        },
-        day,
-        week,
-        month,
-        custom
-      };
-    });
+router.get(
+  '/summary/export',
+  requirePermission('checks.view'),
+  asyncHandler(async (req, res) => {
+    const query = exportSummaryQuerySchema.parse(req.query);
+    const summary = await buildChecksSummary(query, await resolveTimeZone(req));
 
-    res.json({
-      generatedAt: reference,
-      ranges: {
-        day: ranges.day,
-        week: ranges.week,
-        month: ranges.month,
-        custom: customRange ?? null
-      },
-      users: payload
-    });
+    await sendExport(res, summaryExportTable(summary), query.format, 'checks-summary');
   })
 );
 
@@ -1,9 +1,21 @@
 import { Router } from 'express';
 
-import { requireAdmin, requireAuth, telegramAuth } from '../middleware/auth';
+import { requireAuth, requirePermission, telegramAuth } from '../middleware/auth';
+import { permissionsOf } from '../services/permissions';
+import { getSessionCacheStats } from '../services/sessionCache';
+import { getHostelTimeZone } from '../services/timeZone';
+import { asyncHandler } from '../utils/asyncHandler';
+import adjustmentsRouter from './adjustments';
 import adminRouter from './admins';
+import auditRouter from './audit';
+import chatsRouter from './chats';
 import checksRouter from './checks';
+import joinRequestsRouter from './joinRequests';
+import payoutsRouter from './payouts';
+import payslipsRouter from './payslips';
+import periodsRouter from './periods';
 import profileRouter from './profile';
+import settingsRouter from './settings';
 import usersRouter from './users';
 
 const router = Router();
@@ -14,19 +26,38 @@ router.get('/health', (_req, res) => {
 
 router.use(telegramAuth);
 
-router.get('/auth/session', requireAuth, (req, res) => {
-  const { user, admin, telegramUser } = req.context!;
-
-  res.json({
-    user,
-    isAdmin: Boolean(admin),
-    telegramUser
-  });
+router.get(
+  '/auth/session',
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const { user, admin, telegramUser } = req.context!;
+
+    res.json({
+      user,
+      isAdmin: Boolean(admin),
+      role: admin?.role ?? null,
+      permissions: permissionsOf(admin),
+      telegramUser,
+      timeZone: await getHostelTimeZone()
+    });
+  })
+);
+
+router.get('/metrics', requireAuth, requirePermission('settings.manage'), (_req, res) => {
+  res.json({ sessionCache: getSessionCacheStats() });
 });
 
 router.use('/profile', requireAuth, profileRouter);
-router.use('/admins', requireAuth, requireAdmin, adminRouter);
-router.use('/users', requireAuth, requireAdmin, usersRouter);
+router.use('/admins', requireAuth, requirePermission('admins.manage'), adminRouter);
+router.use('/users', requireAuth, requirePermission('users.view'), usersRouter);
+router.use('/chats', requireAuth, requirePermission('users.moderate'), chatsRouter);
+router.use('/join-requests', requireAuth, requirePermission('users.moderate'), joinRequestsRouter);
 router.use('/checks', checksRouter);
+router.use('/payouts', payoutsRouter);
+router.use('/payslips', requireAuth, payslipsRouter);
+router.use('/adjustments', requireAuth, requirePermission('payroll.manage'), adjustmentsRouter);
+router.use('/periods', requireAuth, requirePermission('payroll.manage'), periodsRouter);
+router.use('/settings', requireAuth, requirePermission('settings.manage'), settingsRouter);
+router.use('/audit', requireAuth, requirePermission('audit.view'), auditRouter);
 
 export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+
+import { recordAudit } from '../services/audit';
+import { decideJoinRequest, listJoinRequests } from '../services/joinRequests';
+import type { JoinDecision } from '../services/joinRequests';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'declined']).default('pending')
+});
+
+const DECISION_ERRORS = {
+  not_found: { status: 404, error: 'Заявка не найдена' },
+  decided: { status: 409, error: 'Заявка уже рассмотрена' },
+  telegram: { status: 502, error: 'Telegram не принял решение: заявка могла устареть' }
+};
+
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const { status } = listQuerySchema.parse(req.query);
+
+    res.json(await listJoinRequests(status));
+  })
+);
+
+function decide(decision: JoinDecision) {
+  return asyncHandler(async (req: Request, res: Response) => {
+    const outcome = await decideJoinRequest(
+      req.params.id,
+      decision,
+      req.context!.admin!.telegramId
+    );
+
+    if (!outcome.ok) {
+      const { status, error } = DECISION_ERRORS[outcome.error];
+      return res.status(status).json({ error });
+    }
+
+    const { joinRequest } = outcome;
+    await recordAudit(req, {
+      action: decision === 'approve' ? 'user.join.approve' : 'user.join.decline',
+      entityType: 'user',
+      entityId: joinRequest.userId,
+      after: {
+        joinRequestId: joinRequest.id,
+        status: joinRequest.status,
+        chatId: joinRequest.chat.telegramChatId
+      }
+    });
+
+    res.json(joinRequest);
+  });
+}
+
+router.post('/:id/approve', decide('approve'));
+router.post('/:id/decline', decide('decline'));
+
+export default router;
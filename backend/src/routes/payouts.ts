@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import {
+  generatePayoutBatch,
+  getOutstandingBalance,
+  payoutInclude,
+  serializePayout,
+  serializePayoutBatch
+} from '../services/payouts';
+import { findPeriodByMonth } from '../services/payPeriods';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const createBatchSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Укажите месяц в формате ГГГГ-ММ')
+});
+
+const markPaidSchema = z.object({
+  txHash: z.string().trim().max(200, 'Слишком длинный хеш транзакции').optional()
+});
+
+const batchInclude = {
+  payouts: { include: payoutInclude, orderBy: { createdAt: 'asc' as const } }
+};
+
+// The audit keeps batch totals; the payouts themselves are audited one by one
+function batchAuditState(batch: Parameters<typeof serializePayoutBatch>[0]) {
+  const { payouts, ...summary } = serializePayoutBatch(batch);
+  return { ...summary, payoutCount: payouts.length };
+}
+
+router.use(requireAuth);
+
+router.get(
+  '/self',
+  asyncHandler(async (req, res) => {
+    const { user } = req.context!;
+
+    const [payouts, outstanding] = await Promise.all([
+      prisma.payout.findMany({
+        where: { userId: user.id },
+        orderBy: { periodStart: 'desc' }
+      }),
+      getOutstandingBalance(user.id)
+    ]);
+
+    res.json({
+      payouts: payouts.map(serializePayout),
+      outstanding
+    });
+  })
+);
+
+router.get(
+  '/batches',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (_req, res) => {
+    const batches = await prisma.payoutBatch.findMany({
+      include: batchInclude,
+      orderBy: { periodStart: 'desc' }
+    });
+
+    res.json(batches.map(serializePayoutBatch));
+  })
+);
+
+router.post(
+  '/batches',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { month } = createBatchSchema.parse(req.body);
+    const period = await findPeriodByMonth(month);
+
+    if (!period) {
+      return res.status(400).json({ error: 'Сначала закройте период' });
+    }
+
+    const existing = await prisma.payoutBatch.findUnique({
+      where: { periodStart_periodEnd: { periodStart: period.start, periodEnd: period.end } }
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'Выплаты за этот период уже сформированы' });
+    }
+
+    const batch = await generatePayoutBatch(period, req.context!.admin!.telegramId);
+
+    if (!batch) {
+      return res.status(400).json({ error: 'За период нет начислений' });
+    }
+
+    await recordAudit(req, {
+      action: 'payout.batch.create',
+      entityType: 'payout',
+      entityId: batch.id,
+      after: batchAuditState(batch)
+    });
+
+    res.status(201).json(serializePayoutBatch(batch));
+  })
+);
+
+router.delete(
+  '/batches/:id',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const batch = await prisma.payoutBatch.findUnique({ where: { id }, include: batchInclude });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Пакет выплат не найден' });
+    }
+
+    if (batch.payouts.some((payout) => payout.status === 'paid')) {
+      return res.status(409).json({ error: 'В пакете есть проведённые выплаты' });
+    }
+
+    await prisma.payoutBatch.delete({ where: { id } });
+
+    await recordAudit(req, {
+      action: 'payout.batch.delete',
+      entityType: 'payout',
+      entityId: id,
+      before: batchAuditState(batch)
+    });
+
+    res.status(204).send();
+  })
+);
+
+router.post(
+  '/:id/pay',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { txHash } = markPaidSchema.parse(req.body ?? {});
+
+    const payout = await prisma.payout.findUnique({ where: { id }, include: payoutInclude });
+
+    if (!payout) {
+      return res.status(404).json({ error: 'Выплата не найдена' });
+    }
+
+    // Conditional on the status so a concurrent pay and cancel can't both go through
+    const { count } = await prisma.payout.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'paid',
+        txHash: txHash || null,
+        paidAt: new Date(),
+        paidBy: req.context!.admin!.telegramId
+      }
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'Выплата уже обработана' });
+    }
+
+    const updated = await prisma.payout.findUniqueOrThrow({
+      where: { id },
+      include: payoutInclude
+    });
+
+    await recordAudit(req, {
+      action: 'payout.pay',
+      entityType: 'payout',
+      entityId: id,
+      before: serializePayout(payout),
+      after: serializePayout(updated)
+    });
+
+    res.json(serializePayout(updated));
+  })
+);
+
+router.post(
+  '/:id/cancel',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const payout = await prisma.payout.findUnique({ where: { id }, include: payoutInclude });
+
+    if (!payout) {
+      return res.status(404).json({ error: 'Выплата не найдена' });
+    }
+
+    const { count } = await prisma.payout.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'Выплата уже обработана' });
+    }
+
+    const updated = await prisma.payout.findUniqueOrThrow({
+      where: { id },
+      include: payoutInclude
+    });
+
+    await recordAudit(req, {
+      action: 'payout.cancel',
+      entityType: 'payout',
+      entityId: id,
+      before: serializePayout(payout),
+      after: serializePayout(updated)
+    });
+
+    res.json(serializePayout(updated));
+  })
+);
+
+export default router;
@@ -0,0 +1,129 @@
+import type { User } from '@prisma/client';
+import { Router } from 'express';
+import type { Response } from 'express';
+import { z } from 'zod';
+
+import { getBot } from '../bot';
+import { requirePermission } from '../middleware/auth';
+import { prisma } from '../prisma';
+import {
+  buildPayslip,
+  currentPayslipMonth,
+  payslipFilename,
+  payslipMonthSchema,
+  renderPayslipPdf
+} from '../services/payslips';
+import { getHostelTimeZone } from '../services/timeZone';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const payslipQuerySchema = z.object({
+  month: payslipMonthSchema.optional()
+});
+
+async function loadPayslip(user: User, month: string | undefined) {
+  const payslip = await buildPayslip(user, month ?? currentPayslipMonth(await getHostelTimeZone()));
+
+  if (!payslip) {
+    return null;
+  }
+
+  return { payslip, pdf: await renderPayslipPdf(payslip) };
+}
+
+async function downloadPayslip(res: Response, user: User, month: string | undefined) {
+  const result = await loadPayslip(user, month);
+
+  if (!result) {
+    return res.status(400).json({ error: 'Некорректный месяц' });
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${payslipFilename(result.payslip)}"`);
+  res.send(result.pdf);
+}
+
+async function sendPayslip(res: Response, user: User, month: string | undefined) {
+  const result = await loadPayslip(user, month);
+
+  if (!result) {
+    return res.status(400).json({ error: 'Некорректный месяц' });
+  }
+
+  const chatId = Number(user.telegramId);
+
+  if (Number.isNaN(chatId)) {
+    return res.status(400).json({ error: 'У пользователя некорректный Telegram ID' });
+  }
+
+  try {
+    await getBot().sendDocument(
+      chatId,
+      result.pdf,
+      { caption: `Расчётный листок за ${result.payslip.month}` },
+      { filename: payslipFilename(result.payslip), contentType: 'application/pdf' }
+    );
+  } catch (error) {
+    console.error('Failed to send payslip to user', user.telegramId, error);
+    return res
+      .status(502)
+      .json({ error: 'Не удалось отправить листок. Пользователь должен сначала написать боту.' });
+  }
+
+  res.json({ success: true, month: result.payslip.month });
+}
+
+async function findTargetUser(res: Response, id: string) {
+  const user = await prisma.user.findUnique({ where: { id } });
+
+  if (!user) {
+    res.status(404).json({ error: 'Пользователь не найден' });
+  }
+
+  return user;
+}
+
+router.get(
+  '/self',
+  asyncHandler(async (req, res) => {
+    const { month } = payslipQuerySchema.parse(req.query);
+    await downloadPayslip(res, req.context!.user, month);
+  })
+);
+
+router.post(
+  '/self/send',
+  asyncHandler(async (req, res) => {
+    const { month } = payslipQuerySchema.parse(req.body ?? {});
+    await sendPayslip(res, req.context!.user, month);
+  })
+);
+
+router.get(
+  '/:userId',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { month } = payslipQuerySchema.parse(req.query);
+    const user = await findTargetUser(res, req.params.userId);
+
+    if (user) {
+      await downloadPayslip(res, user, month);
+    }
+  })
+);
+
+router.post(
+  '/:userId/send',
+  requirePermission('payroll.manage'),
+  asyncHandler(async (req, res) => {
+    const { month } = payslipQuerySchema.parse(req.body ?? {});
+    const user = await findTargetUser(res, req.params.userId);
+
+    if (user) {
+      await sendPayslip(res, user, month);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import {
+  closePayPeriod,
+  findClosedPeriods,
+  findPeriodByMonth,
+  serializePayPeriod,
+  trimToOpenRange
+} from '../services/payPeriods';
+import { getHostelTimeZone } from '../services/timeZone';
+import { asyncHandler } from '../utils/asyncHandler';
+import { parseMonthInput } from '../utils/dateRange';
+
+const router = Router();
+
+const closePeriodSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Укажите месяц в формате ГГГГ-ММ')
+});
+
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const periods = await findClosedPeriods();
+
+    res.json(periods.map(serializePayPeriod));
+  })
+);
+
+router.post(
+  '/',
+  asyncHandler(async (req, res) => {
+    const { month } = closePeriodSchema.parse(req.body);
+    const monthRange = parseMonthInput(month, await getHostelTimeZone());
+
+    if (!monthRange) {
+      return res.status(400).json({ error: 'Некорректный месяц' });
+    }
+
+    if (monthRange.end >= new Date()) {
+      return res.status(400).json({ error: 'Нельзя закрыть период, который ещё не закончился' });
+    }
+
+    if (await findPeriodByMonth(month)) {
+      return res.status(409).json({ error: 'Период уже закрыт' });
+    }
+
+    const range = await trimToOpenRange(monthRange);
+    const overlapping = await findClosedPeriods(range);
+
+    if (range.start > range.end || overlapping.length > 0) {
+      return res.status(409).json({ error: 'Период уже закрыт' });
+    }
+
+    const closed = await closePayPeriod(month, range, req.context!.admin!.telegramId);
+
+    if (!closed.ok) {
+      return res.status(409).json({
+        error: `В периоде есть чеки на проверке (${closed.pendingCount}), рассмотрите их перед закрытием`
+      });
+    }
+
+    const { period } = closed;
+
+    await recordAudit(req, {
+      action: 'period.close',
+      entityType: 'period',
+      entityId: period.id,
+      after: serializePayPeriod(period)
+    });
+
+    res.status(201).json(serializePayPeriod(period));
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const period = await prisma.payPeriod.findUnique({ where: { id } });
+
+    if (!period) {
+      return res.status(404).json({ error: 'Период не найден' });
+    }
+
+    const batch = await prisma.payoutBatch.findUnique({
+      where: { periodStart_periodEnd: { periodStart: period.start, periodEnd: period.end } }
+    });
+
+    if (batch) {
+      return res.status(409).json({ error: 'По периоду сформированы выплаты, сначала удалите их' });
+    }
+
+    await prisma.payPeriod.delete({ where: { id } });
+
+    await recordAudit(req, {
+      action: 'period.reopen',
+      entityType: 'period',
+      entityId: id,
+      before: serializePayPeriod(period)
+    });
+
+    res.status(204).send();
+  })
+);
+
+export default router;
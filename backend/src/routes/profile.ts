@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 
 import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -14,10 +15,14 @@ const payoutFieldSchema = z
 const updateProfileSchema = z
   .object({
     payoutUsdtTrc20: payoutFieldSchema,
-    payoutUsdtBep20: payoutFieldSchema
+    payoutUsdtBep20: payoutFieldSchema,
+    notifyCheckChanges: z.boolean().optional()
   })
   .refine(
-    (data) => data.payoutUsdtTrc20 !== undefined || data.payoutUsdtBep20 !== undefined,
+    (data) =>
+      data.payoutUsdtTrc20 !== undefined ||
+      data.payoutUsdtBep20 !== undefined ||
+      data.notifyCheckChanges !== undefined,
     'Не передано ни одного поля для обновления'
   );
 
@@ -39,7 +44,7 @@ router.patch(
     const { user } = req.context!;
     const payload = updateProfileSchema.parse(req.body);
 
-    const data: Record<string, string | null> = {};
+    const data: Record<string, string | boolean | null> = {};
 
     if (payload.payoutUsdtTrc20 !== undefined) {
       const trimmed = payload.payoutUsdtTrc20.trim();
@@ -51,10 +56,21 @@ router.patch(
       data.payoutUsdtBep20 = trimmed.length > 0 ? trimmed : null;
     }
 
+    if (payload.notifyCheckChanges !== undefined) {
+      data.notifyCheckChanges = payload.notifyCheckChanges;
+    }
+
     const updated = await prisma.user.update({
       where: { id: user.id },
       data
     });
+    await recordAudit(req, {
+      action: 'profile.update',
+      entityType: 'profile',
+      entityId: user.id,
+      before: user,
+      after: updated
+    });
 
     res.json(updated);
   })
@@ -0,0 +1,199 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { env } from '../env';
+import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import {
+  digestKindSchema,
+  digestSettingsSchema,
+  getDigestSettings,
+  saveDigestSettings,
+  sendDigest
+} from '../services/digests';
+import { computeUserSalary } from '../services/salary';
+import { getSalaryRules, salaryRulesSchema, saveSalaryRules } from '../services/salaryRules';
+import { getHostelTimeZone, saveHostelTimeZone, timeZoneSchema } from '../services/timeZone';
+import {
+  getWarningSettings,
+  saveWarningSettings,
+  warningSettingsSchema
+} from '../services/warnings';
+import { asyncHandler } from '../utils/asyncHandler';
+import { currentMonthRange, parseMonthInput } from '../utils/dateRange';
+
+const router = Router();
+
+const previewSchema = z.object({
+  rules: salaryRulesSchema,
+  userId: z.string().min(1, 'userId обязателен'),
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/, 'Укажите месяц в формате ГГГГ-ММ')
+    .optional()
+});
+
+router.get(
+  '/salary-rules',
+  asyncHandler(async (_req, res) => {
+    const { value, updatedAt } = await getSalaryRules();
+
+    res.json({ rules: value, updatedAt });
+  })
+);
+
+router.put(
+  '/salary-rules',
+  asyncHandler(async (req, res) => {
+    const rules = salaryRulesSchema.parse(req.body);
+    const previous = await getSalaryRules();
+    const { value, updatedAt } = await saveSalaryRules(rules, req.context!.admin!.telegramId);
+
+    await recordAudit(req, {
+      action: 'setting.update',
+      entityType: 'setting',
+      entityId: 'salaryRules',
+      before: previous.value,
+      after: value
+    });
+
+    res.json({ rules: value, updatedAt });
+  })
+);
+
+router.get(
+  '/time-zone',
+  asyncHandler(async (_req, res) => {
+    res.json({ timeZone: await getHostelTimeZone(), defaultTimeZone: env.HOSTEL_TIMEZONE });
+  })
+);
+
+router.put(
+  '/time-zone',
+  asyncHandler(async (req, res) => {
+    const { timeZone } = z.object({ timeZone: timeZoneSchema }).parse(req.body);
+    const previous = await getHostelTimeZone();
+    const { value } = await saveHostelTimeZone(timeZone, req.context!.admin!.telegramId);
+
+    await recordAudit(req, {
+      action: 'setting.update',
+      entityType: 'setting',
+      entityId: 'timeZone',
+      before: { timeZone: previous },
+      after: { timeZone: value }
+    });
+
+    res.json({ timeZone: value, defaultTimeZone: env.HOSTEL_TIMEZONE });
+  })
+);
+
+router.get(
+  '/digest',
+  asyncHandler(async (_req, res) => {
+    const { value, updatedAt } = await getDigestSettings();
+
+    res.json({ settings: value, updatedAt });
+  })
+);
+
+router.put(
+  '/digest',
+  asyncHandler(async (req, res) => {
+    const settings = digestSettingsSchema.parse(req.body);
+    const previous = await getDigestSettings();
+    const { value, updatedAt } = await saveDigestSettings(settings, req.context!.admin!.telegramId);
+
+    await recordAudit(req, {
+      action: 'setting.update',
+      entityType: 'setting',
+      entityId: 'digest',
+      before: previous.value,
+      after: value
+    });
+
+    res.json({ settings: value, updatedAt });
+  })
+);
+
+// Sends a digest right away with the saved settings, e.g. to check the group chat id
+router.post(
+  '/digest/send',
+  asyncHandler(async (req, res) => {
+    const { kind } = z.object({ kind: digestKindSchema }).parse(req.body);
+    const result = await sendDigest(kind);
+
+    if (result.recipients === 0) {
+      return res.status(400).json({ error: 'Не выбраны получатели отчёта' });
+    }
+
+    res.json(result);
+  })
+);
+
+router.get(
+  '/warnings',
+  asyncHandler(async (_req, res) => {
+    const { value, updatedAt } = await getWarningSettings();
+
+    res.json({ settings: value, updatedAt });
+  })
+);
+
+router.put(
+  '/warnings',
+  asyncHandler(async (req, res) => {
+    const settings = warningSettingsSchema.parse(req.body);
+    const previous = await getWarningSettings();
+    const { value, updatedAt } = await saveWarningSettings(
+      settings,
+      req.context!.admin!.telegramId
+    );
+
+    await recordAudit(req, {
+      action: 'setting.update',
+      entityType: 'setting',
+      entityId: 'warnings',
+      before: previous.value,
+      after: value
+    });
+
+    res.json({ settings: value, updatedAt });
+  })
+);
+
+router.post(
+  '/salary-rules/preview',
+  asyncHandler(async (req, res) => {
+    const payload = previewSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Пользователь не найден' });
+    }
+
+    const timeZone = await getHostelTimeZone();
+    const range = payload.month
+      ? parseMonthInput(payload.month, timeZone)
+      : currentMonthRange(new Date(), timeZone);
+
+    if (!range) {
+      return res.status(400).json({ error: 'Некорректный месяц' });
+    }
+
+    const [current, proposed] = await Promise.all([
+      computeUserSalary(user, range),
+      computeUserSalary(user, range, payload.rules)
+    ]);
+
+    res.json({
+      range,
+      current,
+      proposed
+    });
+  })
+);
+
+export default router;
@@ -1,10 +1,25 @@
 import { Router } from 'express';
+import type { Request } from 'express';
 import { z } from 'zod';
 
+import { env } from '../env';
+import { requirePermission } from '../middleware/auth';
 import { prisma } from '../prisma';
+import { recordAudit } from '../services/audit';
+import { chatSelectionSchema, listUserChats, resolveTargetChats } from '../services/chats';
+import { serializeCommissionRate, setCommissionPercent } from '../services/commission';
+import {
+  applyBlock,
+  applyMute,
+  applyUnblock,
+  applyUnmute,
+  listModerationEvents
+} from '../services/moderation';
+import { isDateLocked } from '../services/payPeriods';
+import { getHostelTimeZone } from '../services/timeZone';
+import { issueWarning, listActiveWarnings } from '../services/warnings';
 import { asyncHandler } from '../utils/asyncHandler';
-import { getBot } from '../bot';
-import { env } from '../env';
+import { parseDateInput as parseDayInput } from '../utils/dateRange';
 
 const router = Router();
 
@@ -37,15 +52,18 @@ const userBodySchema = z.object({
   payoutUsdtBep20: z.string().max(255).optional(),
   chatId: z.string().optional(),
   commissionPercent: percentSchema,
+  // Date the new percent starts to apply from, defaults to now
+  commissionEffectiveFrom: z.string().optional(),
   isPartner: z.boolean().optional()
 });
 const updateUserSchema = userBodySchema.partial();
 
 const muteSchema = z
   .object({
-    chatId: z.string().optional(),
+    chats: chatSelectionSchema,
     durationMinutes: z.number().int().positive().max(60 * 24 * 30).optional(),
-    until: z.string().optional()
+    until: z.string().optional(),
+    reason: z.string().max(200).optional()
   })
   .refine(
     (data) => typeof data.durationMinutes === 'number' || (data.until?.trim()?.length ?? 0) > 0,
@@ -53,19 +71,23 @@ const muteSchema = z
   );
 
 const unmuteSchema = z.object({
-  chatId: z.string().optional()
+  chats: chatSelectionSchema
 });
 
 const blockSchema = z.object({
-  chatId: z.string().optional(),
+  chats: chatSelectionSchema,
   reason: z.string().max(200).optional()
 });
 
 const unblockSchema = z.object({
-  chatId: z.string().optional()
+  chats: chatSelectionSchema
 });
 
-const MAX_CHAT_ACTION_ATTEMPTS = 3;
+const warnSchema = z.object({
+  chatId: z.string().optional(),
+  reason: z.string().max(200).optional(),
+  points: z.number().int().min(1).max(10).optional()
+});
 
 function parseDateInput(value: string | undefined) {
   if (!value) {
@@ -93,124 +115,30 @@ function sanitizePercent(value: number | null | undefined) {
   return rounded;
 }
 
-async function withTelegramAction<T>(action: () => Promise<T>) {
-  for (let attempt = 1; attempt <= MAX_CHAT_ACTION_ATTEMPTS; attempt++) {
-    try {
-      return await action();
-    } catch (error) {
-      if (attempt === MAX_CHAT_ACTION_ATTEMPTS) {
-        console.error('Telegram API action failed', error);
-        throw error;
-      }
-    }
+// A picked date means midnight of that day in the hostel time zone
+async function resolveEffectiveFrom(value: string | undefined) {
+  if (!value?.trim()) {
+    return new Date();
   }
-}
 
-function resolveChatId(payloadChatId: string | undefined, userChatId: string | null) {
-  return payloadChatId?.trim() || userChatId || null;
+  return parseDayInput(value, await getHostelTimeZone());
 }
 
-async function muteInChat({
-  chatId,
-  telegramId,
-  until
-}: {
-  chatId: string;
-  telegramId: string;
-  until: Date;
-}) {
-  const bot = getBot();
-  const userId = Number(telegramId);
-
-  if (Number.isNaN(userId)) {
-    throw new Error('Invalid telegramId for mute');
-  }
-
-  const untilDate = Math.floor(until.getTime() / 1000);
-
-  await withTelegramAction(() =>
-    bot.restrictChatMember(chatId, userId, {
-      permissions: {
-        can_send_messages: false,
-        can_send_media_messages: false,
-        can_send_other_messages: false,
-        can_add_web_page_previews: false
-      },
-      until_date: untilDate
-    })
-  );
-}
-
-async function unmuteInChat(chatId: string, telegramId: string) {
-  const bot = getBot();
-  const userId = Number(telegramId);
-
-  if (Number.isNaN(userId)) {
-    throw new Error('Invalid telegramId for unmute');
-  }
-
-  await withTelegramAction(() =>
-    bot.restrictChatMember(chatId, userId, {
-      permissions: {
-        can_send_messages: true,
-        can_send_media_messages: true,
-        can_send_other_messages: true,
-        can_add_web_page_previews: true
-      }
-    })
-  );
-}
-
-async function blockInChat(chatId: string, telegramId: string) {
-  const bot = getBot();
-  const userId = Number(telegramId);
-
-  if (Number.isNaN(userId)) {
-    throw new Error('Invalid telegramId for block');
-  }
-
-  await withTelegramAction(() =>
-    bot.banChatMember(chatId, userId, {
-      revoke_messages: true
-    })
-  );
-}
-
-async function unblockInChat(chatId: string, telegramId: string) {
-  const bot = getBot();
-  const userId = Number(telegramId);
-
-  if (Number.isNaN(userId)) {
-    throw new Error('Invalid telegramId for unblock');
-  }
-
-  await withTelegramAction(() =>
-    bot.unbanChatMember(chatId, userId, {
-      only_if_banned: true
-    })
-  );
-}
-
-async function notifyUser(telegramId: string, message: string) {
-  const bot = getBot();
-  const userId = Number(telegramId);
-
-  if (Number.isNaN(userId)) {
-    return;
-  }
-
-  try {
-    await bot.sendMessage(userId, message);
-  } catch (error) {
-    console.error('Failed to send notification to user', telegramId, error);
-  }
+function moderatorId(req: Request) {
+  return req.context!.admin?.telegramId ?? req.context!.user.telegramId;
 }
 
 router.get(
   '/',
   asyncHandler(async (_req, res) => {
     const users = await prisma.user.findMany({
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: {
+        chatMemberships: {
+          include: { chat: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
     });
 
     res.json(users);
@@ -234,8 +162,44 @@ router.get(
   })
 );
 
+router.get(
+  '/:id/commission-history',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    const rates = await prisma.commissionRate.findMany({
+      where: { userId: id },
+      orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }]
+    });
+
+    res.json(rates.map(serializeCommissionRate));
+  })
+);
+
+router.get(
+  '/:id/moderation',
+  asyncHandler(async (req, res) => {
+    res.json(await listModerationEvents(req.params.id));
+  })
+);
+
+router.get(
+  '/:id/chats',
+  asyncHandler(async (req, res) => {
+    res.json(await listUserChats(req.params.id));
+  })
+);
+
+router.get(
+  '/:id/warnings',
+  asyncHandler(async (req, res) => {
+    res.json(await listActiveWarnings(req.params.id));
+  })
+);
+
 router.post(
   '/',
+  requirePermission('users.manage'),
   asyncHandler(async (req, res) => {
     const data = userBodySchema.parse(req.body);
     const sanitizedTelegramId = data.telegramId.trim();
@@ -259,37 +223,78 @@ router.post(
     const payoutUsdtBep20 = sanitizeNullableString(data.payoutUsdtBep20);
     const chatId = sanitizeNullableString(data.chatId);
     const commissionPercent = sanitizePercent(data.commissionPercent);
+    const effectiveFrom = await resolveEffectiveFrom(data.commissionEffectiveFrom);
     const isPartner = data.isPartner ?? false;
     const resolvedChatId = (chatId ?? env.DEFAULT_CHAT_ID)?.trim();
 
-    const user = await prisma.user.create({
-      data: {
-        telegramId: sanitizedTelegramId,
-        ...(username !== undefined ? { username } : {}),
-        ...(firstName !== undefined ? { firstName } : {}),
-        ...(lastName !== undefined ? { lastName } : {}),
-        ...(languageCode !== undefined ? { languageCode } : {}),
-        ...(photoUrl !== undefined ? { photoUrl } : {}),
-        ...(phone !== undefined ? { phone } : {}),
-        ...(bio !== undefined ? { bio } : {}),
-        ...(payoutUsdtTrc20 !== undefined ? { payoutUsdtTrc20 } : {}),
-        ...(payoutUsdtBep20 !== undefined ? { payoutUsdtBep20 } : {}),
-        isPartner,
-        ...(commissionPercent !== undefined ? { commissionPercent } : {}),
-        ...(resolvedChatId ? { chatId: resolvedChatId } : {})
+    if (!effectiveFrom) {
+      return res.status(400).json({ error: 'Некорректная дата начала действия процента' });
+    }
+
+    if (commissionPercent !== undefined && (await isDateLocked(effectiveFrom))) {
+      return res.status(409).json({ error: 'Нельзя менять процент в закрытом периоде' });
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          telegramId: sanitizedTelegramId,
+          ...(username !== undefined ? { username } : {}),
+          ...(firstName !== undefined ? { firstName } : {}),
+          ...(lastName !== undefined ? { lastName } : {}),
+          ...(languageCode !== undefined ? { languageCode } : {}),
+          ...(photoUrl !== undefined ? { photoUrl } : {}),
+          ...(phone !== undefined ? { phone } : {}),
+          ...(bio !== undefined ? { bio } : {}),
+          ...(payoutUsdtTrc20 !== undefined ? { payoutUsdtTrc20 } : {}),
+          ...(payoutUsdtBep20 !== undefined ? { payoutUsdtBep20 } : {}),
+          isPartner,
+          ...(resolvedChatId ? { chatId: resolvedChatId } : {})
+        }
+      });
+
+      return commissionPercent !== undefined && commissionPercent !== null
+        ? setCommissionPercent(
+            tx,
+            user.id,
+            commissionPercent,
+            effectiveFrom,
+            req.context!.admin!.telegramId
+          )
+        : user;
+    });
+
+    await recordAudit(req, {
+      action: 'user.create',
+      entityType: 'user',
+      entityId: created.id,
+      after: {
+        ...created,
+        ...(commissionPercent !== undefined && commissionPercent !== null
+          ? { commissionEffectiveFrom: effectiveFrom }
+          : {})
       }
     });
 
-    res.status(201).json(user);
+    res.status(201).json(created);
   })
 );
 
 router.put(
   '/:id',
+  requirePermission('users.manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const data = updateUserSchema.parse(req.body);
 
+    const before = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     if (data.telegramId) {
       const trimmedTelegramId = data.telegramId.trim();
       const existing = await prisma.user.findUnique({
@@ -314,35 +319,70 @@ router.put(
     let payoutUsdtBep20 = sanitizeNullableString(data.payoutUsdtBep20);
     let chatId = sanitizeNullableString(data.chatId);
     const commissionPercent = sanitizePercent(data.commissionPercent);
+    const effectiveFrom = await resolveEffectiveFrom(data.commissionEffectiveFrom);
     if (chatId === null) {
       chatId = env.DEFAULT_CHAT_ID;
     }
 
-    const user = await prisma.user.update({
-      where: { id },
-      data: {
-        ...(data.telegramId ? { telegramId: data.telegramId } : {}),
-        ...(username !== undefined ? { username } : {}),
-        ...(firstName !== undefined ? { firstName } : {}),
-        ...(lastName !== undefined ? { lastName } : {}),
-        ...(languageCode !== undefined ? { languageCode } : {}),
-        ...(photoUrl !== undefined ? { photoUrl } : {}),
-        ...(phone !== undefined ? { phone } : {}),
-        ...(bio !== undefined ? { bio } : {}),
-        ...(payoutUsdtTrc20 !== undefined ? { payoutUsdtTrc20 } : {}),
-        ...(payoutUsdtBep20 !== undefined ? { payoutUsdtBep20 } : {}),
-        ...(commissionPercent !== undefined ? { commissionPercent } : {}),
-        ...(data.isPartner !== undefined ? { isPartner: data.isPartner } : {}),
-        ...(chatId !== undefined ? { chatId: chatId ?? env.DEFAULT_CHAT_ID } : {})
+    if (!effectiveFrom) {
+      return res.status(400).json({ error: 'Некорректная дата начала действия процента' });
+    }
+
+    if (commissionPercent !== undefined && (await isDateLocked(effectiveFrom))) {
+      return res.status(409).json({ error: 'Нельзя менять процент в закрытом периоде' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id },
+        data: {
+          ...(data.telegramId ? { telegramId: data.telegramId } : {}),
+          ...(username !== undefined ? { username } : {}),
+          ...(firstName !== undefined ? { firstName } : {}),
+          ...(lastName !== undefined ? { lastName } : {}),
+          ...(languageCode !== undefined ? { languageCode } : {}),
+          ...(photoUrl !== undefined ? { photoUrl } : {}),
+          ...(phone !== undefined ? { phone } : {}),
+          ...(bio !== undefined ? { bio } : {}),
+          ...(payoutUsdtTrc20 !== undefined ? { payoutUsdtTrc20 } : {}),
+          ...(payoutUsdtBep20 !== undefined ? { payoutUsdtBep20 } : {}),
+          ...(data.isPartner !== undefined ? { isPartner: data.isPartner } : {}),
+          ...(chatId !== undefined ? { chatId: chatId ?? env.DEFAULT_CHAT_ID } : {})
+        }
+      });
+
+      return commissionPercent !== undefined
+        ? setCommissionPercent(
+            tx,
+            user.id,
+            commissionPercent,
+            effectiveFrom,
+            req.context!.admin!.telegramId
+          )
+        : user;
+    });
+
+    // A percent dated in the future leaves commissionPercent as is, so the request is kept too
+    await recordAudit(req, {
+      action: 'user.update',
+      entityType: 'user',
+      entityId: id,
+      before,
+      after: {
+        ...updated,
+        ...(commissionPercent !== undefined
+          ? { requestedCommissionPercent: commissionPercent, commissionEffectiveFrom: effectiveFrom }
+          : {})
       }
     });
 
-    res.json(user);
+    res.json(updated);
   })
 );
 
 router.post(
   '/:id/mute',
+  requirePermission('users.moderate'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const payload = muteSchema.parse(req.body);
@@ -355,10 +395,14 @@ router.post(
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const chatId = resolveChatId(payload.chatId, user.chatId);
+    const chats = await resolveTargetChats(user, payload.chats);
+
+    if (!chats) {
+      return res.status(400).json({ error: 'Чат не подключён к боту' });
+    }
 
-    if (!chatId) {
-      return res.status(400).json({ error: 'Не указан chatId' });
+    if (chats.length === 0) {
+      return res.status(400).json({ error: 'Пользователь не состоит ни в одном чате' });
     }
 
     const now = new Date();
@@ -370,30 +414,36 @@ router.post(
       return res.status(400).json({ error: 'Некорректная дата завершения блокировки' });
     }
 
-    try {
-      await muteInChat({
-        chatId,
-        telegramId: user.telegramId,
-        until
-      });
-    } catch (error) {
-      return res.status(502).json({ error: 'Не удалось применить ограничения в чате' });
+    const outcome = await applyMute(user, {
+      actorTelegramId: moderatorId(req),
+      chats,
+      until,
+      durationMinutes:
+        payload.durationMinutes ?? Math.round((until.getTime() - now.getTime()) / 60000),
+      reason: payload.reason
+    });
+
+    if (!outcome.ok) {
+      return res
+        .status(502)
+        .json({ error: 'Не удалось применить ограничения в чате', results: outcome.results });
     }
 
-    const updated = await prisma.user.update({
-      where: { id },
-      data: {
-        mutedUntil: until,
-        chatId
-      }
+    await recordAudit(req, {
+      action: 'user.mute',
+      entityType: 'user',
+      entityId: id,
+      before: user,
+      after: outcome.user
     });
 
-    res.json(updated);
+    res.json({ user: outcome.user, results: outcome.results });
   })
 );
 
 router.post(
   '/:id/unmute',
+  requirePermission('users.moderate'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const payload = unmuteSchema.parse(req.body);
@@ -406,32 +456,39 @@ router.post(
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const chatId = resolveChatId(payload.chatId, user.chatId);
+    const chats = await resolveTargetChats(user, payload.chats);
 
-    if (!chatId) {
-      return res.status(400).json({ error: 'Не указан chatId' });
+    if (!chats) {
+      return res.status(400).json({ error: 'Чат не подключён к боту' });
     }
 
-    try {
-      await unmuteInChat(chatId, user.telegramId);
-    } catch (error) {
-      return res.status(502).json({ error: 'Не удалось снять ограничения в чате' });
+    if (chats.length === 0) {
+      return res.status(400).json({ error: 'Пользователь не состоит ни в одном чате' });
     }
 
-    const updated = await prisma.user.update({
-      where: { id },
-      data: {
-        mutedUntil: null,
-        chatId
-      }
+    const outcome = await applyUnmute(user, { actorTelegramId: moderatorId(req), chats });
+
+    if (!outcome.ok) {
+      return res
+        .status(502)
+        .json({ error: 'Не удалось снять ограничения в чате', results: outcome.results });
+    }
+
+    await recordAudit(req, {
+      action: 'user.unmute',
+      entityType: 'user',
+      entityId: id,
+      before: user,
+      after: outcome.user
     });
 
-    res.json(updated);
+    res.json({ user: outcome.user, results: outcome.results });
   })
 );
 
 router.post(
   '/:id/block',
+  requirePermission('users.moderate'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const payload = blockSchema.parse(req.body);
@@ -444,36 +501,40 @@ router.post(
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const chatId = resolveChatId(payload.chatId, user.chatId);
+    // Without any chat the block still applies to the WebApp
+    const chats = await resolveTargetChats(user, payload.chats);
 
-    if (chatId) {
-      try {
-        await blockInChat(chatId, user.telegramId);
-      } catch (error) {
-        return res.status(502).json({ error: 'Не удалось заблокировать пользователя в чате' });
-      }
+    if (!chats) {
+      return res.status(400).json({ error: 'Чат не подключён к боту' });
     }
 
-    const reason = payload.reason?.trim() ?? null;
-
-    const updated = await prisma.user.update({
-      where: { id },
-      data: {
-        isBlocked: true,
-        blockReason: reason,
-        chatId: chatId ?? user.chatId,
-        mutedUntil: null
-      }
+    const outcome = await applyBlock(user, {
+      actorTelegramId: moderatorId(req),
+      chats,
+      reason: payload.reason
     });
 
-    await notifyUser(user.telegramId, reason ? `Вы были заблокированы. Причина: ${reason}` : 'Вы были заблокированы.');
+    if (!outcome.ok) {
+      return res
+        .status(502)
+        .json({ error: 'Не удалось заблокировать пользователя в чате', results: outcome.results });
+    }
 
-    res.json(updated);
+    await recordAudit(req, {
+      action: 'user.block',
+      entityType: 'user',
+      entityId: id,
+      before: user,
+      after: outcome.user
+    });
+
+    res.json({ user: outcome.user, results: outcome.results });
   })
 );
 
 router.post(
   '/:id/unblock',
+  requirePermission('users.moderate'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const payload = unblockSchema.parse(req.body);
@@ -486,39 +547,91 @@ router.post(
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const chatId = resolveChatId(payload.chatId, user.chatId);
+    const chats = await resolveTargetChats(user, payload.chats);
 
-    if (chatId) {
-      try {
-        await unblockInChat(chatId, user.telegramId);
-      } catch (error) {
-        return res.status(502).json({ error: 'Не удалось снять блокировку в чате' });
-      }
+    if (!chats) {
+      return res.status(400).json({ error: 'Чат не подключён к боту' });
     }
 
-    const updated = await prisma.user.update({
-      where: { id },
-      data: {
-        isBlocked: false,
-        blockReason: null,
-        chatId: chatId ?? user.chatId
-      }
+    const outcome = await applyUnblock(user, { actorTelegramId: moderatorId(req), chats });
+
+    if (!outcome.ok) {
+      return res
+        .status(502)
+        .json({ error: 'Не удалось снять блокировку в чате', results: outcome.results });
+    }
+
+    await recordAudit(req, {
+      action: 'user.unblock',
+      entityType: 'user',
+      entityId: id,
+      before: user,
+      after: outcome.user
     });
 
-    await notifyUser(user.telegramId, 'Ваша блокировка снята.');
+    res.json({ user: outcome.user, results: outcome.results });
+  })
+);
 
-    res.json(updated);
+// Escalation failures don't fail the request: the warning itself is stored either way
+router.post(
+  '/:id/warn',
+  requirePermission('users.moderate'),
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const payload = warnSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const result = await issueWarning(user, {
+      actorTelegramId: moderatorId(req),
+      chatId: payload.chatId?.trim() || null,
+      reason: payload.reason,
+      points: payload.points
+    });
+
+    await recordAudit(req, {
+      action: 'user.warn',
+      entityType: 'user',
+      entityId: id,
+      before: user,
+      after: { ...result.user, warningPoints: result.points, reason: result.warning.reason }
+    });
+
+    res.json({
+      user: result.user,
+      points: result.points,
+      escalation: result.escalation && {
+        action: result.escalation.threshold.action,
+        thresholdPoints: result.escalation.threshold.points,
+        ok: result.escalation.outcome?.ok ?? false,
+        results: result.escalation.outcome?.results ?? []
+      }
+    });
   })
 );
 
 router.delete(
   '/:id',
+  requirePermission('users.manage'),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    await prisma.user.delete({
+    const deleted = await prisma.user.delete({
       where: { id }
     });
+    await recordAudit(req, {
+      action: 'user.delete',
+      entityType: 'user',
+      entityId: id,
+      before: deleted
+    });
 
     res.status(204).send();
   })
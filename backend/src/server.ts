@@ -1,9 +1,12 @@
 import http from 'http';
 
-import { getBot, stopBot } from './bot';
 import { createApp } from './app';
+import { getBot, stopBot } from './bot';
 import { env } from './env';
 import { disconnectPrisma, prisma } from './prisma';
+import { seedDefaultChat } from './services/chats';
+import { startDigestScheduler } from './services/digests';
+import { startMuteExpiryJob } from './services/muteExpiry';
 
 async function seedInitialAdmins() {
   if (!env.ADMIN_SEED_CHAT_IDS.length) {
@@ -39,6 +42,7 @@ async function seedInitialAdmins() {
 
 async function bootstrap() {
   await seedInitialAdmins();
+  await seedDefaultChat();
 
   const app = createApp();
   const server = http.createServer(app);
@@ -48,9 +52,13 @@ async function bootstrap() {
   });
 
   getBot();
+  const stopDigestScheduler = startDigestScheduler();
+  const stopMuteExpiryJob = startMuteExpiryJob();
 
   const shutdown = async () => {
     console.log('🛑 Shutting down server...');
+    stopDigestScheduler();
+    stopMuteExpiryJob();
     await stopBot();
     await new Promise<void>((resolve) => {
       server.close(() => resolve());
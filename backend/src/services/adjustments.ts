@@ -0,0 +1,67 @@
+import type { SalaryAdjustment, SalaryAdjustmentType } from '@prisma/client';
+
+import { prisma } from '../prisma';
+import type { DateRange } from '../utils/dateRange';
+import { roundAmount } from './salary';
+
+// Bonuses add to the salary, penalties and advances are deducted, corrections keep their sign
+export function signedAdjustmentAmount(type: SalaryAdjustmentType, amount: number) {
+  if (type === 'bonus') {
+    return Math.abs(amount);
+  }
+
+  if (type === 'penalty' || type === 'advance') {
+    return -Math.abs(amount);
+  }
+
+  return amount;
+}
+
+export function serializeAdjustment(adjustment: SalaryAdjustment) {
+  return {
+    id: adjustment.id,
+    userId: adjustment.userId,
+    type: adjustment.type,
+    amount: adjustment.amount.toNumber(),
+    reason: adjustment.reason,
+    date: adjustment.date,
+    createdAt: adjustment.createdAt
+  };
+}
+
+export function listAdjustments(userId: string, range: DateRange) {
+  return prisma.salaryAdjustment.findMany({
+    where: {
+      userId,
+      date: {
+        ...(range.start ? { gte: range.start } : {}),
+        ...(range.end ? { lte: range.end } : {})
+      }
+    },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }]
+  });
+}
+
+export async function summarizeAdjustments(userId: string, range: Required<DateRange>) {
+  const adjustments = await listAdjustments(userId, range);
+  const items = adjustments.map(serializeAdjustment);
+
+  return {
+    items,
+    total: roundAmount(items.reduce((sum, item) => sum + item.amount, 0))
+  };
+}
+
+export async function adjustmentTotals(range: Required<DateRange>) {
+  const groups = await prisma.salaryAdjustment.groupBy({
+    by: ['userId'],
+    where: {
+      date: { gte: range.start, lte: range.end }
+    },
+    _sum: { amount: true }
+  });
+
+  return new Map(
+    groups.map((group) => [group.userId, group._sum.amount ? group._sum.amount.toNumber() : 0])
+  );
+}
@@ -0,0 +1,224 @@
+import { Prisma } from '@prisma/client';
+import type { AuditLog } from '@prisma/client';
+import type { Request } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+
+export const auditActionSchema = z.enum([
+  'admin.create',
+  'admin.update',
+  'admin.delete',
+  'user.create',
+  'user.update',
+  'user.mute',
+  'user.unmute',
+  'user.block',
+  'user.unblock',
+  'user.warn',
+  'user.join.approve',
+  'user.join.decline',
+  'user.delete',
+  'check.create',
+  'check.import',
+  'check.update',
+  'check.delete',
+  'check.approve',
+  'check.reject',
+  'check.adjust',
+  'check.attachments.add',
+  'check.attachments.delete',
+  'profile.update',
+  'payout.batch.create',
+  'payout.batch.delete',
+  'payout.pay',
+  'payout.cancel',
+  'period.close',
+  'period.reopen',
+  'adjustment.create',
+  'adjustment.delete',
+  'setting.update',
+  'chat.create',
+  'chat.delete'
+]);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = z.enum([
+  'admin',
+  'user',
+  'check',
+  'profile',
+  'payout',
+  'period',
+  'adjustment',
+  'setting',
+  'chat'
+]);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+// Bookkeeping columns that change on every write and say nothing about the change itself
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const PAGE_SIZE = 50;
+
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Decimals become strings and dates ISO strings, the same as in API responses
+function toJsonObject(value: object) {
+  return JSON.parse(JSON.stringify(value)) as Record<string, Prisma.JsonValue>;
+}
+
+/**
+ * Keeps only the fields that differ between the two states. Created entities keep the whole
+ * `after`, deleted ones the whole `before`.
+ */
+export function auditDiff(before?: object | null, after?: object | null) {
+  const previous = before ? toJsonObject(before) : null;
+  const next = after ? toJsonObject(after) : null;
+
+  if (!previous || !next) {
+    return { before: previous, after: next };
+  }
+
+  const changedBefore: Record<string, Prisma.JsonValue> = {};
+  const changedAfter: Record<string, Prisma.JsonValue> = {};
+
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((key) => {
+    if (IGNORED_FIELDS.has(key) || JSON.stringify(previous[key]) === JSON.stringify(next[key])) {
+      return;
+    }
+
+    if (key in previous) {
+      changedBefore[key] = previous[key];
+    }
+
+    if (key in next) {
+      changedAfter[key] = next[key];
+    }
+  });
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+const toJsonInput = (value: Record<string, Prisma.JsonValue> | null) =>
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+export interface AuditActor {
+  telegramId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Records a mutation made by the given actor. The change has already happened by now, so
+ * a failed write is only logged instead of turning a successful action into an error.
+ */
+export async function recordAuditAs(actor: AuditActor, entry: AuditEntry) {
+  const diff = auditDiff(entry.before, entry.after);
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorTelegramId: actor.telegramId,
+        actorIsAdmin: actor.isAdmin,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        before: toJsonInput(diff.before),
+        after: toJsonInput(diff.after)
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record audit entry', entry.action, entry.entityId, error);
+  }
+}
+
+// Mutations made through the API, attributed to the admin or user behind the request
+export function recordAudit(req: Request, entry: AuditEntry) {
+  const { admin, user } = req.context!;
+
+  return recordAuditAs(
+    { telegramId: admin?.telegramId ?? user.telegramId, isAdmin: Boolean(admin) },
+    entry
+  );
+}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  start?: Date;
+  end?: Date;
+  cursor?: string;
+}
+
+// Newest first; `nextCursor` is the id to pass for the following page
+export async function listAuditLog(query: AuditQuery) {
+  const where: Prisma.AuditLogWhereInput = {
+    ...(query.action ? { action: query.action } : {}),
+    ...(query.entityType ? { entityType: query.entityType } : {}),
+    ...(query.entityId ? { entityId: query.entityId } : {}),
+    ...(query.actor ? { actorTelegramId: query.actor } : {}),
+    ...(query.start || query.end
+      ? {
+          createdAt: {
+            ...(query.start ? { gte: query.start } : {}),
+            ...(query.end ? { lte: query.end } : {})
+          }
+        }
+      : {})
+  };
+
+  const entries = await prisma.auditLog.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: PAGE_SIZE + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {})
+  });
+
+  const page = entries.slice(0, PAGE_SIZE);
+
+  return {
+    entries: page,
+    nextCursor: entries.length > PAGE_SIZE ? page[page.length - 1].id : null
+  };
+}
+
+export async function attachAuditActors(entries: AuditLog[]) {
+  const telegramIds = Array.from(
+    new Set(entries.map((entry) => entry.actorTelegramId).filter((id): id is string => Boolean(id)))
+  );
+
+  const [admins, users] = await Promise.all([
+    prisma.admin.findMany({ where: { telegramId: { in: telegramIds } } }),
+    prisma.user.findMany({
+      where: { telegramId: { in: telegramIds } },
+      select: { telegramId: true, firstName: true, lastName: true, username: true }
+    })
+  ]);
+
+  const names = new Map<string, string>();
+
+  users.forEach((user) => {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ').trim();
+    names.set(user.telegramId, name || (user.username ? `@${user.username}` : user.telegramId));
+  });
+  admins.forEach((admin) => {
+    if (admin.displayName?.trim()) {
+      names.set(admin.telegramId, admin.displayName.trim());
+    }
+  });
+
+  return entries.map((entry) => ({
+    ...entry,
+    actorName: entry.actorTelegramId ? names.get(entry.actorTelegramId) ?? null : null
+  }));
+}
@@ -0,0 +1,174 @@
+import type { ManagedChat, User } from '@prisma/client';
+import type { ChatMember, ChatMemberUpdated, TelegramUser } from 'node-telegram-bot-api';
+import { z } from 'zod';
+
+import { getBot } from '../bot';
+import { env } from '../env';
+import { prisma } from '../prisma';
+import { telegramDisplayName } from '../utils/format';
+
+const MAX_SELECTED_CHATS = 50;
+
+const PRESENT_STATUSES: ChatMember['status'][] = ['creator', 'administrator', 'member'];
+
+/**
+ * Chats a moderation action targets: `'all'` managed chats or a list of Telegram chat ids.
+ * Left out, the action goes to every chat the user is a member of.
+ */
+export const chatSelectionSchema = z
+  .union([
+    z.literal('all'),
+    z
+      .array(z.string().trim().min(1))
+      .min(1, 'Выберите хотя бы один чат')
+      .max(MAX_SELECTED_CHATS, 'Слишком много чатов')
+  ])
+  .optional();
+
+export type ChatSelection = z.infer<typeof chatSelectionSchema>;
+
+export function listManagedChats() {
+  return prisma.managedChat.findMany({
+    orderBy: [{ title: 'asc' }, { createdAt: 'asc' }],
+    include: { _count: { select: { memberships: true } } }
+  });
+}
+
+export function findManagedChat(telegramChatId: string) {
+  return prisma.managedChat.findUnique({ where: { telegramChatId } });
+}
+
+// Asks Telegram for the chat, which also proves the bot is in it; null when it isn't reachable
+export async function fetchChatTitle(telegramChatId: string) {
+  try {
+    const chat = await getBot().getChat(telegramChatId);
+    return { title: chat.title ?? null };
+  } catch (error) {
+    console.error('Failed to read chat from Telegram', telegramChatId, error);
+    return null;
+  }
+}
+
+// A fresh install manages the chat from DEFAULT_CHAT_ID, so moderation works as before. Once
+// the list has chats it is left alone, otherwise a removed default chat would come back
+export async function seedDefaultChat() {
+  if ((await prisma.managedChat.count()) > 0) {
+    return;
+  }
+
+  await prisma.managedChat.create({ data: { telegramChatId: env.DEFAULT_CHAT_ID } });
+}
+
+// A restricted user may have left the chat while the restriction stays
+export function isInChat(member: ChatMember) {
+  return member.status === 'restricted'
+    ? member.is_member !== false
+    : PRESENT_STATUSES.includes(member.status);
+}
+
+// Users seen in a chat may never have opened the WebApp, so they are created on demand. An
+// applicant is created pending; a user who exists already keeps their state
+export function upsertChatUser(
+  telegramUser: TelegramUser,
+  telegramChatId: string,
+  { pending = false }: { pending?: boolean } = {}
+) {
+  const telegramId = telegramUser.id.toString();
+
+  return prisma.user.upsert({
+    where: { telegramId },
+    create: {
+      telegramId,
+      username: telegramUser.username ?? null,
+      firstName: telegramUser.first_name ?? null,
+      lastName: telegramUser.last_name ?? null,
+      chatId: telegramChatId,
+      isPending: pending
+    },
+    update: {}
+  });
+}
+
+/**
+ * Stores what a chat_member update says about a user: the current status, and when they joined
+ * or left. On join the inviter is whoever created the invite link or added the user.
+ */
+export async function recordMembershipUpdate(chat: ManagedChat, update: ChatMemberUpdated) {
+  const target = update.new_chat_member.user;
+  const user = await upsertChatUser(target, chat.telegramChatId);
+
+  const wasIn = isInChat(update.old_chat_member);
+  const isIn = isInChat(update.new_chat_member);
+  const at = new Date(update.date * 1000);
+  const addedBy = update.from.id !== target.id ? update.from : null;
+  const inviter = update.invite_link?.creator ?? addedBy;
+
+  const data = {
+    status: update.new_chat_member.status,
+    ...(!wasIn && isIn
+      ? {
+          joinedAt: at,
+          leftAt: null,
+          invitedByTelegramId: inviter?.id.toString() ?? null,
+          invitedByName: inviter ? telegramDisplayName(inviter) : null
+        }
+      : {}),
+    ...(wasIn && !isIn ? { leftAt: at } : {})
+  };
+
+  const membership = await prisma.chatMembership.upsert({
+    where: { userId_chatId: { userId: user.id, chatId: chat.id } },
+    create: { userId: user.id, chatId: chat.id, ...data },
+    update: data
+  });
+
+  return { user, membership };
+}
+
+export function trackMembership(userId: string, chat: Pick<ManagedChat, 'id'>) {
+  return prisma.chatMembership.upsert({
+    where: { userId_chatId: { userId, chatId: chat.id } },
+    create: { userId, chatId: chat.id },
+    update: {}
+  });
+}
+
+export async function listUserChats(userId: string) {
+  return prisma.chatMembership.findMany({
+    where: { userId },
+    include: { chat: true },
+    orderBy: { createdAt: 'asc' }
+  });
+}
+
+/**
+ * Managed chats a moderation action applies to, or null when the selection names a chat that
+ * isn't managed. Without a selection these are the user's chats, falling back to `User.chatId`
+ * for users no membership was recorded for yet.
+ */
+export async function resolveTargetChats(
+  user: Pick<User, 'id' | 'chatId'>,
+  selection: ChatSelection
+): Promise<ManagedChat[] | null> {
+  if (selection === 'all') {
+    return prisma.managedChat.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  if (selection) {
+    const telegramChatIds = Array.from(new Set(selection));
+    const chats = await prisma.managedChat.findMany({
+      where: { telegramChatId: { in: telegramChatIds } }
+    });
+
+    return chats.length === telegramChatIds.length ? chats : null;
+  }
+
+  const memberships = await listUserChats(user.id);
+
+  if (memberships.length > 0) {
+    return memberships.map((membership) => membership.chat);
+  }
+
+  const fallback = user.chatId ? await findManagedChat(user.chatId) : null;
+  return fallback ? [fallback] : [];
+}
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+
+import type { CheckAttachment } from '@prisma/client';
+import multer from 'multer';
+
+import { getBot } from '../bot';
+import { env } from '../env';
+
+export const MAX_ATTACHMENTS_PER_CHECK = 10;
+const MAX_PHOTOS_PER_UPLOAD = 5;
+const MAX_PHOTO_SIZE_BYTES = 10 * 1024 * 1024;
+
+const checkUploadsDir = path.resolve(env.UPLOADS_DIR, 'checks');
+
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/heic': '.heic'
+};
+
+export const checkPhotosUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      fs.mkdir(checkUploadsDir, { recursive: true }, (error) => cb(error ?? null, checkUploadsDir));
+    },
+    filename: (_req, file, cb) => {
+      cb(null, `${crypto.randomUUID()}${EXTENSIONS_BY_MIME[file.mimetype] ?? ''}`);
+    }
+  }),
+  limits: {
+    fileSize: MAX_PHOTO_SIZE_BYTES,
+    files: MAX_PHOTOS_PER_UPLOAD
+  },
+  // Non-image files are skipped silently; the route reports an empty upload
+  fileFilter: (_req, file, cb) => {
+    cb(null, file.mimetype in EXTENSIONS_BY_MIME);
+  }
+}).array('photos', MAX_PHOTOS_PER_UPLOAD);
+
+function resolveStoredPath(filePath: string) {
+  // Only the generated file name is persisted, never a client-controlled path
+  return path.join(checkUploadsDir, path.basename(filePath));
+}
+
+export async function removeStoredFiles(filePaths: Array<string | null>) {
+  await Promise.all(
+    filePaths
+      .filter((filePath): filePath is string => Boolean(filePath))
+      .map(async (filePath) => {
+        try {
+          await fs.promises.unlink(resolveStoredPath(filePath));
+        } catch (error) {
+          console.error('Failed to remove check attachment file', filePath, error);
+        }
+      })
+  );
+}
+
+export function openAttachmentStream(attachment: CheckAttachment): Readable {
+  if (attachment.filePath) {
+    return fs.createReadStream(resolveStoredPath(attachment.filePath));
+  }
+
+  if (attachment.telegramFileId) {
+    return getBot().getFileStream(attachment.telegramFileId);
+  }
+
+  throw new Error(`Attachment ${attachment.id} has no stored content`);
+}
@@ -0,0 +1,117 @@
+import type { Check, CheckStatus, User } from '@prisma/client';
+
+import type { ChecksSummary, SummaryStats } from './checksSummary';
+import { MONEY_FORMAT, formatExportDate } from './exports';
+import type { ExportCell, ExportTable } from './exports';
+import { roundAmount } from './salary';
+
+const CHECK_STATUS_LABELS: Record<CheckStatus, string> = {
+  pending: 'На проверке',
+  approved: 'Подтверждён',
+  rejected: 'Отклонён'
+};
+
+const SUMMARY_PERIOD_LABELS = {
+  day: 'Сегодня',
+  week: 'Неделя',
+  month: 'Месяц',
+  custom: 'Период'
+} as const;
+
+type ExportUser = Pick<User, 'telegramId' | 'firstName' | 'lastName' | 'username'>;
+
+function userName(user: ExportUser) {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ').trim() || null;
+}
+
+export function checksExportTable(
+  checks: (Check & { user: ExportUser })[],
+  timeZone: string
+): ExportTable {
+  return {
+    sheetName: 'Чеки',
+    columns: [
+      { header: 'Дата', width: 18 },
+      { header: 'Сотрудник', width: 24 },
+      { header: 'Username' },
+      { header: 'Telegram ID' },
+      { header: 'Сумма, AED', numFmt: MONEY_FORMAT },
+      { header: 'Статус', width: 14 },
+      { header: 'Комментарий', width: 32 },
+      { header: 'Причина отклонения', width: 24 },
+      { header: 'Корректировка чека', width: 28 },
+      { header: 'ID чека', width: 28 }
+    ],
+    rows: checks.map((check) => [
+      formatExportDate(check.createdAt, timeZone),
+      userName(check.user),
+      check.user.username ? `@${check.user.username}` : null,
+      check.user.telegramId,
+      check.amount.toNumber(),
+      CHECK_STATUS_LABELS[check.status],
+      check.note,
+      check.rejectionReason,
+      check.adjustedCheckId,
+      check.id
+    ])
+  };
+}
+
+// One row per user with count, volume and salary for each period of the matrix, plus a total row
+export function summaryExportTable(summary: ChecksSummary): ExportTable {
+  const periods = (['day', 'week', 'month', 'custom'] as const).filter(
+    (period) => period !== 'custom' || summary.ranges.custom
+  );
+
+  const rangeLabel = (period: (typeof periods)[number]) => {
+    const range = summary.ranges[period]!;
+    const start = formatExportDate(range.start, summary.timeZone).slice(0, 10);
+    const end = formatExportDate(range.end, summary.timeZone).slice(0, 10);
+    return start === end ? start : `${start} — ${end}`;
+  };
+
+  const statsCells = (stats: SummaryStats | undefined): ExportCell[] => [
+    stats?.count ?? 0,
+    stats?.total ?? 0,
+    stats?.salary ?? null
+  ];
+
+  const totals = periods.flatMap((period) => {
+    const stats = summary.users.map((row) => row[period]).filter(Boolean) as SummaryStats[];
+
+    return [
+      stats.reduce((sum, item) => sum + item.count, 0),
+      roundAmount(stats.reduce((sum, item) => sum + item.total, 0)),
+      roundAmount(stats.reduce((sum, item) => sum + (item.salary ?? 0), 0))
+    ];
+  });
+
+  return {
+    sheetName: 'Сводка',
+    columns: [
+      { header: 'Сотрудник', width: 24 },
+      { header: 'Username' },
+      { header: 'Telegram ID' },
+      { header: 'Партнёр', width: 10 },
+      ...periods.flatMap((period) => {
+        const label = `${SUMMARY_PERIOD_LABELS[period]} (${rangeLabel(period)})`;
+
+        return [
+          { header: `${label}: чеков`, width: 14 },
+          { header: `${label}: сумма, AED`, width: 20, numFmt: MONEY_FORMAT },
+          { header: `${label}: зарплата, AED`, width: 20, numFmt: MONEY_FORMAT }
+        ];
+      })
+    ],
+    rows: [
+      ...summary.users.map((row) => [
+        userName(row.user),
+        row.user.username ? `@${row.user.username}` : null,
+        row.user.telegramId,
+        row.user.isPartner ? 'Да' : 'Нет',
+        ...periods.flatMap((period) => statsCells(row[period]))
+      ]),
+      ['Итого', null, null, null, ...totals]
+    ]
+  };
+}
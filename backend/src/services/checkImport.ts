@@ -0,0 +1,281 @@
+import type { Admin, Prisma, User } from '@prisma/client';
+import multer from 'multer';
+
+import { prisma } from '../prisma';
+import { parseDateInput, zonedTime } from '../utils/dateRange';
+import { amountSchema, noteSchema, toDecimal } from './checks';
+import { findClosedPeriods, isLockedAt } from './payPeriods';
+
+const MAX_IMPORT_SIZE_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+
+export const checkImportUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_SIZE_BYTES,
+    files: 1
+  }
+}).single('file');
+
+type ImportColumn = 'telegramId' | 'username' | 'amount' | 'date' | 'note';
+
+// Headers are matched case-insensitively, so files exported from the admin panel import back as is
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  telegramId: ['telegramid', 'telegram_id', 'telegram id', 'tgid'],
+  username: ['username', 'логин'],
+  amount: ['amount', 'сумма'],
+  date: ['date', 'дата'],
+  note: ['note', 'комментарий', 'заметка']
+};
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface CheckImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  amount: number;
+  errors: ImportRowError[];
+  unmatchedUsers: string[];
+}
+
+// Quoted fields may contain the delimiter, doubled quotes and line breaks
+function parseCsv(text: string) {
+  // Spreadsheets in a Russian locale save CSV with semicolons
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (pattern: RegExp) => firstLine.match(pattern)?.length ?? 0;
+  const delimiter = count(/;/g) > count(/,/g) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function columnIndexes(header: string[]) {
+  const normalized = header.map((cell) => cell.trim().toLowerCase());
+  const indexes: Partial<Record<ImportColumn, number>> = {};
+
+  (Object.keys(COLUMN_ALIASES) as ImportColumn[]).forEach((column) => {
+    const index = normalized.findIndex((cell) => COLUMN_ALIASES[column].includes(cell));
+
+    if (index !== -1) {
+      indexes[column] = index;
+    }
+  });
+
+  return indexes;
+}
+
+// YYYY-MM-DD[ HH:mm] and DD.MM.YYYY[ HH:mm] are wall-clock times in the hostel zone
+function parseImportDate(value: string, timeZone: string) {
+  const dotted = /^(\d{2})\.(\d{2})\.(\d{4})( \d{2}:\d{2})?$/.exec(value);
+  const normalized = dotted ? `${dotted[3]}-${dotted[2]}-${dotted[1]}${dotted[4] ?? ''}` : value;
+  const withTime = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/.exec(normalized);
+
+  if (!withTime) {
+    return parseDateInput(normalized, timeZone);
+  }
+
+  const [, year, month, day, hours, minutes] = withTime.map(Number);
+
+  if (!parseDateInput(normalized.slice(0, 10), timeZone) || hours > 23 || minutes > 59) {
+    return undefined;
+  }
+
+  return zonedTime(timeZone, year, month - 1, day, hours, minutes);
+}
+
+async function loadImportUsers(rows: string[][], indexes: Partial<Record<ImportColumn, number>>) {
+  const cell = (row: string[], column: ImportColumn) =>
+    indexes[column] === undefined ? '' : (row[indexes[column]!] ?? '').trim();
+
+  const telegramIds = rows.map((row) => cell(row, 'telegramId')).filter(Boolean);
+  const usernames = rows
+    .map((row) => cell(row, 'username').replace(/^@/, '').toLowerCase())
+    .filter(Boolean);
+
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { telegramId: { in: telegramIds } },
+        { username: { in: usernames, mode: 'insensitive' } }
+      ]
+    }
+  });
+
+  const byTelegramId = new Map(users.map((user) => [user.telegramId, user]));
+  const byUsername = new Map(
+    users.filter((user) => user.username).map((user) => [user.username!.toLowerCase(), user])
+  );
+
+  return (row: string[]): { user?: User; key: string } => {
+    const telegramId = cell(row, 'telegramId');
+
+    if (telegramId) {
+      return { user: byTelegramId.get(telegramId), key: telegramId };
+    }
+
+    const username = cell(row, 'username').replace(/^@/, '');
+    return { user: byUsername.get(username.toLowerCase()), key: username ? `@${username}` : '' };
+  };
+}
+
+/**
+ * Validates every row of a check CSV and, unless it is a dry run, creates all checks at once.
+ * Nothing is written while any row has an error. Imported checks are approved by
+ * the importing admin and dated with the date from the file.
+ */
+export async function importChecks(
+  text: string,
+  { dryRun, admin, timeZone }: { dryRun: boolean; admin: Admin; timeZone: string }
+): Promise<CheckImportReport> {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, '')).filter((row) =>
+    row.some((cell) => cell.trim())
+  );
+  const indexes = columnIndexes(header);
+  const report: CheckImportReport = {
+    dryRun,
+    total: rows.length,
+    valid: 0,
+    imported: 0,
+    amount: 0,
+    errors: [],
+    unmatchedUsers: []
+  };
+
+  if (indexes.telegramId === undefined && indexes.username === undefined) {
+    report.errors.push({ line: 1, message: 'Нужна колонка telegramId или username' });
+  }
+
+  if (indexes.amount === undefined || indexes.date === undefined) {
+    report.errors.push({ line: 1, message: 'Нужны колонки amount и date' });
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    report.errors.push({ line: 1, message: `Не больше ${MAX_IMPORT_ROWS} строк за один импорт` });
+  }
+
+  if (report.errors.length > 0) {
+    return report;
+  }
+
+  const findUser = await loadImportUsers(rows, indexes);
+  const closedPeriods = await findClosedPeriods();
+  const now = new Date();
+  const unmatched = new Set<string>();
+  const data: Prisma.CheckCreateManyInput[] = [];
+
+  rows.forEach((row, index) => {
+    // Line numbers as seen in a spreadsheet, the header being line 1
+    const line = index + 2;
+    const fail = (message: string) => {
+      report.errors.push({ line, message });
+    };
+    const { user, key } = findUser(row);
+
+    if (!key) {
+      return fail('Не указан пользователь');
+    }
+
+    if (!user) {
+      unmatched.add(key);
+      return fail(`Пользователь ${key} не найден`);
+    }
+
+    const rawAmount = (row[indexes.amount!] ?? '').replace(/\s/g, '').replace(',', '.');
+    const amount = amountSchema.safeParse(rawAmount);
+
+    if (!amount.success) {
+      return fail(amount.error.issues[0]?.message ?? 'Некорректная сумма');
+    }
+
+    const date = parseImportDate((row[indexes.date!] ?? '').trim(), timeZone);
+
+    if (!date) {
+      return fail('Некорректная дата');
+    }
+
+    if (date > now) {
+      return fail('Дата в будущем');
+    }
+
+    if (isLockedAt(closedPeriods, date)) {
+      return fail('Дата попадает в закрытый период');
+    }
+
+    const note = noteSchema.safeParse(
+      indexes.note === undefined ? '' : (row[indexes.note] ?? '').trim()
+    );
+
+    if (!note.success) {
+      return fail(note.error.issues[0]?.message ?? 'Некорректный комментарий');
+    }
+
+    data.push({
+      userId: user.id,
+      amount: toDecimal(amount.data),
+      note: note.data || null,
+      status: 'approved',
+      reviewedBy: admin.telegramId,
+      reviewedAt: now,
+      createdAt: date
+    });
+    report.amount += amount.data;
+  });
+
+  report.valid = data.length;
+  report.amount = Math.round(report.amount * 100) / 100;
+  report.unmatchedUsers = Array.from(unmatched);
+
+  if (dryRun || report.errors.length > 0 || data.length === 0) {
+    return report;
+  }
+
+  // A single multi-row insert, so either every check is created or none
+  const created = await prisma.check.createMany({ data });
+
+  report.imported = created.count;
+  return report;
+}
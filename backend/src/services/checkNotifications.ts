@@ -0,0 +1,108 @@
+import type { Admin, Check, User } from '@prisma/client';
+
+import { getBot } from '../bot';
+import { prisma } from '../prisma';
+import { currentMonthRange } from '../utils/dateRange';
+import { formatAmount } from '../utils/format';
+import { computeUserSalary } from './salary';
+import { getHostelTimeZone } from './timeZone';
+
+type CheckChange =
+  | { action: 'created'; after: Check }
+  | { action: 'updated'; before: Check; after: Check }
+  | { action: 'deleted'; before: Check };
+
+function formatNote(note: string | null) {
+  return note ? `«${note}»` : 'без заметки';
+}
+
+function adminName(admin: Admin) {
+  return admin.displayName?.trim() || `ID ${admin.telegramId}`;
+}
+
+function describeChange(change: CheckChange, admin: Admin, timeZone: string) {
+  const actor = `Администратор ${adminName(admin)}`;
+  const check = change.action === 'deleted' ? change.before : change.after;
+  const date = check.createdAt.toLocaleDateString('ru-RU', { timeZone });
+
+  if (change.action === 'created') {
+    return `${actor} добавил вам чек на ${formatAmount(check.amount.toNumber())} (${formatNote(check.note)}).`;
+  }
+
+  if (change.action === 'deleted') {
+    return `${actor} удалил ваш чек от ${date} на ${formatAmount(check.amount.toNumber())} (${formatNote(check.note)}).`;
+  }
+
+  const lines = [`${actor} изменил ваш чек от ${date}:`];
+  const before = change.before.amount.toNumber();
+  const after = change.after.amount.toNumber();
+
+  if (before !== after) {
+    lines.push(`сумма: ${formatAmount(before)} → ${formatAmount(after)}`);
+  }
+
+  if (change.before.note !== change.after.note) {
+    lines.push(`заметка: ${formatNote(change.before.note)} → ${formatNote(change.after.note)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Tells the user that an admin changed one of their checks, with the salary for the month of
+ * the check after the change. Nothing is sent when users act on their own checks, when nothing
+ * visible changed or when the user opted out. Delivery errors are only logged.
+ */
+export async function notifyCheckChange(user: User, admin: Admin | null, change: CheckChange) {
+  if (!admin || admin.telegramId === user.telegramId || !user.notifyCheckChanges) {
+    return;
+  }
+
+  if (
+    change.action === 'updated' &&
+    change.before.amount.equals(change.after.amount) &&
+    change.before.note === change.after.note
+  ) {
+    return;
+  }
+
+  const chatId = Number(user.telegramId);
+
+  if (Number.isNaN(chatId)) {
+    return;
+  }
+
+  try {
+    const timeZone = await getHostelTimeZone();
+    const check = change.action === 'deleted' ? change.before : change.after;
+    const stats = await computeUserSalary(user, currentMonthRange(check.createdAt, timeZone));
+
+    const lines = [
+      describeChange(change, admin, timeZone),
+      '',
+      `Итого за месяц: ${stats.checks} шт. на ${formatAmount(stats.amount)}.`,
+      stats.salary !== null
+        ? `Зарплата за месяц: ${formatAmount(stats.salary)} (${stats.percent}%).`
+        : 'Процент не задан — обратитесь к администратору.',
+      '',
+      'Отключить эти уведомления можно в профиле приложения.'
+    ];
+
+    if (change.action !== 'deleted' && change.after.status === 'pending') {
+      lines.splice(1, 0, 'Чек ожидает подтверждения и пока не учтён в зарплате.');
+    }
+
+    await getBot().sendMessage(chatId, lines.join('\n'));
+  } catch (error) {
+    console.error('Failed to notify user about check change', user.telegramId, error);
+  }
+}
+
+// For routes that only have the check at hand
+export async function notifyCheckOwner(userId: string, admin: Admin | null, change: CheckChange) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (user) {
+    await notifyCheckChange(user, admin, change);
+  }
+}
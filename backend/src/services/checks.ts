@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client';
+import type { Admin, Check, CheckAttachment } from '@prisma/client';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+
+export const amountSchema = z
+  .coerce
+  .number()
+  .positive('Сумма должна быть больше 0')
+  .refine((value) => {
+    const scaled = value * 100;
+    return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+  }, 'Сумма допускает максимум 2 знака после запятой');
+
+// Adjustments correct checks from closed periods, so they may be negative
+export const adjustmentAmountSchema = z
+  .coerce
+  .number()
+  .refine((value) => value !== 0, 'Сумма корректировки не может быть нулевой')
+  .refine((value) => {
+    const scaled = value * 100;
+    return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+  }, 'Сумма допускает максимум 2 знака после запятой');
+
+export const noteSchema = z.string().max(500, 'Максимальная длина заметки 500 символов');
+
+export const checkUserSelect = {
+  id: true,
+  telegramId: true,
+  firstName: true,
+  lastName: true,
+  username: true
+} satisfies Prisma.UserSelect;
+
+export function toDecimal(amount: number) {
+  const rounded = Math.round(amount * 100) / 100;
+  return new Prisma.Decimal(rounded.toFixed(2));
+}
+
+export function serializeAttachment(attachment: CheckAttachment) {
+  return {
+    id: attachment.id,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    source: attachment.filePath ? 'upload' : 'telegram',
+    createdAt: attachment.createdAt
+  };
+}
+
+export function serializeCheck(check: Check & { attachments?: CheckAttachment[] }, locked = false) {
+  return {
+    id: check.id,
+    userId: check.userId,
+    amount: check.amount.toNumber(),
+    note: check.note,
+    status: check.status,
+    rejectionReason: check.rejectionReason,
+    reviewedAt: check.reviewedAt,
+    adjustedCheckId: check.adjustedCheckId,
+    locked,
+    attachments: (check.attachments ?? []).map(serializeAttachment),
+    createdAt: check.createdAt,
+    updatedAt: check.updatedAt
+  };
+}
+
+interface CreateCheckInput {
+  userId: string;
+  amount: number;
+  note?: string | null;
+  // Checks entered by an admin are approved right away, staff submissions wait for review
+  reviewer: Admin | null;
+  attachments?: Prisma.CheckAttachmentCreateWithoutCheckInput[];
+  adjustedCheckId?: string;
+}
+
+export async function createCheck({
+  userId,
+  amount,
+  note,
+  reviewer,
+  attachments,
+  adjustedCheckId
+}: CreateCheckInput) {
+  return prisma.check.create({
+    data: {
+      userId,
+      amount: toDecimal(amount),
+      adjustedCheckId: adjustedCheckId ?? null,
+      note: note?.trim() || null,
+      ...(reviewer
+        ? { status: 'approved', reviewedBy: reviewer.telegramId, reviewedAt: new Date() }
+        : { status: 'pending' }),
+      ...(attachments?.length ? { attachments: { create: attachments } } : {})
+    },
+    include: {
+      attachments: true
+    }
+  });
+}
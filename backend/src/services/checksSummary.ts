@@ -0,0 +1,148 @@
+import { prisma } from '../prisma';
+import {
+  currentDayRange,
+  currentMonthRange,
+  currentWeekRange,
+  endOfDay,
+  parseDateInput,
+  startOfDay
+} from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
+import { findPeriodSnapshot, snapshotStatsFor } from './payPeriods';
+import { computeSalaries } from './salary';
+import type { SalaryStats } from './salary';
+import { getSalaryRules } from './salaryRules';
+
+export interface SummaryQuery {
+  startDate?: string;
+  endDate?: string;
+}
+
+export type SummaryStats = Pick<
+  SalaryStats,
+  'salary' | 'percent' | 'partnerFromOwn' | 'partnerFromOthers'
+> & {
+  count: number;
+  total: number;
+};
+
+const toSummaryStats = (stats: SalaryStats): SummaryStats => ({
+  count: stats.checks,
+  total: stats.amount,
+  salary: stats.salary,
+  percent: stats.percent,
+  partnerFromOwn: stats.partnerFromOwn,
+  partnerFromOthers: stats.partnerFromOthers
+});
+
+/**
+ * Day, week, month and optional custom-range stats for every user, as shown in the admin summary
+ * matrix. A custom range matching a closed period is answered from its snapshot.
+ */
+export async function buildChecksSummary(query: SummaryQuery, timeZone: string) {
+  const reference = new Date();
+
+  const ranges = {
+    day: currentDayRange(reference, timeZone),
+    week: currentWeekRange(reference, timeZone),
+    month: currentMonthRange(reference, timeZone)
+  };
+
+  const customStart = parseDateInput(query.startDate, timeZone);
+  const customEnd = parseDateInput(query.endDate, timeZone);
+
+  let customRange: Required<DateRange> | undefined;
+
+  if (customStart && customEnd) {
+    let start = startOfDay(customStart, timeZone);
+    let end = endOfDay(customEnd, timeZone);
+
+    if (start > end) {
+      [start, end] = [end, start];
+    }
+
+    customRange = { start, end };
+  } else if (customStart && !customEnd) {
+    customRange = currentDayRange(customStart, timeZone);
+  } else if (!customStart && customEnd) {
+    customRange = currentDayRange(customEnd, timeZone);
+  }
+
+  const users = await prisma.user.findMany({
+    orderBy: [
+      { firstName: 'asc' },
+      { username: 'asc' },
+      { telegramId: 'asc' }
+    ]
+  });
+
+  async function getStats(range: Required<DateRange>) {
+    const salaries = await computeSalaries(users, range);
+
+    return users.reduce<Record<string, SummaryStats>>((acc, user) => {
+      acc[user.id] = toSummaryStats(salaries.get(user.id)!);
+      return acc;
+    }, {});
+  }
+
+  // A closed period is answered from its snapshot so later changes don't leak into it
+  async function getCustomStats(range: Required<DateRange>) {
+    const snapshot = await findPeriodSnapshot(range, timeZone);
+
+    if (!snapshot) {
+      return getStats(range);
+    }
+
+    return users.reduce<Record<string, SummaryStats>>((acc, user) => {
+      acc[user.id] = toSummaryStats(snapshotStatsFor(snapshot, user.id));
+      return acc;
+    }, {});
+  }
+
+  const [dayStats, weekStats, monthStats, customStats] = await Promise.all([
+    getStats(ranges.day),
+    getStats(ranges.week),
+    getStats(ranges.month),
+    customRange ? getCustomStats(customRange) : Promise.resolve<Record<string, SummaryStats>>({})
+  ]);
+
+  const payload = users.map((user) => {
+    const day = dayStats[user.id];
+    const week = weekStats[user.id];
+    const month = monthStats[user.id];
+    const custom = customRange ? customStats[user.id] : undefined;
+
+    return {
+      user: {
+        id: user.id,
+        telegramId: user.telegramId,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        username: user.username,
+        commissionPercent: user.commissionPercent,
+        isPartner: user.isPartner
+      },
+      day,
+      week,
+      month,
+      custom
+    };
+  });
+
+  const { value: salaryRules } = await getSalaryRules();
+
+  return {
+    generatedAt: reference,
+    timeZone,
+    fundRatePercent: salaryRules.fundRatePercent,
+    ranges: {
+      day: ranges.day,
+      week: ranges.week,
+      month: ranges.month,
+      custom: customRange ?? null
+    },
+    users: payload
+  };
+}
+
+export type ChecksSummary = Awaited<ReturnType<typeof buildChecksSummary>>;
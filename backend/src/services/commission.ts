@@ -0,0 +1,73 @@
+import type { CommissionRate, Prisma } from '@prisma/client';
+
+import { prisma } from '../prisma';
+
+export function serializeCommissionRate(rate: CommissionRate) {
+  return {
+    id: rate.id,
+    percent: rate.percent,
+    effectiveFrom: rate.effectiveFrom,
+    createdAt: rate.createdAt
+  };
+}
+
+// Rates must be sorted by effectiveFrom ascending
+export function percentAt(rates: CommissionRate[], date: Date) {
+  let percent: number | null = null;
+
+  for (const rate of rates) {
+    if (rate.effectiveFrom > date) {
+      break;
+    }
+
+    percent = rate.percent;
+  }
+
+  return percent;
+}
+
+export async function loadCommissionRates(userIds: string[]) {
+  const rates = await prisma.commissionRate.findMany({
+    where: { userId: { in: userIds } },
+    orderBy: [{ effectiveFrom: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const byUser = new Map<string, CommissionRate[]>(userIds.map((id) => [id, []]));
+
+  for (const rate of rates) {
+    byUser.get(rate.userId)?.push(rate);
+  }
+
+  return byUser;
+}
+
+/**
+ * Records a percent starting at effectiveFrom and keeps User.commissionPercent equal to the
+ * percent in effect right now. A rate with the same start date is replaced. Runs in the caller's
+ * transaction, so the history changes together with the rest of the user.
+ */
+export async function setCommissionPercent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  percent: number | null,
+  effectiveFrom: Date,
+  createdBy: string | null
+) {
+  await tx.commissionRate.deleteMany({
+    where: { userId, effectiveFrom }
+  });
+
+  await tx.commissionRate.create({
+    data: { userId, percent, effectiveFrom, createdBy }
+  });
+
+  const rates = await tx.commissionRate.findMany({
+    where: { userId },
+    orderBy: [{ effectiveFrom: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  return tx.user.update({
+    where: { id: userId },
+    data: { commissionPercent: percentAt(rates, new Date()) }
+  });
+}
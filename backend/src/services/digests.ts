@@ -0,0 +1,295 @@
+import { z } from 'zod';
+
+import { getBot } from '../bot';
+import { prisma } from '../prisma';
+import { zonedParts, zonedTime } from '../utils/dateRange';
+import { displayName, formatAmount } from '../utils/format';
+import { buildChecksSummary } from './checksSummary';
+import type { SummaryStats } from './checksSummary';
+import { hasPermission } from './permissions';
+import { roundAmount } from './salary';
+import { getSetting, saveSetting } from './settings';
+import { getHostelTimeZone } from './timeZone';
+
+const DIGEST_SETTINGS_KEY = 'digest';
+const DIGEST_STATE_KEY = 'digestState';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// A digest missed while the server was down is still sent if it restarts within this window
+const CATCH_UP_MS = 2 * 60 * 60 * 1000;
+// Telegram rejects messages longer than 4096 characters
+const MAX_MESSAGE_LENGTH = 4000;
+
+export const digestKindSchema = z.enum(['daily', 'weekly']);
+
+export type DigestKind = z.infer<typeof digestKindSchema>;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Укажите время в формате ЧЧ:ММ');
+
+export const digestSettingsSchema = z.object({
+  daily: z.object({
+    enabled: z.boolean(),
+    time: timeSchema
+  }),
+  weekly: z.object({
+    enabled: z.boolean(),
+    // 0 is Sunday, as in Date#getDay
+    weekday: z.number().int().min(0).max(6),
+    time: timeSchema
+  }),
+  sendToAdmins: z.boolean(),
+  groupChatId: z
+    .string()
+    .trim()
+    .max(64, 'Слишком длинный chat_id')
+    .nullable()
+    .transform((value) => value || null),
+  topCount: z
+    .number()
+    .int()
+    .min(1, 'Не меньше 1 сотрудника в топе')
+    .max(10, 'Не больше 10 сотрудников в топе')
+});
+
+export type DigestSettings = z.infer<typeof digestSettingsSchema>;
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  daily: { enabled: false, time: '21:00' },
+  weekly: { enabled: false, weekday: 0, time: '21:00' },
+  sendToAdmins: true,
+  groupChatId: null,
+  topCount: 3
+};
+
+const digestStateSchema = z.record(digestKindSchema, z.string().datetime());
+
+const DIGEST_TITLES: Record<DigestKind, string> = {
+  daily: 'Отчёт за день',
+  weekly: 'Отчёт за неделю'
+};
+
+// The period a digest is about; totals for the other periods are listed for context
+const DIGEST_PERIODS: Record<DigestKind, 'day' | 'week'> = {
+  daily: 'day',
+  weekly: 'week'
+};
+
+const PERIOD_LABELS = {
+  day: 'Сегодня',
+  week: 'Неделя',
+  month: 'Месяц'
+} as const;
+
+export function getDigestSettings() {
+  return getSetting(DIGEST_SETTINGS_KEY, digestSettingsSchema, DEFAULT_DIGEST_SETTINGS);
+}
+
+export function saveDigestSettings(settings: DigestSettings, updatedBy: string | null) {
+  return saveSetting(DIGEST_SETTINGS_KEY, settings, updatedBy);
+}
+
+function periodTotals(stats: SummaryStats[]) {
+  return {
+    count: stats.reduce((sum, item) => sum + item.count, 0),
+    total: roundAmount(stats.reduce((sum, item) => sum + item.total, 0)),
+    salary: roundAmount(stats.reduce((sum, item) => sum + (item.salary ?? 0), 0))
+  };
+}
+
+/**
+ * Builds the digest from the same aggregation as the admin summary matrix: totals for the day,
+ * week and month, top performers and who had no checks in the digest period, then per-user lines.
+ * Salary totals are added only for recipients allowed to see them.
+ */
+export async function buildDigestText(kind: DigestKind, topCount: number, withSalaries: boolean) {
+  const timeZone = await getHostelTimeZone();
+  const [summary, blocked] = await Promise.all([
+    buildChecksSummary({}, timeZone),
+    prisma.user.findMany({ where: { isBlocked: true }, select: { id: true } })
+  ]);
+  const blockedIds = new Set(blocked.map((user) => user.id));
+  const rows = summary.users.filter((row) => !blockedIds.has(row.user.id));
+  const focus = DIGEST_PERIODS[kind];
+
+  const date = new Intl.DateTimeFormat('ru-RU', {
+    timeZone,
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  }).format(summary.generatedAt);
+
+  const lines = [`${DIGEST_TITLES[kind]} · ${date}`, ''];
+
+  (['day', 'week', 'month'] as const).forEach((period) => {
+    const totals = periodTotals(rows.map((row) => row[period]));
+    const salary = withSalaries ? `, зарплата ${formatAmount(totals.salary)}` : '';
+    lines.push(
+      `${PERIOD_LABELS[period]}: ${totals.count} чек. на ${formatAmount(totals.total)}${salary}`
+    );
+  });
+
+  const top = rows
+    .filter((row) => row[focus].count > 0)
+    .sort((left, right) => right[focus].total - left[focus].total)
+    .slice(0, topCount);
+
+  lines.push('', `Лучшие (${PERIOD_LABELS[focus].toLowerCase()}):`);
+  lines.push(
+    ...(top.length > 0
+      ? top.map(
+          (row, index) =>
+            `${index + 1}. ${displayName(row.user)} — ${formatAmount(row[focus].total)} (${row[focus].count})`
+        )
+      : ['Чеков не было.'])
+  );
+
+  const idle = rows.filter((row) => row[focus].count === 0);
+
+  if (idle.length > 0) {
+    lines.push('', `Без чеков: ${idle.map((row) => displayName(row.user)).join(', ')}`);
+  }
+
+  const active = rows.filter((row) => row.month.count > 0);
+
+  if (active.length > 0) {
+    lines.push('', 'По сотрудникам (день / неделя / месяц):');
+    active.forEach((row) => {
+      lines.push(
+        `${displayName(row.user)}: ${formatAmount(row.day.total)} / ${formatAmount(row.week.total)} / ` +
+          formatAmount(row.month.total)
+      );
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// Splits on line breaks so a long per-user list arrives as several messages
+function splitMessage(text: string) {
+  const chunks: string[] = [];
+  let current = '';
+
+  text.split('\n').forEach((line) => {
+    if (current && current.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+
+    current = current ? `${current}\n${line}` : line;
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// The group chat is read by all staff, so it gets the digest without salaries
+async function digestRecipients(settings: DigestSettings) {
+  const admins = settings.sendToAdmins
+    ? await prisma.admin.findMany({ select: { telegramId: true, role: true } })
+    : [];
+
+  // The digest lists volumes and salaries, so only roles that see checks receive it
+  const adminChatIds = admins
+    .filter((admin) => hasPermission(admin, 'checks.view'))
+    .map((admin) => admin.telegramId);
+  const groupChatIds = settings.groupChatId ? [settings.groupChatId] : [];
+
+  return [
+    { chatIds: adminChatIds, withSalaries: true },
+    { chatIds: groupChatIds, withSalaries: false }
+  ].filter((group) => group.chatIds.length > 0);
+}
+
+/**
+ * Sends the digest to every configured chat. A chat that fails (for example an admin who never
+ * started the bot) is logged and counted, the rest still receive the report.
+ */
+export async function sendDigest(kind: DigestKind, settings?: DigestSettings) {
+  const activeSettings = settings ?? (await getDigestSettings()).value;
+  const groups = await digestRecipients(activeSettings);
+  const bot = getBot();
+  let recipients = 0;
+  let sent = 0;
+  let failed = 0;
+
+  for (const { chatIds, withSalaries } of groups) {
+    const chunks = splitMessage(await buildDigestText(kind, activeSettings.topCount, withSalaries));
+    recipients += chatIds.length;
+
+    for (const chatId of chatIds) {
+      try {
+        for (const chunk of chunks) {
+          await bot.sendMessage(chatId, chunk);
+        }
+        sent += 1;
+      } catch (error) {
+        failed += 1;
+        console.error('Failed to send digest to chat', chatId, error);
+      }
+    }
+  }
+
+  return { recipients, sent, failed };
+}
+
+// Scheduled moment of the digest on the current day in the hostel zone, if it is due today
+function scheduledAt(kind: DigestKind, settings: DigestSettings, now: Date, timeZone: string) {
+  const schedule = settings[kind];
+  const today = zonedParts(now, timeZone);
+
+  if (!schedule.enabled || (kind === 'weekly' && settings.weekly.weekday !== today.weekday)) {
+    return null;
+  }
+
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  return zonedTime(timeZone, today.year, today.month, today.day, hours, minutes);
+}
+
+async function runDueDigests() {
+  const [{ value: settings }, { value: state }, timeZone] = await Promise.all([
+    getDigestSettings(),
+    getSetting(DIGEST_STATE_KEY, digestStateSchema, {}),
+    getHostelTimeZone()
+  ]);
+  const now = new Date();
+
+  for (const kind of digestKindSchema.options) {
+    const dueAt = scheduledAt(kind, settings, now, timeZone);
+    const lastSent = state[kind] ? new Date(state[kind]!) : null;
+
+    if (!dueAt || now < dueAt || now.getTime() - dueAt.getTime() > CATCH_UP_MS) {
+      continue;
+    }
+
+    if (lastSent && lastSent >= dueAt) {
+      continue;
+    }
+
+    // Recorded before sending so a chat that keeps failing doesn't get retried every minute
+    state[kind] = now.toISOString();
+    await saveSetting(DIGEST_STATE_KEY, state, null);
+    await sendDigest(kind, settings);
+  }
+}
+
+export function startDigestScheduler() {
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    runDueDigests()
+      .catch((error) => console.error('Failed to run scheduled digests', error))
+      .finally(() => {
+        running = false;
+      });
+  }, SCHEDULER_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
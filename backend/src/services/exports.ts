@@ -0,0 +1,90 @@
+import ExcelJS from 'exceljs';
+import type { Response } from 'express';
+import { z } from 'zod';
+
+export const exportFormatSchema = z.enum(['csv', 'xlsx']).default('csv');
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+  sheetName: string;
+  columns: { header: string; width?: number; numFmt?: string }[];
+  rows: ExportCell[][];
+}
+
+export const MONEY_FORMAT = '#,##0.00';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+function csvCell(value: ExportCell) {
+  if (value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The BOM makes Excel open the UTF-8 file with Cyrillic intact
+export function toCsv(table: ExportTable) {
+  const lines = [table.columns.map((column) => column.header), ...table.rows].map((row) =>
+    row.map(csvCell).join(',')
+  );
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function toXlsx(table: ExportTable) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(table.sheetName);
+
+  sheet.columns = table.columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? 16,
+    style: column.numFmt ? { numFmt: column.numFmt } : {}
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.addRows(table.rows);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export async function sendExport(
+  res: Response,
+  table: ExportTable,
+  format: ExportFormat,
+  filename: string
+) {
+  const body = format === 'xlsx' ? await toXlsx(table) : toCsv(table);
+
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.send(body);
+}
+
+const exportDateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// YYYY-MM-DD HH:mm in the given zone, which both Excel and LibreOffice read as a date
+export function formatExportDate(date: Date, timeZone: string) {
+  let formatter = exportDateFormatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('sv-SE', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    exportDateFormatters.set(timeZone, formatter);
+  }
+
+  return formatter.format(date);
+}
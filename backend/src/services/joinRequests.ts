@@ -0,0 +1,182 @@
+import type { JoinRequestStatus, ManagedChat, User } from '@prisma/client';
+import type { ChatJoinRequest } from 'node-telegram-bot-api';
+
+import { getBot } from '../bot';
+import { prisma } from '../prisma';
+import { displayName } from '../utils/format';
+import { trackMembership, upsertChatUser } from './chats';
+import { approveJoinInChat, declineJoinInChat, notifyUser } from './moderation';
+import { hasPermission } from './permissions';
+
+export const JOIN_CALLBACK_PREFIX = 'join:';
+
+const MAX_LISTED_REQUESTS = 100;
+
+export type JoinDecision = 'approve' | 'decline';
+
+export type JoinDecisionOutcome =
+  | { ok: true; joinRequest: NonNullable<Awaited<ReturnType<typeof findJoinRequest>>> }
+  | { ok: false; error: 'not_found' | 'decided' | 'telegram' };
+
+function chatName(chat: ManagedChat) {
+  return chat.title ? `«${chat.title}»` : chat.telegramChatId;
+}
+
+function findJoinRequest(id: string) {
+  return prisma.joinRequest.findUnique({ where: { id }, include: { user: true, chat: true } });
+}
+
+async function moderators() {
+  const admins = await prisma.admin.findMany({ select: { telegramId: true, role: true } });
+  return admins.filter((admin) => hasPermission(admin, 'users.moderate'));
+}
+
+export function joinRequestText(user: User, chat: ManagedChat, bio: string | null) {
+  const lines = [
+    `Заявка в чат ${chatName(chat)}: ${displayName(user)}`,
+    `${user.username ? `@${user.username}, ` : ''}ID ${user.telegramId}`
+  ];
+
+  if (bio) {
+    lines.push(`О себе: ${bio}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Every admin who moderates gets the request with buttons; whoever answers first decides
+async function notifyReviewers(id: string, user: User, chat: ManagedChat, bio: string | null) {
+  const bot = getBot();
+  const text = joinRequestText(user, chat, bio);
+  const keyboard = {
+    inline_keyboard: [
+      [
+        { text: 'Одобрить', callback_data: `${JOIN_CALLBACK_PREFIX}approve:${id}` },
+        { text: 'Отклонить', callback_data: `${JOIN_CALLBACK_PREFIX}decline:${id}` }
+      ]
+    ]
+  };
+
+  for (const admin of await moderators()) {
+    await bot
+      .sendMessage(Number(admin.telegramId), text, { reply_markup: keyboard })
+      .catch((error) =>
+        console.error('Failed to send join request to admin', admin.telegramId, error)
+      );
+  }
+}
+
+/**
+ * Stores a chat_join_request as a pending request and asks the moderators to decide. Someone
+ * unknown so far becomes a pending user, kept out of the WebApp until a request is approved.
+ * A blocked user or one banned in this chat is declined right away and only the moderators hear
+ * of it.
+ */
+export async function receiveJoinRequest(chat: ManagedChat, request: ChatJoinRequest) {
+  const user = await upsertChatUser(request.from, chat.telegramChatId, { pending: true });
+  const bio = request.bio?.trim() || null;
+  const membership = await prisma.chatMembership.findUnique({
+    where: { userId_chatId: { userId: user.id, chatId: chat.id } }
+  });
+
+  if (user.isBlocked || membership?.isBanned) {
+    try {
+      await declineJoinInChat(chat.telegramChatId, user.telegramId);
+    } catch (error) {
+      console.error('Failed to decline join request of blocked user', user.telegramId, error);
+    }
+
+    const joinRequest = await prisma.joinRequest.create({
+      data: { userId: user.id, chatId: chat.id, status: 'declined', bio, decidedAt: new Date() }
+    });
+
+    const notice =
+      `Заявка ${displayName(user)} в чат ${chatName(chat)} отклонена: ` +
+      'пользователь заблокирован.';
+    await Promise.all((await moderators()).map((admin) => notifyUser(admin.telegramId, notice)));
+
+    return joinRequest;
+  }
+
+  // Telegram repeats a request the user sends again, so the pending one is reused
+  const pending = await prisma.joinRequest.findFirst({
+    where: { userId: user.id, chatId: chat.id, status: 'pending' }
+  });
+  const joinRequest = pending
+    ? await prisma.joinRequest.update({ where: { id: pending.id }, data: { bio } })
+    : await prisma.joinRequest.create({ data: { userId: user.id, chatId: chat.id, bio } });
+
+  await notifyReviewers(joinRequest.id, user, chat, bio);
+
+  return joinRequest;
+}
+
+export function listJoinRequests(status: JoinRequestStatus) {
+  return prisma.joinRequest.findMany({
+    where: { status },
+    include: { user: true, chat: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_LISTED_REQUESTS
+  });
+}
+
+// Telegram rejects a decision on a request that expired or was handled in the chat itself
+export async function decideJoinRequest(
+  id: string,
+  decision: JoinDecision,
+  actorTelegramId: string
+): Promise<JoinDecisionOutcome> {
+  const request = await findJoinRequest(id);
+
+  if (!request) {
+    return { ok: false, error: 'not_found' };
+  }
+
+  // The decision is claimed before Telegram hears of it, so a concurrent one from the bot or the
+  // dashboard finds the request decided
+  const claimed = await prisma.joinRequest.updateMany({
+    where: { id, status: 'pending' },
+    data: {
+      status: decision === 'approve' ? 'approved' : 'declined',
+      decidedByTelegramId: actorTelegramId,
+      decidedAt: new Date()
+    }
+  });
+
+  if (claimed.count === 0) {
+    return { ok: false, error: 'decided' };
+  }
+
+  try {
+    if (decision === 'approve') {
+      await approveJoinInChat(request.chat.telegramChatId, request.user.telegramId);
+    } else {
+      await declineJoinInChat(request.chat.telegramChatId, request.user.telegramId);
+    }
+  } catch (error) {
+    await prisma.joinRequest.update({
+      where: { id },
+      data: { status: 'pending', decidedByTelegramId: null, decidedAt: null }
+    });
+    return { ok: false, error: 'telegram' };
+  }
+
+  if (decision === 'approve') {
+    await prisma.user.update({ where: { id: request.userId }, data: { isPending: false } });
+    await trackMembership(request.userId, request.chat);
+  }
+
+  const joinRequest = await prisma.joinRequest.findUniqueOrThrow({
+    where: { id },
+    include: { user: true, chat: true }
+  });
+
+  await notifyUser(
+    joinRequest.user.telegramId,
+    decision === 'approve'
+      ? `Ваша заявка в чат ${chatName(joinRequest.chat)} одобрена.`
+      : `Ваша заявка в чат ${chatName(joinRequest.chat)} отклонена.`
+  );
+
+  return { ok: true, joinRequest };
+}
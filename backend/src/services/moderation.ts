@@ -0,0 +1,422 @@
+import type { ChatMembership, ManagedChat, ModerationAction, User } from '@prisma/client';
+
+import { getBot } from '../bot';
+import { prisma } from '../prisma';
+
+const MAX_CHAT_ACTION_ATTEMPTS = 3;
+const MAX_ERROR_LENGTH = 500;
+
+export interface ModerationEventInput {
+  userId: string;
+  action: ModerationAction;
+  actorTelegramId: string | null;
+  chatId?: string | null;
+  reason?: string | null;
+  durationMinutes?: number | null;
+  until?: Date | null;
+  // Left out when the action didn't touch the chat
+  telegramOk?: boolean;
+  telegramError?: unknown;
+}
+
+async function withTelegramAction<T>(action: () => Promise<T>) {
+  for (let attempt = 1; attempt <= MAX_CHAT_ACTION_ATTEMPTS; attempt++) {
+    try {
+      return await action();
+    } catch (error) {
+      if (attempt === MAX_CHAT_ACTION_ATTEMPTS) {
+        console.error('Telegram API action failed', error);
+        throw error;
+      }
+    }
+  }
+}
+
+export async function muteInChat({
+  chatId,
+  telegramId,
+  until
+}: {
+  chatId: string;
+  telegramId: string;
+  until: Date;
+}) {
+  const bot = getBot();
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for mute');
+  }
+
+  const untilDate = Math.floor(until.getTime() / 1000);
+
+  await withTelegramAction(() =>
+    bot.restrictChatMember(chatId, userId, {
+      permissions: {
+        can_send_messages: false,
+        can_send_media_messages: false,
+        can_send_other_messages: false,
+        can_add_web_page_previews: false
+      },
+      until_date: untilDate
+    })
+  );
+}
+
+export async function unmuteInChat(chatId: string, telegramId: string) {
+  const bot = getBot();
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for unmute');
+  }
+
+  await withTelegramAction(() =>
+    bot.restrictChatMember(chatId, userId, {
+      permissions: {
+        can_send_messages: true,
+        can_send_media_messages: true,
+        can_send_other_messages: true,
+        can_add_web_page_previews: true
+      }
+    })
+  );
+}
+
+export async function blockInChat(chatId: string, telegramId: string) {
+  const bot = getBot();
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for block');
+  }
+
+  await withTelegramAction(() =>
+    bot.banChatMember(chatId, userId, {
+      revoke_messages: true
+    })
+  );
+}
+
+export async function unblockInChat(chatId: string, telegramId: string) {
+  const bot = getBot();
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for unblock');
+  }
+
+  await withTelegramAction(() =>
+    bot.unbanChatMember(chatId, userId, {
+      only_if_banned: true
+    })
+  );
+}
+
+export async function approveJoinInChat(chatId: string, telegramId: string) {
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for join approval');
+  }
+
+  await withTelegramAction(() => getBot().approveChatJoinRequest(chatId, userId));
+}
+
+export async function declineJoinInChat(chatId: string, telegramId: string) {
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for join decline');
+  }
+
+  await withTelegramAction(() => getBot().declineChatJoinRequest(chatId, userId));
+}
+
+export async function getChatMember(chatId: string, telegramId: string) {
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    throw new Error('Invalid telegramId for getChatMember');
+  }
+
+  return withTelegramAction(() => getBot().getChatMember(chatId, userId));
+}
+
+export async function notifyUser(telegramId: string, message: string) {
+  const bot = getBot();
+  const userId = Number(telegramId);
+
+  if (Number.isNaN(userId)) {
+    return;
+  }
+
+  try {
+    await bot.sendMessage(userId, message);
+  } catch (error) {
+    console.error('Failed to send notification to user', telegramId, error);
+  }
+}
+
+function describeTelegramError(error: unknown) {
+  if (error === undefined || error === null) {
+    return null;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+/**
+ * Adds a sanction or its lifting to the user's moderation history, including failed Telegram
+ * calls. Like the audit log, a failed write is only logged so it never masks the action itself.
+ */
+export async function recordModerationEvent(event: ModerationEventInput) {
+  try {
+    await prisma.moderationEvent.create({
+      data: {
+        userId: event.userId,
+        action: event.action,
+        actorTelegramId: event.actorTelegramId,
+        chatId: event.chatId ?? null,
+        reason: event.reason ?? null,
+        durationMinutes: event.durationMinutes ?? null,
+        until: event.until ?? null,
+        telegramOk: event.telegramOk ?? null,
+        telegramError: describeTelegramError(event.telegramError)
+      }
+    });
+  } catch (error) {
+    console.error('Failed to record moderation event', event.action, event.userId, error);
+  }
+}
+
+// Newest first, with the admin display name of whoever acted
+export async function listModerationEvents(userId: string) {
+  const events = await prisma.moderationEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  const actorIds = Array.from(
+    new Set(events.map((event) => event.actorTelegramId).filter((id): id is string => Boolean(id)))
+  );
+  const admins = await prisma.admin.findMany({
+    where: { telegramId: { in: actorIds } },
+    select: { telegramId: true, displayName: true }
+  });
+  const names = new Map(
+    admins.map((admin) => [admin.telegramId, admin.displayName?.trim() || null] as const)
+  );
+
+  return events.map((event) => ({
+    ...event,
+    actorName: event.actorTelegramId ? names.get(event.actorTelegramId) ?? null : null
+  }));
+}
+
+interface ModerationRequest {
+  actorTelegramId: string | null;
+  chats: ManagedChat[];
+  reason?: string | null;
+}
+
+export interface ChatActionResult {
+  chatId: string;
+  title: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+// `ok` is false only when every targeted chat failed; the user is left as it was then
+export interface ModerationOutcome {
+  ok: boolean;
+  user: User;
+  results: ChatActionResult[];
+}
+
+// Latest restriction across the user's chats, mirrored into User.mutedUntil
+async function latestMute(userId: string) {
+  const membership = await prisma.chatMembership.findFirst({
+    where: { userId, mutedUntil: { gt: new Date() } },
+    orderBy: { mutedUntil: 'desc' }
+  });
+
+  return membership?.mutedUntil ?? null;
+}
+
+export async function syncUserMute(userId: string) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { mutedUntil: await latestMute(userId) }
+  });
+}
+
+type MembershipChange = Partial<Pick<ChatMembership, 'mutedUntil' | 'isBanned' | 'banReason'>>;
+
+/**
+ * Bans are stored per chat, and a ban in any managed chat closes the WebApp as a block did before
+ * chats were managed separately. The newest ban gives the reason shown there.
+ */
+async function aggregateBlock(userId: string) {
+  const ban = await prisma.chatMembership.findFirst({
+    where: { userId, isBanned: true },
+    orderBy: { updatedAt: 'desc' },
+    select: { banReason: true }
+  });
+
+  return { isBlocked: Boolean(ban), blockReason: ban?.banReason ?? null };
+}
+
+export async function syncUserBlock(userId: string) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: await aggregateBlock(userId)
+  });
+}
+
+// Runs the chat call in every targeted chat and records one event per chat. Chats where the
+// call failed only land in the history; `membership` is stored for the ones that succeeded.
+// Without any chat to act in, `data` is written to the user as is
+async function moderate(
+  user: User,
+  action: ModerationAction,
+  request: ModerationRequest & { durationMinutes?: number; until?: Date },
+  chatAction: (chatId: string) => Promise<unknown>,
+  data: Partial<Pick<User, 'isBlocked' | 'blockReason'>>,
+  membership?: MembershipChange
+): Promise<ModerationOutcome> {
+  const event: ModerationEventInput = {
+    userId: user.id,
+    action,
+    actorTelegramId: request.actorTelegramId,
+    reason: request.reason?.trim() || null,
+    durationMinutes: request.durationMinutes,
+    until: request.until
+  };
+  const results: ChatActionResult[] = [];
+
+  for (const chat of request.chats) {
+    const chatEvent = { ...event, chatId: chat.telegramChatId };
+
+    try {
+      await chatAction(chat.telegramChatId);
+    } catch (error) {
+      await recordModerationEvent({ ...chatEvent, telegramOk: false, telegramError: error });
+      results.push({
+        chatId: chat.telegramChatId,
+        title: chat.title,
+        ok: false,
+        error: describeTelegramError(error)
+      });
+      continue;
+    }
+
+    // A new row means the user was never seen in the chat, so it must not count them as a member
+    if (membership) {
+      await prisma.chatMembership.upsert({
+        where: { userId_chatId: { userId: user.id, chatId: chat.id } },
+        create: {
+          userId: user.id,
+          chatId: chat.id,
+          status: membership.isBanned ? 'kicked' : 'left',
+          ...membership
+        },
+        update: membership
+      });
+    }
+
+    await recordModerationEvent({ ...chatEvent, telegramOk: true });
+    results.push({ chatId: chat.telegramChatId, title: chat.title, ok: true, error: null });
+  }
+
+  if (request.chats.length > 0 && !results.some((result) => result.ok)) {
+    return { ok: false, user, results };
+  }
+
+  if (request.chats.length === 0) {
+    await recordModerationEvent(event);
+  }
+
+  const blockData =
+    request.chats.length === 0 ? data : 'isBlocked' in data ? await aggregateBlock(user.id) : {};
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { ...blockData, ...(membership ? { mutedUntil: await latestMute(user.id) } : {}) }
+  });
+
+  return { ok: true, user: updated, results };
+}
+
+export function applyMute(
+  user: User,
+  request: ModerationRequest & { until: Date; durationMinutes: number }
+) {
+  return moderate(
+    user,
+    'mute',
+    request,
+    (chatId) => muteInChat({ chatId, telegramId: user.telegramId, until: request.until }),
+    {},
+    { mutedUntil: request.until }
+  );
+}
+
+export function applyUnmute(user: User, request: ModerationRequest) {
+  return moderate(
+    user,
+    'unmute',
+    request,
+    (chatId) => unmuteInChat(chatId, user.telegramId),
+    {},
+    { mutedUntil: null }
+  );
+}
+
+function succeededChats(results: ChatActionResult[]) {
+  return results
+    .filter((result) => result.ok)
+    .map((result) => result.title ?? result.chatId)
+    .join(', ');
+}
+
+// A ban removes the user from the chat, so a mute there has nothing left to restrict
+export async function applyBlock(user: User, request: ModerationRequest) {
+  const reason = request.reason?.trim() || null;
+  const outcome = await moderate(
+    user,
+    'block',
+    request,
+    (chatId) => blockInChat(chatId, user.telegramId),
+    { isBlocked: true, blockReason: reason },
+    { mutedUntil: null, isBanned: true, banReason: reason }
+  );
+
+  if (outcome.ok) {
+    const where = outcome.results.length > 0 ? ` в чатах: ${succeededChats(outcome.results)}` : '';
+    await notifyUser(
+      user.telegramId,
+      `Вы были заблокированы${where}.${reason ? ` Причина: ${reason}` : ''}`
+    );
+  }
+
+  return outcome;
+}
+
+export async function applyUnblock(user: User, request: ModerationRequest) {
+  const outcome = await moderate(
+    user,
+    'unblock',
+    request,
+    (chatId) => unblockInChat(chatId, user.telegramId),
+    { isBlocked: false, blockReason: null },
+    { isBanned: false, banReason: null }
+  );
+
+  if (outcome.ok) {
+    const where = outcome.results.length > 0 ? ` в чатах: ${succeededChats(outcome.results)}` : '';
+    await notifyUser(user.telegramId, `Ваша блокировка снята${where}.`);
+  }
+
+  return outcome;
+}
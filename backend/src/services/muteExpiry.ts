@@ -0,0 +1,203 @@
+import type { ChatMembership, ManagedChat, User } from '@prisma/client';
+import type { ChatMember } from 'node-telegram-bot-api';
+
+import { prisma } from '../prisma';
+import { displayName } from '../utils/format';
+import {
+  getChatMember,
+  notifyUser,
+  recordModerationEvent,
+  syncUserMute,
+  unmuteInChat
+} from './moderation';
+import type { ModerationEventInput } from './moderation';
+import { hasPermission } from './permissions';
+
+const JOB_INTERVAL_MS = 60 * 1000;
+// Active mutes are compared with the chat less often, an admin lifting one in Telegram is rare
+const RECONCILE_EVERY_RUNS = 10;
+
+type TelegramOutcome = Pick<ModerationEventInput, 'telegramOk' | 'telegramError'>;
+
+type MutedMembership = ChatMembership & { user: User; chat: ManagedChat };
+
+function chatName(chat: ManagedChat) {
+  return chat.title ? `«${chat.title}»` : chat.telegramChatId;
+}
+
+// Restriction end in the chat: a date, `null` for no restriction, `Infinity` for a permanent one
+function restrictedUntil(member: ChatMember | null | undefined) {
+  if (!member || member.status !== 'restricted' || member.can_send_messages !== false) {
+    return null;
+  }
+
+  return member.until_date ? new Date(member.until_date * 1000) : Infinity;
+}
+
+async function readChatMember(membership: MutedMembership) {
+  try {
+    return await getChatMember(membership.chat.telegramChatId, membership.user.telegramId);
+  } catch (error) {
+    // Without chat access the stored mute can't be checked, so it is trusted as is
+    console.error(
+      'Failed to read chat member for mute reconciliation',
+      membership.chat.telegramChatId,
+      membership.user.telegramId,
+      error
+    );
+    return null;
+  }
+}
+
+async function notifyModerators(message: string) {
+  const admins = await prisma.admin.findMany({ select: { telegramId: true, role: true } });
+
+  await Promise.all(
+    admins
+      .filter((admin) => hasPermission(admin, 'users.moderate'))
+      .map((admin) => notifyUser(admin.telegramId, message))
+  );
+}
+
+async function endMute(
+  membership: MutedMembership,
+  reason: 'expired' | 'lifted',
+  telegram: TelegramOutcome = {}
+) {
+  const { user, chat } = membership;
+
+  await prisma.chatMembership.update({
+    where: { id: membership.id },
+    data: { mutedUntil: null }
+  });
+  await recordModerationEvent({
+    userId: user.id,
+    action: 'unmute',
+    actorTelegramId: null,
+    chatId: chat.telegramChatId,
+    reason: reason === 'expired' ? 'Срок мута истёк' : 'Снят в Telegram',
+    ...telegram
+  });
+
+  await notifyUser(
+    user.telegramId,
+    `Ограничение в чате ${chatName(chat)} снято, вы снова можете писать сообщения.`
+  );
+  await notifyModerators(
+    reason === 'expired'
+      ? `Мут пользователя ${displayName(user)} в чате ${chatName(chat)} закончился.`
+      : `Мут пользователя ${displayName(user)} в чате ${chatName(chat)} снят в Telegram, ` +
+          'статус в приложении обновлён.'
+  );
+}
+
+// The stored mute ran out: lift whatever is left in the chat unless Telegram was given a longer one
+async function expireMute(membership: MutedMembership, now: Date) {
+  const member = await readChatMember(membership);
+  const until = restrictedUntil(member);
+
+  if (until instanceof Date && until > now) {
+    await prisma.chatMembership.update({
+      where: { id: membership.id },
+      data: { mutedUntil: until }
+    });
+    return;
+  }
+
+  let telegram: TelegramOutcome = {};
+
+  if (until !== null) {
+    try {
+      await unmuteInChat(membership.chat.telegramChatId, membership.user.telegramId);
+      telegram = { telegramOk: true };
+    } catch (error) {
+      console.error('Failed to lift expired mute in chat', membership.user.telegramId, error);
+      telegram = { telegramOk: false, telegramError: error };
+    }
+  }
+
+  await endMute(membership, 'expired', telegram);
+}
+
+// The mute is still running here, but an admin may have lifted or changed it in the chat itself
+async function reconcileMute(membership: MutedMembership) {
+  const member = await readChatMember(membership);
+
+  if (!member) {
+    return;
+  }
+
+  const until = restrictedUntil(member);
+
+  if (until === null) {
+    await endMute(membership, 'lifted');
+  } else if (until instanceof Date && until.getTime() !== membership.mutedUntil?.getTime()) {
+    await prisma.chatMembership.update({
+      where: { id: membership.id },
+      data: { mutedUntil: until }
+    });
+  }
+}
+
+async function runMuteExpiry(reconcileActive: boolean) {
+  const now = new Date();
+  const muted = await prisma.chatMembership.findMany({
+    where: {
+      mutedUntil: reconcileActive ? { not: null } : { lte: now },
+      isBanned: false
+    },
+    include: { user: true, chat: true }
+  });
+  // Users whose own mutedUntil ran out are synced too, e.g. a mute stored without any chat
+  const stale = await prisma.user.findMany({
+    where: { mutedUntil: { lte: now } },
+    select: { id: true }
+  });
+  const touched = new Set(stale.map((user) => user.id));
+
+  for (const membership of muted) {
+    try {
+      if (membership.mutedUntil! <= now) {
+        await expireMute(membership, now);
+      } else {
+        await reconcileMute(membership);
+      }
+    } catch (error) {
+      console.error('Failed to process mute of user', membership.user.telegramId, error);
+    }
+
+    touched.add(membership.userId);
+  }
+
+  for (const userId of touched) {
+    await syncUserMute(userId).catch((error) =>
+      console.error('Failed to sync mute of user', userId, error)
+    );
+  }
+}
+
+/**
+ * Clears mutes once they pass and keeps them in line with each chat, so the admin list shows the
+ * real state even for users who never open the WebApp. The user and the admins who moderate are
+ * told when a mute in a chat ends.
+ */
+export function startMuteExpiryJob() {
+  let running = false;
+  let runs = 0;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    runs += 1;
+    runMuteExpiry(runs % RECONCILE_EVERY_RUNS === 0)
+      .catch((error) => console.error('Failed to run mute expiry job', error))
+      .finally(() => {
+        running = false;
+      });
+  }, JOB_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
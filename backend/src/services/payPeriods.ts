@@ -0,0 +1,218 @@
+import { Prisma } from '@prisma/client';
+import type { Check, PayPeriod, User } from '@prisma/client';
+
+import { prisma } from '../prisma';
+import { formatMonthInput, parseMonthInput } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
+import { computeSalaries } from './salary';
+import type { SalaryStats } from './salary';
+import { getSalaryRules } from './salaryRules';
+
+export interface PeriodSnapshotRow {
+  user: Pick<
+    User,
+    'id' | 'telegramId' | 'firstName' | 'lastName' | 'username' | 'commissionPercent' | 'isPartner'
+  >;
+  stats: SalaryStats;
+}
+
+export interface PeriodSnapshot {
+  generatedAt: string;
+  // Missing in snapshots taken before the fund rate was recorded
+  fundRatePercent?: number;
+  users: PeriodSnapshotRow[];
+}
+
+// The snapshot computes every user's salary, which takes longer than the default 5 seconds
+const CLOSE_TIMEOUT_MS = 30 * 1000;
+
+export const LOCKED_CHECK_ERROR = 'Период закрыт, исправления вносятся корректировкой';
+
+export function readSnapshot(period: PayPeriod) {
+  return period.snapshot as unknown as PeriodSnapshot;
+}
+
+export function serializePayPeriod(period: PayPeriod) {
+  const snapshot = readSnapshot(period);
+
+  return {
+    id: period.id,
+    start: period.start,
+    end: period.end,
+    closedAt: period.closedAt,
+    checks: snapshot.users.reduce((sum, row) => sum + row.stats.checks, 0),
+    amount: snapshot.users.reduce((sum, row) => sum + row.stats.amount, 0),
+    salary: snapshot.users.reduce((sum, row) => sum + (row.stats.salary ?? 0), 0)
+  };
+}
+
+export function snapshotStatsFor(snapshot: PeriodSnapshot, userId: string): SalaryStats {
+  const row = snapshot.users.find((item) => item.user.id === userId);
+
+  if (row) {
+    return row.stats;
+  }
+
+  // Users created after the period was closed had nothing in it
+  return {
+    amount: 0,
+    checks: 0,
+    salary: null,
+    percent: null,
+    partnerFromOwn: null,
+    partnerFromOthers: null,
+    totalChecks: snapshot.users[0]?.stats.totalChecks ?? 0,
+    formula: 'fund_share',
+    guaranteeTopUp: null
+  };
+}
+
+export async function buildPeriodSnapshot(
+  range: Required<DateRange>,
+  client: Prisma.TransactionClient = prisma
+): Promise<PeriodSnapshot> {
+  const users = await client.user.findMany({
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const { value: rules } = await getSalaryRules();
+  const salaries = await computeSalaries(users, range, rules, client);
+
+  const rows: PeriodSnapshotRow[] = users.map((user) => ({
+    user: {
+      id: user.id,
+      telegramId: user.telegramId,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      username: user.username,
+      commissionPercent: user.commissionPercent,
+      isPartner: user.isPartner
+    },
+    stats: salaries.get(user.id)!
+  }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    fundRatePercent: rules.fundRatePercent,
+    users: rows
+  };
+}
+
+/**
+ * Freezes the month unless checks in it still wait for review. The count, the snapshot and the
+ * period are one repeatable-read transaction, so the snapshot sees the checks exactly as the
+ * count did and a check approved in between can't be left out of it.
+ */
+export function closePayPeriod(month: string, range: Required<DateRange>, closedBy: string | null) {
+  return prisma.$transaction(
+    async (tx) => {
+      const pendingCount = await tx.check.count({
+        where: {
+          status: 'pending',
+          createdAt: { gte: range.start, lte: range.end }
+        }
+      });
+
+      if (pendingCount > 0) {
+        return { ok: false as const, pendingCount };
+      }
+
+      const snapshot = await buildPeriodSnapshot(range, tx);
+      const period = await tx.payPeriod.create({
+        data: {
+          month,
+          start: range.start,
+          end: range.end,
+          closedBy,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      return { ok: true as const, period };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: CLOSE_TIMEOUT_MS }
+  );
+}
+
+export function findClosedPeriods(range: DateRange = {}) {
+  return prisma.payPeriod.findMany({
+    where: {
+      ...(range.end ? { start: { lte: range.end } } : {}),
+      ...(range.start ? { end: { gte: range.start } } : {})
+    },
+    orderBy: { start: 'desc' }
+  });
+}
+
+export function isLockedAt(periods: PayPeriod[], date: Date) {
+  return periods.some((period) => period.start <= date && period.end >= date);
+}
+
+export async function isDateLocked(date: Date) {
+  const period = await prisma.payPeriod.findFirst({
+    where: {
+      start: { lte: date },
+      end: { gte: date }
+    },
+    select: { id: true }
+  });
+
+  return Boolean(period);
+}
+
+export function isCheckLocked(check: Pick<Check, 'createdAt'>) {
+  return isDateLocked(check.createdAt);
+}
+
+export function findPeriodByMonth(month: string) {
+  return prisma.payPeriod.findUnique({ where: { month } });
+}
+
+/**
+ * The closed period a range stands for, when the range is exactly a calendar month in the zone.
+ * Periods are looked up by month rather than by bounds: after the hostel time zone changes the
+ * stored bounds are a few hours off the month computed now, but the month is the same.
+ */
+export async function findPeriodFor(range: Required<DateRange>, timeZone: string) {
+  const month = formatMonthInput(range.start, timeZone);
+  const monthRange = parseMonthInput(month, timeZone);
+
+  if (
+    !monthRange ||
+    monthRange.start.getTime() !== range.start.getTime() ||
+    monthRange.end.getTime() !== range.end.getTime()
+  ) {
+    return null;
+  }
+
+  return findPeriodByMonth(month);
+}
+
+// Summaries are served from the snapshot only when the requested range is a closed period
+export async function findPeriodSnapshot(range: Required<DateRange>, timeZone: string) {
+  const period = await findPeriodFor(range, timeZone);
+
+  return period ? readSnapshot(period) : null;
+}
+
+/**
+ * Trims a month range to the gaps between its closed neighbours. Months closed before a time
+ * zone change overlap the new boundaries by a few hours, and periods must not share checks.
+ */
+export async function trimToOpenRange(range: Required<DateRange>) {
+  const [previous, next] = await Promise.all([
+    prisma.payPeriod.findFirst({
+      where: { start: { lt: range.start }, end: { gte: range.start } },
+      orderBy: { end: 'desc' }
+    }),
+    prisma.payPeriod.findFirst({
+      where: { start: { lte: range.end }, end: { gt: range.end } },
+      orderBy: { start: 'asc' }
+    })
+  ]);
+
+  return {
+    start: previous ? new Date(previous.end.getTime() + 1) : range.start,
+    end: next ? new Date(next.start.getTime() - 1) : range.end
+  };
+}
@@ -0,0 +1,131 @@
+import type { PayPeriod, Payout, PayoutBatch, PayoutNetwork, User } from '@prisma/client';
+
+import { prisma } from '../prisma';
+import { adjustmentTotals } from './adjustments';
+import { checkUserSelect, toDecimal } from './checks';
+import { readSnapshot } from './payPeriods';
+import { roundAmount } from './salary';
+
+export const payoutInclude = {
+  user: { select: checkUserSelect }
+};
+
+export function serializePayout(payout: Payout & { user?: Pick<User, keyof typeof checkUserSelect> }) {
+  return {
+    id: payout.id,
+    batchId: payout.batchId,
+    userId: payout.userId,
+    user: payout.user,
+    periodStart: payout.periodStart,
+    periodEnd: payout.periodEnd,
+    amount: payout.amount.toNumber(),
+    network: payout.network,
+    wallet: payout.wallet,
+    txHash: payout.txHash,
+    status: payout.status,
+    paidAt: payout.paidAt,
+    createdAt: payout.createdAt
+  };
+}
+
+export function serializePayoutBatch(batch: PayoutBatch & { payouts: Parameters<typeof serializePayout>[0][] }) {
+  const payouts = batch.payouts.map(serializePayout);
+  const active = payouts.filter((payout) => payout.status !== 'cancelled');
+
+  return {
+    id: batch.id,
+    periodStart: batch.periodStart,
+    periodEnd: batch.periodEnd,
+    createdAt: batch.createdAt,
+    total: roundAmount(active.reduce((sum, payout) => sum + payout.amount, 0)),
+    paid: roundAmount(
+      active.filter((payout) => payout.status === 'paid').reduce((sum, payout) => sum + payout.amount, 0)
+    ),
+    payouts
+  };
+}
+
+// The wallet is copied into the payout so later profile edits don't change where it was sent
+function pickWallet(user: Pick<User, 'payoutUsdtTrc20' | 'payoutUsdtBep20'>): {
+  network: PayoutNetwork | null;
+  wallet: string | null;
+} {
+  if (user.payoutUsdtTrc20) {
+    return { network: 'trc20', wallet: user.payoutUsdtTrc20 };
+  }
+
+  if (user.payoutUsdtBep20) {
+    return { network: 'bep20', wallet: user.payoutUsdtBep20 };
+  }
+
+  return { network: null, wallet: null };
+}
+
+/**
+ * Creates a batch for a closed period with one pending payout per user that has something to be paid.
+ * Amounts are the snapshot salary plus the period's adjustments. Returns null when nobody is owed anything.
+ */
+export async function generatePayoutBatch(period: PayPeriod, createdBy: string | null) {
+  const adjustments = await adjustmentTotals({ start: period.start, end: period.end });
+  const amounts = new Map<string, number>();
+
+  readSnapshot(period).users.forEach((row) => {
+    amounts.set(row.user.id, row.stats.salary ?? 0);
+  });
+
+  adjustments.forEach((total, userId) => {
+    amounts.set(userId, (amounts.get(userId) ?? 0) + total);
+  });
+
+  const owed = Array.from(amounts.entries())
+    .map(([userId, amount]) => ({ userId, amount: roundAmount(amount) }))
+    .filter((entry) => entry.amount > 0);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: owed.map((entry) => entry.userId) } }
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  const items = owed.flatMap((entry) => {
+    const user = usersById.get(entry.userId);
+
+    if (!user) {
+      return [];
+    }
+
+    return [
+      {
+        userId: user.id,
+        periodStart: period.start,
+        periodEnd: period.end,
+        amount: toDecimal(entry.amount),
+        ...pickWallet(user)
+      }
+    ];
+  });
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return prisma.payoutBatch.create({
+    data: {
+      periodStart: period.start,
+      periodEnd: period.end,
+      createdBy,
+      payouts: { create: items }
+    },
+    include: {
+      payouts: { include: payoutInclude, orderBy: { createdAt: 'asc' } }
+    }
+  });
+}
+
+export async function getOutstandingBalance(userId: string) {
+  const aggregate = await prisma.payout.aggregate({
+    where: { userId, status: 'pending' },
+    _sum: { amount: true }
+  });
+
+  return aggregate._sum.amount ? aggregate._sum.amount.toNumber() : 0;
+}
@@ -0,0 +1,304 @@
+import type { PayoutStatus, SalaryAdjustmentType, User } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+import { formatMonthInput, parseMonthInput } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
+import { formatAmount } from '../utils/format';
+import { summarizeAdjustments } from './adjustments';
+import { formatExportDate } from './exports';
+import { serializePayout } from './payouts';
+import { findPeriodByMonth, readSnapshot, snapshotStatsFor } from './payPeriods';
+import { computeUserSalary, roundAmount } from './salary';
+import type { SalaryStats } from './salary';
+import { getSalaryRules } from './salaryRules';
+import type { SalaryFormula } from './salaryRules';
+import { getHostelTimeZone } from './timeZone';
+
+export const payslipMonthSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}$/, 'Укажите месяц в формате ГГГГ-ММ');
+
+// DejaVu ships Cyrillic glyphs, the built-in PDF fonts do not
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+const PAGE_MARGIN = 48;
+
+const FORMULA_LABELS: Record<SalaryFormula, string> = {
+  fund_share: 'Доля общего фонда',
+  own_fund_share: 'Доля фонда со своих чеков',
+  own_volume: 'Процент от своих чеков'
+};
+
+const ADJUSTMENT_TYPE_LABELS: Record<SalaryAdjustmentType, string> = {
+  bonus: 'Премия',
+  penalty: 'Штраф',
+  advance: 'Аванс',
+  correction: 'Корректировка'
+};
+
+const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: 'К выплате',
+  paid: 'Выплачено',
+  cancelled: 'Отменено'
+};
+
+export interface Payslip {
+  user: User;
+  month: string;
+  range: Required<DateRange>;
+  timeZone: string;
+  closed: boolean;
+  fundRatePercent: number;
+  stats: SalaryStats;
+  checks: { createdAt: Date; amount: number; note: string | null }[];
+  adjustments: Awaited<ReturnType<typeof summarizeAdjustments>>;
+  payable: number;
+  payouts: ReturnType<typeof serializePayout>[];
+}
+
+export function currentPayslipMonth(timeZone: string, reference = new Date()) {
+  return formatMonthInput(reference, timeZone);
+}
+
+/**
+ * Collects everything printed on a payslip. Closed months use the salary and fund rate frozen in
+ * the period snapshot and keep the bounds it was closed with, open months are computed from the
+ * current rules and marked as preliminary.
+ */
+export async function buildPayslip(user: User, month: string): Promise<Payslip | null> {
+  const timeZone = await getHostelTimeZone();
+  const period = await findPeriodByMonth(month);
+  const range = period
+    ? { start: period.start, end: period.end }
+    : parseMonthInput(month, timeZone);
+
+  if (!range) {
+    return null;
+  }
+
+  const snapshot = period ? readSnapshot(period) : null;
+  const [rules, checks, adjustments, payouts] = await Promise.all([
+    getSalaryRules(),
+    prisma.check.findMany({
+      where: {
+        userId: user.id,
+        status: 'approved',
+        createdAt: { gte: range.start, lte: range.end }
+      },
+      select: { createdAt: true, amount: true, note: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+    summarizeAdjustments(user.id, range),
+    prisma.payout.findMany({
+      where: { userId: user.id, periodStart: range.start },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  const stats = snapshot ? snapshotStatsFor(snapshot, user.id) : await computeUserSalary(user, range);
+
+  return {
+    user,
+    month,
+    range,
+    timeZone,
+    closed: Boolean(snapshot),
+    fundRatePercent: snapshot?.fundRatePercent ?? rules.value.fundRatePercent,
+    stats,
+    checks: checks.map((check) => ({ ...check, amount: check.amount.toNumber() })),
+    adjustments,
+    payable: roundAmount((stats.salary ?? 0) + adjustments.total),
+    payouts: payouts.map(serializePayout)
+  };
+}
+
+export function payslipFilename(payslip: Payslip) {
+  return `payslip-${payslip.month}-${payslip.user.telegramId}.pdf`;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${value.toLocaleString('ru-RU')}%`;
+}
+
+function monthTitle(payslip: Payslip) {
+  const title = new Intl.DateTimeFormat('ru-RU', {
+    timeZone: payslip.timeZone,
+    month: 'long',
+    year: 'numeric'
+  }).format(payslip.range.start);
+
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+function userTitle(user: User) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ').trim();
+  const handle = user.username ? `@${user.username}` : `ID ${user.telegramId}`;
+
+  return name ? `${name} (${handle})` : handle;
+}
+
+export function renderPayslipPdf(payslip: Payslip): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `Расчётный листок ${payslip.month}` }
+  });
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.registerFont('regular', FONT_REGULAR);
+  doc.registerFont('bold', FONT_BOLD);
+
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    doc.moveDown(0.8).font('bold').fontSize(12).text(text, PAGE_MARGIN).moveDown(0.3);
+    doc.font('regular').fontSize(10);
+  };
+
+  // Fixed columns; the row is as tall as its longest wrapped cell
+  const row = (cells: string[], widths: number[], options: { bold?: boolean } = {}) => {
+    doc.font(options.bold ? 'bold' : 'regular').fontSize(10);
+    const height = Math.max(
+      ...cells.map((cell, index) => doc.heightOfString(cell || ' ', { width: widths[index] }))
+    );
+    ensureSpace(height + 4);
+    const top = doc.y;
+    let left = PAGE_MARGIN;
+
+    cells.forEach((cell, index) => {
+      doc.text(cell, left, top, { width: widths[index] });
+      left += widths[index];
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + height + 4;
+  };
+
+  const pair = (label: string, value: string) =>
+    row([label, value], [contentWidth * 0.55, contentWidth * 0.45]);
+
+  const { stats } = payslip;
+
+  doc.font('bold').fontSize(18).text('Расчётный листок');
+  doc.font('regular').fontSize(11).text(monthTitle(payslip));
+  doc.text(userTitle(payslip.user));
+  doc
+    .fillColor('#666666')
+    .fontSize(9)
+    .text(
+      payslip.closed
+        ? 'Период закрыт, суммы окончательные.'
+        : 'Период не закрыт, расчёт предварительный и может измениться.'
+    )
+    .fillColor('black');
+
+  heading('Начисление');
+  pair('Подтверждённых чеков', String(stats.checks));
+  pair('Сумма своих чеков', formatAmount(stats.amount));
+  pair('Чеков всех сотрудников за месяц', String(stats.totalChecks));
+  pair('Ставка фонда', formatPercent(payslip.fundRatePercent));
+  pair('Процент сотрудника', formatPercent(stats.percent));
+  pair('Формула', FORMULA_LABELS[stats.formula]);
+
+  if (stats.partnerFromOthers !== null || stats.partnerFromOwn !== null) {
+    pair('Партнёрская доля из чужих чеков', formatAmount(stats.partnerFromOthers ?? 0));
+    pair('Партнёрская доля со своих чеков', formatAmount(stats.partnerFromOwn ?? 0));
+  }
+
+  if (stats.guaranteeTopUp) {
+    pair('Доплата до минимальной гарантии', formatAmount(stats.guaranteeTopUp));
+  }
+
+  row(
+    ['Зарплата', stats.salary === null ? 'Процент не задан' : formatAmount(stats.salary)],
+    [contentWidth * 0.55, contentWidth * 0.45],
+    { bold: true }
+  );
+
+  heading('Начисления и удержания');
+
+  if (payslip.adjustments.items.length === 0) {
+    doc.text('Нет.');
+  } else {
+    const widths = [contentWidth * 0.18, contentWidth * 0.2, contentWidth * 0.22, contentWidth * 0.4];
+
+    row(['Дата', 'Тип', 'Сумма', 'Основание'], widths, { bold: true });
+    payslip.adjustments.items.forEach((adjustment) => {
+      row(
+        [
+          formatExportDate(adjustment.date, payslip.timeZone).slice(0, 10),
+          ADJUSTMENT_TYPE_LABELS[adjustment.type],
+          formatAmount(adjustment.amount),
+          adjustment.reason
+        ],
+        widths
+      );
+    });
+  }
+
+  pair('Итого начислений и удержаний', formatAmount(payslip.adjustments.total));
+  row(
+    ['К выплате', formatAmount(payslip.payable)],
+    [contentWidth * 0.55, contentWidth * 0.45],
+    { bold: true }
+  );
+
+  heading('Выплаты');
+
+  if (payslip.payouts.length === 0) {
+    doc.text('Выплат по этому периоду ещё не было.');
+  } else {
+    const widths = [contentWidth * 0.2, contentWidth * 0.2, contentWidth * 0.2, contentWidth * 0.4];
+
+    row(['Сумма', 'Статус', 'Дата', 'Транзакция'], widths, { bold: true });
+    payslip.payouts.forEach((payout) => {
+      row(
+        [
+          formatAmount(payout.amount),
+          PAYOUT_STATUS_LABELS[payout.status],
+          payout.paidAt ? formatExportDate(payout.paidAt, payslip.timeZone).slice(0, 10) : '—',
+          payout.txHash ?? '—'
+        ],
+        widths
+      );
+    });
+  }
+
+  heading(`Чеки (${payslip.checks.length})`);
+
+  if (payslip.checks.length === 0) {
+    doc.text('Подтверждённых чеков нет.');
+  } else {
+    const widths = [contentWidth * 0.25, contentWidth * 0.25, contentWidth * 0.5];
+
+    row(['Дата', 'Сумма', 'Комментарий'], widths, { bold: true });
+    payslip.checks.forEach((check) => {
+      row(
+        [
+          formatExportDate(check.createdAt, payslip.timeZone),
+          formatAmount(check.amount),
+          check.note ?? ''
+        ],
+        widths
+      );
+    });
+  }
+
+  doc.end();
+  return rendered;
+}
@@ -0,0 +1,51 @@
+import type { Admin, AdminRole } from '@prisma/client';
+import { z } from 'zod';
+
+export const adminRoleSchema = z.enum(['owner', 'manager', 'accountant', 'moderator']);
+
+export type Permission =
+  | 'admins.manage'
+  | 'settings.manage'
+  | 'audit.view'
+  | 'users.view'
+  | 'users.manage'
+  | 'users.moderate'
+  | 'checks.view'
+  | 'checks.manage'
+  | 'payroll.manage';
+
+/**
+ * What each admin role may do. Staff have no Admin row and only reach their own profile, checks,
+ * salary and payouts, which every route allows anyway.
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: [
+    'admins.manage',
+    'settings.manage',
+    'audit.view',
+    'users.view',
+    'users.manage',
+    'users.moderate',
+    'checks.view',
+    'checks.manage',
+    'payroll.manage'
+  ],
+  manager: [
+    'audit.view',
+    'users.view',
+    'users.manage',
+    'users.moderate',
+    'checks.view',
+    'checks.manage'
+  ],
+  accountant: ['audit.view', 'users.view', 'checks.view', 'payroll.manage'],
+  moderator: ['users.view', 'users.moderate']
+};
+
+export function permissionsOf(admin: Pick<Admin, 'role'> | null) {
+  return admin ? ROLE_PERMISSIONS[admin.role] : [];
+}
+
+export function hasPermission(admin: Pick<Admin, 'role'> | null, permission: Permission) {
+  return permissionsOf(admin).includes(permission);
+}
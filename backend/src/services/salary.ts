@@ -0,0 +1,218 @@
+import type { CommissionRate, Prisma, User } from '@prisma/client';
+
+import { prisma } from '../prisma';
+import { currentMonthRange, zonedParts } from '../utils/dateRange';
+import type { DateRange } from '../utils/dateRange';
+import { loadCommissionRates, percentAt } from './commission';
+import { getSalaryRules, salaryRoleOf } from './salaryRules';
+import type { SalaryFormula, SalaryRoleRules, SalaryRules } from './salaryRules';
+import { getHostelTimeZone } from './timeZone';
+
+export const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export interface SalaryStats {
+  amount: number;
+  checks: number;
+  salary: number | null;
+  percent: number | null;
+  partnerFromOwn: number | null;
+  partnerFromOthers: number | null;
+  totalChecks: number;
+  formula: SalaryFormula;
+  // Part of the salary added to reach the monthly minimum guarantee
+  guaranteeTopUp: number | null;
+}
+
+interface CheckEntry {
+  userId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+type SalaryUser = Pick<User, 'id' | 'isPartner'>;
+
+// Months are always cut in the hostel time zone so tiers don't depend on who is looking
+const monthKey = (date: Date, timeZone: string) => {
+  const { year, month } = zonedParts(date, timeZone);
+  return `${year}-${month}`;
+};
+
+// Tiers look at the whole calendar month, so checks are loaded for full months around the range
+async function loadApprovedChecks(
+  range: Required<DateRange>,
+  timeZone: string,
+  client: Prisma.TransactionClient
+): Promise<CheckEntry[]> {
+  const checks = await client.check.findMany({
+    where: {
+      status: 'approved',
+      createdAt: {
+        gte: currentMonthRange(range.start, timeZone).start,
+        lte: currentMonthRange(range.end, timeZone).end
+      }
+    },
+    select: { userId: true, amount: true, createdAt: true }
+  });
+
+  return checks.map((check) => ({ ...check, amount: check.amount.toNumber() }));
+}
+
+function monthlyVolumes(checks: CheckEntry[], timeZone: string) {
+  const volumes = new Map<string, number>();
+
+  for (const check of checks) {
+    const key = `${check.userId}:${monthKey(check.createdAt, timeZone)}`;
+    volumes.set(key, (volumes.get(key) ?? 0) + check.amount);
+  }
+
+  return volumes;
+}
+
+function isWholeMonth(range: Required<DateRange>, timeZone: string) {
+  const month = currentMonthRange(range.start, timeZone);
+  return month.start.getTime() === range.start.getTime() && month.end.getTime() === range.end.getTime();
+}
+
+function hasPercentWithin(rates: CommissionRate[], range: Required<DateRange>) {
+  return (
+    percentAt(rates, range.start) !== null ||
+    rates.some(
+      (rate) => rate.percent !== null && rate.effectiveFrom >= range.start && rate.effectiveFrom <= range.end
+    )
+  );
+}
+
+function tierPercent(roleRules: SalaryRoleRules, volume: number) {
+  let percent: number | null = null;
+
+  for (const tier of roleRules.tiers) {
+    if (volume >= tier.minVolume) {
+      percent = tier.percent;
+    }
+  }
+
+  return percent;
+}
+
+function salaryFor(
+  user: SalaryUser,
+  rates: CommissionRate[],
+  checks: CheckEntry[],
+  volumes: Map<string, number>,
+  rules: SalaryRules,
+  range: Required<DateRange>,
+  timeZone: string
+): SalaryStats {
+  const roleRules = rules.roles[salaryRoleOf(user)];
+  const fundRate = rules.fundRatePercent / 100;
+
+  // Personal percent from the history, replaced by a volume tier once the user reaches one
+  const effectivePercent = (date: Date) => {
+    const personal = percentAt(rates, date);
+
+    if (personal === null) {
+      return null;
+    }
+
+    return tierPercent(roleRules, volumes.get(`${user.id}:${monthKey(date, timeZone)}`) ?? 0) ?? personal;
+  };
+
+  let ownAmount = 0;
+  let ownChecks = 0;
+  let totalChecks = 0;
+  let fromOwn = 0;
+  let fromOthers = 0;
+
+  for (const check of checks) {
+    if (check.createdAt < range.start || check.createdAt > range.end) {
+      continue;
+    }
+
+    totalChecks += 1;
+    const isOwn = check.userId === user.id;
+
+    if (isOwn) {
+      ownAmount += check.amount;
+      ownChecks += 1;
+    } else if (roleRules.formula !== 'fund_share') {
+      continue;
+    }
+
+    const percent = effectivePercent(check.createdAt);
+
+    if (percent === null) {
+      continue;
+    }
+
+    const rate = roleRules.formula === 'own_volume' ? percent / 100 : (percent / 100) * fundRate;
+    const share = rate * check.amount;
+
+    if (isOwn) {
+      fromOwn += share;
+    } else {
+      fromOthers += share;
+    }
+  }
+
+  const hasPercent = hasPercentWithin(rates, range);
+  let salary = hasPercent ? roundAmount(fromOwn + fromOthers) : null;
+  let guaranteeTopUp: number | null = null;
+
+  if (salary !== null && roleRules.minimumGuarantee !== null && isWholeMonth(range, timeZone)) {
+    if (salary < roleRules.minimumGuarantee) {
+      guaranteeTopUp = roundAmount(roleRules.minimumGuarantee - salary);
+      salary = roleRules.minimumGuarantee;
+    }
+  }
+
+  const now = new Date();
+
+  return {
+    amount: roundAmount(ownAmount),
+    checks: ownChecks,
+    salary,
+    percent: effectivePercent(range.end < now ? range.end : now),
+    partnerFromOwn: user.isPartner && hasPercent ? roundAmount(fromOwn) : null,
+    partnerFromOthers: user.isPartner && hasPercent ? roundAmount(fromOthers) : null,
+    totalChecks,
+    formula: roleRules.formula,
+    guaranteeTopUp
+  };
+}
+
+/**
+ * Salaries of several users for the range under the configured salary rules. Every check is
+ * weighted with the percent in effect on its date, or with the volume tier the user reached in
+ * that month. Pass rules explicitly to preview a configuration that is not saved yet, and a
+ * transaction client to read the checks in that transaction.
+ */
+export async function computeSalaries(
+  users: SalaryUser[],
+  range: Required<DateRange>,
+  rules?: SalaryRules,
+  client: Prisma.TransactionClient = prisma
+) {
+  const timeZone = await getHostelTimeZone();
+  const [checks, rates, activeRules] = await Promise.all([
+    loadApprovedChecks(range, timeZone, client),
+    loadCommissionRates(users.map((user) => user.id)),
+    rules ? Promise.resolve(rules) : getSalaryRules().then((setting) => setting.value)
+  ]);
+  const volumes = monthlyVolumes(checks, timeZone);
+
+  return new Map(
+    users.map((user) => [
+      user.id,
+      salaryFor(user, rates.get(user.id) ?? [], checks, volumes, activeRules, range, timeZone)
+    ])
+  );
+}
+
+export async function computeUserSalary(
+  user: SalaryUser,
+  range: Required<DateRange>,
+  rules?: SalaryRules
+): Promise<SalaryStats> {
+  const salaries = await computeSalaries([user], range, rules);
+  return salaries.get(user.id)!;
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+import { getSetting, saveSetting } from './settings';
+
+const SALARY_RULES_KEY = 'salaryRules';
+
+export const salaryFormulaSchema = z.enum(['fund_share', 'own_fund_share', 'own_volume']);
+
+const tierSchema = z.object({
+  minVolume: z.number().min(0, 'Порог объёма не может быть отрицательным'),
+  percent: z.number().min(0, 'Процент не может быть меньше 0').max(100, 'Процент не может быть больше 100')
+});
+
+const roleRulesSchema = z.object({
+  formula: salaryFormulaSchema,
+  // Monthly own volume brackets; the highest reached bracket replaces the personal percent
+  tiers: z.array(tierSchema).max(10, 'Не более 10 порогов'),
+  // Monthly minimum, applied only to whole calendar months
+  minimumGuarantee: z.number().min(0, 'Гарантия не может быть отрицательной').nullable()
+});
+
+export const salaryRulesSchema = z.object({
+  fundRatePercent: z
+    .number()
+    .min(0, 'Ставка фонда не может быть меньше 0')
+    .max(100, 'Ставка фонда не может быть больше 100'),
+  roles: z.object({
+    staff: roleRulesSchema,
+    partner: roleRulesSchema
+  })
+});
+
+export type SalaryFormula = z.infer<typeof salaryFormulaSchema>;
+export type SalaryRoleRules = z.infer<typeof roleRulesSchema>;
+export type SalaryRules = z.infer<typeof salaryRulesSchema>;
+export type SalaryRole = keyof SalaryRules['roles'];
+
+// Matches the calculation used before rules became configurable
+export const DEFAULT_SALARY_RULES: SalaryRules = {
+  fundRatePercent: 15,
+  roles: {
+    staff: { formula: 'fund_share', tiers: [], minimumGuarantee: null },
+    partner: { formula: 'fund_share', tiers: [], minimumGuarantee: null }
+  }
+};
+
+export function salaryRoleOf(user: { isPartner: boolean }): SalaryRole {
+  return user.isPartner ? 'partner' : 'staff';
+}
+
+function normalizeRules(rules: SalaryRules): SalaryRules {
+  const normalizeRole = (role: SalaryRoleRules): SalaryRoleRules => ({
+    ...role,
+    tiers: [...role.tiers].sort((a, b) => a.minVolume - b.minVolume)
+  });
+
+  return {
+    ...rules,
+    roles: {
+      staff: normalizeRole(rules.roles.staff),
+      partner: normalizeRole(rules.roles.partner)
+    }
+  };
+}
+
+export async function getSalaryRules() {
+  const setting = await getSetting(SALARY_RULES_KEY, salaryRulesSchema, DEFAULT_SALARY_RULES);
+  return { ...setting, value: normalizeRules(setting.value) };
+}
+
+export function saveSalaryRules(rules: SalaryRules, updatedBy: string | null) {
+  return saveSetting(SALARY_RULES_KEY, normalizeRules(rules), updatedBy);
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+
+import type { Admin, User } from '@prisma/client';
+
+import type { TelegramWebAppUser } from '../types/telegram';
+
+// Long enough to cover the burst of requests a WebApp screen makes, short enough that a change
+// made outside this process (another instance, manual SQL) shows up quickly
+const SESSION_TTL_MS = 60 * 1000;
+const MAX_SESSIONS = 1000;
+
+export interface CachedSession {
+  telegramUser: TelegramWebAppUser;
+  user: User;
+  admin: Admin | null;
+}
+
+interface CacheEntry extends CachedSession {
+  expiresAt: number;
+}
+
+// Map keeps insertion order, so re-inserting on access makes the first key the least recently used
+const sessions = new Map<string, CacheEntry>();
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  invalidations: 0,
+  evictions: 0
+};
+
+export function sessionCacheKey(initData: string) {
+  return crypto.createHash('sha256').update(initData).digest('hex');
+}
+
+export function getCachedSession(key: string): CachedSession | null {
+  const entry = sessions.get(key);
+
+  if (!entry || entry.expiresAt <= Date.now()) {
+    if (entry) {
+      sessions.delete(key);
+    }
+
+    stats.misses += 1;
+    return null;
+  }
+
+  sessions.delete(key);
+  sessions.set(key, entry);
+  stats.hits += 1;
+
+  return entry;
+}
+
+export function cacheSession(key: string, session: CachedSession) {
+  sessions.delete(key);
+  sessions.set(key, { ...session, expiresAt: Date.now() + SESSION_TTL_MS });
+
+  while (sessions.size > MAX_SESSIONS) {
+    const oldest = sessions.keys().next().value as string;
+    sessions.delete(oldest);
+    stats.evictions += 1;
+  }
+}
+
+// Drops every launch of the given user, or the whole cache when the user is unknown
+export function invalidateSessions(user?: { id?: string; telegramId?: string } | null) {
+  if (!user?.id && !user?.telegramId) {
+    stats.invalidations += sessions.size;
+    sessions.clear();
+    return;
+  }
+
+  sessions.forEach((entry, key) => {
+    // Matching the id too covers an edit that changed the user's telegramId
+    if (entry.user.id === user.id || entry.user.telegramId === user.telegramId) {
+      sessions.delete(key);
+      stats.invalidations += 1;
+    }
+  });
+}
+
+const SINGLE_WRITE_ACTIONS = new Set(['create', 'update', 'upsert', 'delete']);
+const BULK_WRITE_ACTIONS = new Set(['createMany', 'updateMany', 'deleteMany']);
+
+/**
+ * Called for every Prisma query: writes to users or admins invalidate the affected sessions, so
+ * a block, role change or profile edit applies to the next request of that user.
+ */
+export function invalidateSessionsAfterWrite(
+  model: string | undefined,
+  action: string,
+  result: unknown
+) {
+  if (model !== 'User' && model !== 'Admin') {
+    return;
+  }
+
+  // Admin changes are rare and may move a role to another telegramId, so they reset everything
+  if (BULK_WRITE_ACTIONS.has(action) || (model === 'Admin' && SINGLE_WRITE_ACTIONS.has(action))) {
+    invalidateSessions();
+  } else if (SINGLE_WRITE_ACTIONS.has(action)) {
+    invalidateSessions(result as { id?: string; telegramId?: string } | null);
+  }
+}
+
+export function getSessionCacheStats() {
+  const lookups = stats.hits + stats.misses;
+
+  return {
+    ...stats,
+    size: sessions.size,
+    maxSize: MAX_SESSIONS,
+    ttlSeconds: SESSION_TTL_MS / 1000,
+    hitRate: lookups > 0 ? Math.round((stats.hits / lookups) * 1000) / 1000 : null
+  };
+}
@@ -0,0 +1,37 @@
+import { Prisma } from '@prisma/client';
+import type { z } from 'zod';
+
+import { prisma } from '../prisma';
+
+/**
+ * Reads a JSON setting and validates it with the owner's schema. A missing or no longer valid
+ * value falls back to the default so a bad row can't break salary calculation.
+ */
+export async function getSetting<T>(key: string, schema: z.ZodType<T>, fallback: T) {
+  const setting = await prisma.setting.findUnique({ where: { key } });
+
+  if (!setting) {
+    return { value: fallback, updatedAt: null };
+  }
+
+  const parsed = schema.safeParse(setting.value);
+
+  if (!parsed.success) {
+    console.error(`Invalid value stored for setting ${key}`, parsed.error.issues);
+    return { value: fallback, updatedAt: setting.updatedAt };
+  }
+
+  return { value: parsed.data, updatedAt: setting.updatedAt };
+}
+
+export async function saveSetting<T>(key: string, value: T, updatedBy: string | null) {
+  const json = value as unknown as Prisma.InputJsonValue;
+
+  const setting = await prisma.setting.upsert({
+    where: { key },
+    create: { key, value: json, updatedBy },
+    update: { value: json, updatedBy }
+  });
+
+  return { value, updatedAt: setting.updatedAt };
+}
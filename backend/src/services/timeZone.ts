@@ -0,0 +1,36 @@
+import type { Request } from 'express';
+import { z } from 'zod';
+
+import { env } from '../env';
+import { isValidTimeZone } from '../utils/dateRange';
+import { getSetting, saveSetting } from './settings';
+
+const TIME_ZONE_KEY = 'timeZone';
+
+export const timeZoneSchema = z
+  .string()
+  .trim()
+  .refine(isValidTimeZone, 'Неизвестный часовой пояс');
+
+export async function getHostelTimeZone() {
+  const { value } = await getSetting(TIME_ZONE_KEY, timeZoneSchema, env.HOSTEL_TIMEZONE);
+  return value;
+}
+
+export function saveHostelTimeZone(timeZone: string, updatedBy: string | null) {
+  return saveSetting(TIME_ZONE_KEY, timeZone, updatedBy);
+}
+
+/**
+ * Time zone for day/week/month boundaries of a request: `?tz=` or the `X-Timezone` header
+ * override the hostel setting. An unknown zone is a validation error rather than a silent fallback.
+ */
+export async function resolveTimeZone(req: Request) {
+  const override = typeof req.query.tz === 'string' ? req.query.tz : req.get('x-timezone');
+
+  if (override?.trim()) {
+    return timeZoneSchema.parse(override);
+  }
+
+  return getHostelTimeZone();
+}
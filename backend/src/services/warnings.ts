@@ -0,0 +1,258 @@
+import type { Prisma, User } from '@prisma/client';
+import { z } from 'zod';
+
+import { prisma } from '../prisma';
+import { findManagedChat, resolveTargetChats } from './chats';
+import { applyBlock, applyMute, notifyUser, recordModerationEvent } from './moderation';
+import type { ModerationOutcome } from './moderation';
+import { getSetting, saveSetting } from './settings';
+import { getHostelTimeZone } from './timeZone';
+
+const WARNING_SETTINGS_KEY = 'warnings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Same limit as POST /api/users/:id/mute
+const MAX_MUTE_MINUTES = 60 * 24 * 30;
+
+const warningThresholdSchema = z
+  .object({
+    points: z.number().int().min(1, 'Порог — не меньше 1 балла').max(100, 'Порог — до 100 баллов'),
+    action: z.enum(['mute', 'block']),
+    durationMinutes: z
+      .number()
+      .int()
+      .positive('Длительность мута должна быть положительной')
+      .max(MAX_MUTE_MINUTES, 'Мут не дольше 30 дней')
+      .nullable()
+  })
+  .refine((threshold) => threshold.action === 'block' || threshold.durationMinutes !== null, {
+    message: 'Укажите длительность мута',
+    path: ['durationMinutes']
+  });
+
+export const warningSettingsSchema = z
+  .object({
+    expiryDays: z
+      .number()
+      .int()
+      .min(1, 'Предупреждения действуют не меньше 1 дня')
+      .max(365, 'Предупреждения действуют не больше года'),
+    thresholds: z.array(warningThresholdSchema).max(10, 'Не больше 10 порогов')
+  })
+  .refine(
+    (settings) =>
+      new Set(settings.thresholds.map((threshold) => threshold.points)).size ===
+      settings.thresholds.length,
+    { message: 'Пороги не должны повторяться', path: ['thresholds'] }
+  );
+
+export type WarningSettings = z.infer<typeof warningSettingsSchema>;
+export type WarningThreshold = WarningSettings['thresholds'][number];
+
+export const DEFAULT_WARNING_SETTINGS: WarningSettings = {
+  expiryDays: 30,
+  thresholds: [
+    { points: 3, action: 'mute', durationMinutes: 24 * 60 },
+    { points: 5, action: 'mute', durationMinutes: 7 * 24 * 60 },
+    { points: 7, action: 'block', durationMinutes: null }
+  ]
+};
+
+export interface WarningRequest {
+  actorTelegramId: string | null;
+  chatId: string | null;
+  reason?: string | null;
+  points?: number;
+}
+
+export interface WarningEscalation {
+  threshold: WarningThreshold;
+  // Absent when the mute had no chat to apply to
+  outcome: ModerationOutcome | null;
+}
+
+export function getWarningSettings() {
+  return getSetting(WARNING_SETTINGS_KEY, warningSettingsSchema, DEFAULT_WARNING_SETTINGS);
+}
+
+// Thresholds are kept sorted so escalation and the settings screen read them in order
+export function saveWarningSettings(settings: WarningSettings, updatedBy: string | null) {
+  const thresholds = [...settings.thresholds]
+    .sort((left, right) => left.points - right.points)
+    .map((threshold) => ({
+      ...threshold,
+      durationMinutes: threshold.action === 'mute' ? threshold.durationMinutes : null
+    }));
+
+  return saveSetting(WARNING_SETTINGS_KEY, { ...settings, thresholds }, updatedBy);
+}
+
+export async function activeWarningPoints(
+  userId: string,
+  now = new Date(),
+  client: Prisma.TransactionClient = prisma
+) {
+  const { _sum } = await client.warning.aggregate({
+    where: { userId, expiresAt: { gt: now } },
+    _sum: { points: true }
+  });
+
+  return _sum.points ?? 0;
+}
+
+// Active warnings first by date, with the sum that counts towards the thresholds
+export async function listActiveWarnings(userId: string) {
+  const now = new Date();
+  const warnings = await prisma.warning.findMany({
+    where: { userId, expiresAt: { gt: now } },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return {
+    points: warnings.reduce((total, warning) => total + warning.points, 0),
+    warnings
+  };
+}
+
+function formatDuration(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} дн.`;
+  }
+
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} ч`;
+  }
+
+  return `${minutes} мин`;
+}
+
+function describeThreshold(threshold: WarningThreshold) {
+  return threshold.action === 'block'
+    ? 'блокировка'
+    : `мут на ${formatDuration(threshold.durationMinutes!)}`;
+}
+
+function warningMessage(
+  reason: string | null,
+  points: number,
+  settings: WarningSettings,
+  next: WarningThreshold | undefined
+) {
+  const lines = [
+    reason ? `Вам вынесено предупреждение. Причина: ${reason}` : 'Вам вынесено предупреждение.',
+    `Активных баллов: ${points}. Предупреждения сгорают через ${settings.expiryDays} дн.`
+  ];
+
+  if (next) {
+    lines.push(`При ${next.points} баллах — ${describeThreshold(next)}.`);
+  }
+
+  return lines.join('\n');
+}
+
+// The chat the warning was given in, otherwise every chat of the user
+async function escalationChats(user: User, chatId: string | null) {
+  const chat = chatId ? await findManagedChat(chatId) : null;
+  return chat ? [chat] : (await resolveTargetChats(user, undefined)) ?? [];
+}
+
+async function escalate(
+  user: User,
+  threshold: WarningThreshold,
+  points: number,
+  chatId: string | null
+): Promise<WarningEscalation> {
+  const reason = `Автоматически: ${points} баллов предупреждений`;
+  const chats = await escalationChats(user, chatId);
+
+  if (threshold.action === 'block') {
+    return {
+      threshold,
+      outcome: await applyBlock(user, { actorTelegramId: null, chats, reason })
+    };
+  }
+
+  if (chats.length === 0) {
+    console.error('Cannot escalate warnings to a mute without a chat', user.telegramId);
+    return { threshold, outcome: null };
+  }
+
+  const durationMinutes = threshold.durationMinutes!;
+  const until = new Date(Date.now() + durationMinutes * 60 * 1000);
+  const outcome = await applyMute(user, {
+    actorTelegramId: null,
+    chats,
+    until,
+    durationMinutes,
+    reason
+  });
+
+  if (outcome.ok) {
+    const timeZone = await getHostelTimeZone();
+    await notifyUser(
+      user.telegramId,
+      `За ${points} баллов предупреждений вы не можете писать в чате до ` +
+        `${until.toLocaleString('ru-RU', { timeZone })}.`
+    );
+  }
+
+  return { threshold, outcome };
+}
+
+/**
+ * Adds warning points and applies the highest threshold this warning crossed, so reaching a
+ * threshold again after older points expired escalates again. The user hears about the warning,
+ * the points still active and what comes next.
+ */
+export async function issueWarning(user: User, request: WarningRequest) {
+  const { value: settings } = await getWarningSettings();
+  const now = new Date();
+  const points = request.points ?? 1;
+  const reason = request.reason?.trim() || null;
+  const chatId = request.chatId;
+
+  // The user row stays locked until the warning is stored, so warnings issued at the same time
+  // are counted one after another and each threshold is crossed by exactly one of them
+  const { before, warning } = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${user.id} FOR UPDATE`;
+
+    const active = await activeWarningPoints(user.id, now, tx);
+    const created = await tx.warning.create({
+      data: {
+        userId: user.id,
+        points,
+        reason,
+        actorTelegramId: request.actorTelegramId,
+        chatId,
+        expiresAt: new Date(now.getTime() + settings.expiryDays * DAY_MS)
+      }
+    });
+
+    return { before: active, warning: created };
+  });
+  const total = before + points;
+
+  await recordModerationEvent({
+    userId: user.id,
+    action: 'warn',
+    actorTelegramId: request.actorTelegramId,
+    chatId,
+    reason,
+    until: warning.expiresAt
+  });
+
+  const crossed = settings.thresholds.filter(
+    (threshold) => threshold.points > before && threshold.points <= total
+  );
+  const threshold = crossed[crossed.length - 1];
+  const next = settings.thresholds.find((candidate) => candidate.points > total);
+
+  await notifyUser(user.telegramId, warningMessage(reason, total, settings, next));
+
+  // A blocked user has nothing left to escalate to
+  const escalation =
+    threshold && !user.isBlocked ? await escalate(user, threshold, total, chatId) : null;
+  const updated = escalation?.outcome?.ok ? escalation.outcome.user : user;
+
+  return { user: updated, warning, points: total, escalation };
+}
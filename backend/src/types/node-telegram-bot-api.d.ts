@@ -1,4 +1,6 @@
 declare module 'node-telegram-bot-api' {
+  import type { Readable } from 'stream';
+
   export interface TelegramUser {
     id: number;
     is_bot?: boolean;
@@ -14,12 +16,35 @@ declare module 'node-telegram-bot-api' {
     title?: string;
   }
 
+  export interface PhotoSize {
+    file_id: string;
+    file_unique_id?: string;
+    width: number;
+    height: number;
+    file_size?: number;
+  }
+
   export interface Message {
     message_id?: number;
     chat?: Chat;
     from?: TelegramUser;
     date?: number;
     text?: string;
+    caption?: string;
+    photo?: PhotoSize[];
+    reply_to_message?: Message;
+  }
+
+  export interface CallbackQuery {
+    id: string;
+    from: TelegramUser;
+    message?: Message;
+    data?: string;
+  }
+
+  export interface AnswerCallbackQueryOptions {
+    text?: string;
+    show_alert?: boolean;
   }
 
   export interface RestrictChatMemberOptions {
@@ -41,8 +66,58 @@ declare module 'node-telegram-bot-api' {
     only_if_banned?: boolean;
   }
 
+  export interface ChatMember {
+    user: TelegramUser;
+    status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+    until_date?: number;
+    can_send_messages?: boolean;
+    // Only for `restricted`: whether the user is still in the chat
+    is_member?: boolean;
+  }
+
+  export interface ChatInviteLink {
+    invite_link: string;
+    creator: TelegramUser;
+    name?: string;
+  }
+
+  export interface ChatMemberUpdated {
+    chat: Chat;
+    from: TelegramUser;
+    date: number;
+    old_chat_member: ChatMember;
+    new_chat_member: ChatMember;
+    invite_link?: ChatInviteLink;
+  }
+
+  export interface ChatJoinRequest {
+    chat: Chat;
+    from: TelegramUser;
+    // Private chat the bot may write to for 5 minutes, even if the user never started it
+    user_chat_id?: number;
+    date: number;
+    bio?: string;
+    invite_link?: ChatInviteLink;
+  }
+
+  export interface EditMessageTextOptions {
+    chat_id?: number | string;
+    message_id?: number;
+    reply_markup?: unknown;
+  }
+
+  export interface SendDocumentOptions {
+    caption?: string;
+  }
+
+  export interface FileOptions {
+    filename?: string;
+    contentType?: string;
+  }
+
   export interface TelegramBotOptions {
-    polling?: boolean;
+    // `allowed_updates` goes to getUpdates as is, so it has to be a JSON string
+    polling?: boolean | { params?: { allowed_updates?: string } };
     baseApiUrl?: string;
   }
 
@@ -50,7 +125,28 @@ declare module 'node-telegram-bot-api' {
     constructor(token: string, options?: TelegramBotOptions);
     setMyCommands(commands: Array<{ command: string; description: string }>): Promise<boolean>;
     onText(regexp: RegExp, callback: (msg: Message, match: RegExpExecArray | null) => void): void;
+    on(event: 'message' | 'photo', listener: (msg: Message) => void): void;
+    on(event: 'callback_query', listener: (query: CallbackQuery) => void): void;
+    on(
+      event: 'chat_member' | 'my_chat_member',
+      listener: (update: ChatMemberUpdated) => void
+    ): void;
+    on(event: 'chat_join_request', listener: (request: ChatJoinRequest) => void): void;
+    answerCallbackQuery(
+      callbackQueryId: string,
+      options?: AnswerCallbackQueryOptions
+    ): Promise<boolean>;
+    getFileStream(fileId: string): Readable;
     sendMessage(chatId: number | string, text: string, options?: unknown): Promise<Message>;
+    editMessageText(text: string, options: EditMessageTextOptions): Promise<Message | boolean>;
+    sendDocument(
+      chatId: number | string,
+      document: string | Buffer | Readable,
+      options?: SendDocumentOptions,
+      fileOptions?: FileOptions
+    ): Promise<Message>;
+    getChat(chatId: number | string): Promise<Chat>;
+    getChatMember(chatId: number | string, userId: number): Promise<ChatMember>;
     restrictChatMember(
       chatId: number | string,
       userId: number,
@@ -66,6 +162,8 @@ declare module 'node-telegram-bot-api' {
       userId: number,
       options?: UnbanChatMemberOptions
     ): Promise<boolean>;
+    approveChatJoinRequest(chatId: number | string, userId: number): Promise<boolean>;
+    declineChatJoinRequest(chatId: number | string, userId: number): Promise<boolean>;
     stopPolling(): Promise<void>;
   }
 }
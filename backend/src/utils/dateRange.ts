@@ -0,0 +1,229 @@
+export interface DateRange {
+  start?: Date;
+  end?: Date;
+}
+
+export type RangePeriod = 'day' | 'week' | 'month';
+
+export interface RangeQuery {
+  period?: RangePeriod;
+  startDate?: string;
+  endDate?: string;
+}
+
+interface ZonedParts {
+  year: number;
+  // Zero-based like Date#getMonth
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let formatter = partsFormatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+export function isValidTimeZone(value: string) {
+  try {
+    partsFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallClock(date: Date, timeZone: string) {
+  const values: Record<string, number> = {};
+
+  for (const part of partsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return values;
+}
+
+// Offset of the zone from UTC at the given moment, in milliseconds
+function zoneOffset(date: Date, timeZone: string) {
+  const clock = wallClock(date, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const clock = wallClock(date, timeZone);
+
+  return {
+    year: clock.year,
+    month: clock.month - 1,
+    day: clock.day,
+    weekday: new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay()
+  };
+}
+
+/**
+ * Converts a wall-clock time in the zone to an instant. Out-of-range values roll over like the
+ * Date constructor, so day 0 is the last day of the previous month.
+ */
+export function zonedTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0
+) {
+  const guess = Date.UTC(year, month, day, hours, minutes, seconds, milliseconds);
+  const first = guess - zoneOffset(new Date(guess), timeZone);
+  // A second pass settles times next to a DST switch
+  return new Date(guess - zoneOffset(new Date(first), timeZone));
+}
+
+export function startOfDay(date: Date, timeZone: string) {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return zonedTime(timeZone, year, month, day);
+}
+
+export function endOfDay(date: Date, timeZone: string) {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return zonedTime(timeZone, year, month, day, 23, 59, 59, 999);
+}
+
+export function currentDayRange(reference: Date, timeZone: string): Required<DateRange> {
+  const start = startOfDay(reference, timeZone);
+  const end = endOfDay(reference, timeZone);
+  return { start, end };
+}
+
+export function currentWeekRange(reference: Date, timeZone: string): Required<DateRange> {
+  const { year, month, day, weekday } = zonedParts(reference, timeZone);
+  const offset = weekday === 0 ? 6 : weekday - 1;
+  const start = zonedTime(timeZone, year, month, day - offset);
+  const end = zonedTime(timeZone, year, month, day - offset + 6, 23, 59, 59, 999);
+
+  return { start, end };
+}
+
+export function currentMonthRange(reference: Date, timeZone: string): Required<DateRange> {
+  const { year, month } = zonedParts(reference, timeZone);
+  const start = zonedTime(timeZone, year, month, 1);
+  const end = zonedTime(timeZone, year, month + 1, 0, 23, 59, 59, 999);
+
+  return { start, end };
+}
+
+// Plain YYYY-MM-DD values are calendar days in the zone, anything else is parsed as an instant
+export function parseDateInput(value: string | undefined, timeZone: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const parsed = zonedTime(timeZone, year, month - 1, day);
+    return zonedParts(parsed, timeZone).day === day ? parsed : undefined;
+  }
+
+  const parsed = new Date(trimmed);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return undefined;
+  }
+
+  return parsed;
+}
+
+export function resolveRange(
+  { period, startDate, endDate }: RangeQuery,
+  timeZone: string
+): Required<DateRange> | DateRange {
+  const reference = new Date();
+
+  if (period === 'day') {
+    return currentDayRange(reference, timeZone);
+  }
+
+  if (period === 'week') {
+    return currentWeekRange(reference, timeZone);
+  }
+
+  if (period === 'month') {
+    return currentMonthRange(reference, timeZone);
+  }
+
+  const start = parseDateInput(startDate, timeZone);
+  const end = parseDateInput(endDate, timeZone);
+
+  if (start && !end) {
+    return currentDayRange(start, timeZone);
+  }
+
+  if (!start && end) {
+    return currentDayRange(end, timeZone);
+  }
+
+  if (start && end) {
+    let rangeStart = startOfDay(start, timeZone);
+    let rangeEnd = endOfDay(end, timeZone);
+
+    if (rangeStart > rangeEnd) {
+      [rangeStart, rangeEnd] = [startOfDay(end, timeZone), endOfDay(start, timeZone)];
+    }
+
+    return { start: rangeStart, end: rangeEnd };
+  }
+
+  return {};
+}
+
+// Accepts YYYY-MM and returns the whole calendar month
+export function parseMonthInput(value: string, timeZone: string): Required<DateRange> | undefined {
+  const match = /^(\d{4})-(\d{2})$/.exec(value.trim());
+
+  if (!match) {
+    return undefined;
+  }
+
+  const month = Number(match[2]);
+
+  if (month < 1 || month > 12) {
+    return undefined;
+  }
+
+  return currentMonthRange(zonedTime(timeZone, Number(match[1]), month - 1, 15), timeZone);
+}
+
+export function formatMonthInput(date: Date, timeZone: string) {
+  const { year, month } = zonedParts(date, timeZone);
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
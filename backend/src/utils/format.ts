@@ -0,0 +1,33 @@
+import type { TelegramUser } from 'node-telegram-bot-api';
+
+export interface NamedUser {
+  telegramId: string;
+  firstName: string | null;
+  lastName: string | null;
+  username: string | null;
+}
+
+// Amounts in bot messages, digests and payslips
+export function formatAmount(value: number) {
+  const formatted = value.toLocaleString('ru-RU', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+
+  return `${formatted} AED`;
+}
+
+// Full name, then @username, then the Telegram id for users who set neither
+export function displayName(user: NamedUser) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ').trim();
+  return name || (user.username ? `@${user.username}` : `ID ${user.telegramId}`);
+}
+
+export function telegramDisplayName(user: TelegramUser) {
+  return displayName({
+    telegramId: user.id.toString(),
+    firstName: user.first_name ?? null,
+    lastName: user.last_name ?? null,
+    username: user.username ?? null
+  });
+}
@@ -2,29 +2,122 @@ import crypto from 'crypto';
 
 import { TelegramWebAppUser } from '../types/telegram';
 
-export function verifyTelegramInitData(initData: string, botToken: string): boolean {
-  if (!initData) {
+// Public keys Telegram signs init data with for third-party validation (production and test DC)
+const TELEGRAM_SIGNATURE_PUBLIC_KEYS = {
+  production: 'e7bf03a2fa4602af4580703d88dda5bb59f32ed8b02a56c187fe7d34caed242d',
+  test: '40055058a4ee38156a06562e52eece92a771bcd8346a8c4615cb7376eddf72ec'
+} as const;
+
+// DER prefix that turns a raw 32-byte Ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Clock difference between Telegram and this server that is still tolerated for `auth_date`
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+export type InitDataErrorCode =
+  | 'INIT_DATA_MISSING'
+  | 'INIT_DATA_INVALID'
+  | 'INIT_DATA_EXPIRED'
+  | 'INIT_DATA_USER_INVALID';
+
+export type InitDataVerification = { valid: true } | { valid: false; code: InitDataErrorCode };
+
+export interface VerifyInitDataOptions {
+  // 0 disables the age check
+  maxAgeSeconds?: number;
+  signatureKey?: keyof typeof TELEGRAM_SIGNATURE_PUBLIC_KEYS;
+  now?: Date;
+}
+
+function safeEqual(left: Buffer, right: Buffer) {
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function dataCheckString(params: URLSearchParams, excluded: string[]) {
+  return Array.from(params.entries())
+    .filter(([key]) => !excluded.includes(key))
+    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
+
+function verifyHash(params: URLSearchParams, hash: string, botToken: string) {
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const hmac = crypto
+    .createHmac('sha256', secretKey)
+    .update(dataCheckString(params, ['hash']))
+    .digest();
+
+  return /^[0-9a-f]{64}$/i.test(hash) && safeEqual(hmac, Buffer.from(hash, 'hex'));
+}
+
+// Third-party validation: Telegram signs `<bot_id>:WebAppData` plus the usual fields with Ed25519
+function verifySignature(
+  params: URLSearchParams,
+  signature: string,
+  botToken: string,
+  signatureKey: keyof typeof TELEGRAM_SIGNATURE_PUBLIC_KEYS
+) {
+  const botId = botToken.split(':')[0];
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.concat([
+      ED25519_SPKI_PREFIX,
+      Buffer.from(TELEGRAM_SIGNATURE_PUBLIC_KEYS[signatureKey], 'hex')
+    ]),
+    format: 'der',
+    type: 'spki'
+  });
+  const payload = `${botId}:WebAppData\n${dataCheckString(params, ['hash', 'signature'])}`;
+
+  try {
+    return crypto.verify(null, Buffer.from(payload), publicKey, Buffer.from(signature, 'base64url'));
+  } catch (error) {
     return false;
   }
+}
+
+/**
+ * Checks that init data came from Telegram for this bot and is recent enough. The HMAC `hash` is
+ * preferred; init data with only the Ed25519 `signature` is accepted as well. `auth_date` must
+ * be present and not older than `maxAgeSeconds`, so a leaked init string stops working.
+ */
+export function verifyTelegramInitData(
+  initData: string,
+  botToken: string,
+  options: VerifyInitDataOptions = {}
+): InitDataVerification {
+  if (!initData) {
+    return { valid: false, code: 'INIT_DATA_MISSING' };
+  }
 
   const params = new URLSearchParams(initData);
   const hash = params.get('hash');
+  const signature = params.get('signature');
 
-  if (!hash) {
-    return false;
+  const isAuthentic = hash
+    ? verifyHash(params, hash, botToken)
+    : signature
+      ? verifySignature(params, signature, botToken, options.signatureKey ?? 'production')
+      : false;
+
+  if (!isAuthentic) {
+    return { valid: false, code: 'INIT_DATA_INVALID' };
   }
 
-  params.delete('hash');
+  const authDate = Number(params.get('auth_date'));
 
-  const dataCheckString = Array.from(params.entries())
-    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
-    .map(([key, value]) => `${key}=${value}`)
-    .join('\n');
+  if (!Number.isInteger(authDate) || authDate <= 0) {
+    return { valid: false, code: 'INIT_DATA_INVALID' };
+  }
 
-  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
-  const hmac = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest('hex');
+  const maxAgeSeconds = options.maxAgeSeconds ?? 0;
+  const age = Math.floor((options.now ?? new Date()).getTime() / 1000) - authDate;
+
+  if (age < -MAX_CLOCK_SKEW_SECONDS || (maxAgeSeconds > 0 && age > maxAgeSeconds)) {
+    return { valid: false, code: 'INIT_DATA_EXPIRED' };
+  }
 
-  return hmac === hash;
+  return { valid: true };
 }
 
 export function parseTelegramUser(initData: string): TelegramWebAppUser | null {
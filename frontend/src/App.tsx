@@ -3,9 +3,9 @@ import { Navigate, Route, Routes } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Loader } from '@/components/Loader';
 import { Navigation } from '@/components/Navigation';
-import { useSession } from '@/providers/SessionProvider';
 import { AdminDashboard } from '@/pages/AdminDashboard';
 import { ProfilePage } from '@/pages/ProfilePage';
+import { useSession } from '@/providers/SessionProvider';
 
 function AdminRoute({ children }: { children: JSX.Element }) {
   const { session } = useSession();
@@ -18,12 +18,36 @@ function AdminRoute({ children }: { children: JSX.Element }) {
 }
 
 export default function App() {
-  const { initData, session, isLoading, error, blockedInfo } = useSession();
+  const { initData, session, isLoading, error, blockedInfo, authError } = useSession();
 
   if (!initData) {
     return <Loader label="Откройте бота из Telegram для загрузки приложения." />;
   }
 
+  if (authError) {
+    return (
+      <Layout>
+        <div className="flex flex-1 items-center justify-center px-4 py-10">
+          <div className="flex w-full max-w-sm flex-col gap-3 rounded-2xl bg-white/5 p-6 text-center">
+            <h1 className="text-xl font-semibold text-tgText">
+              {authError === 'INIT_DATA_EXPIRED' ? 'Сессия устарела' : 'Не удалось подтвердить вход'}
+            </h1>
+            <p className="text-sm text-tgHint">Закройте приложение и откройте его заново из бота.</p>
+            {window.Telegram?.WebApp?.close ? (
+              <button
+                type="button"
+                onClick={() => window.Telegram?.WebApp?.close?.()}
+                className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText"
+              >
+                Закрыть
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
   if (isLoading) {
     return <Loader />;
   }
@@ -0,0 +1,25 @@
+import apiClient from './client';
+
+import type { ApiSalaryAdjustment, SalaryAdjustmentType } from '@/types/api';
+
+export interface SalaryAdjustmentPayload {
+  userId: string;
+  type: SalaryAdjustmentType;
+  amount: number;
+  reason: string;
+  date?: string;
+}
+
+export async function listSalaryAdjustments(params: { userId: string; month?: string }) {
+  const { data } = await apiClient.get<ApiSalaryAdjustment[]>('/adjustments', { params });
+  return data;
+}
+
+export async function createSalaryAdjustment(payload: SalaryAdjustmentPayload) {
+  const { data } = await apiClient.post<ApiSalaryAdjustment>('/adjustments', payload);
+  return data;
+}
+
+export async function deleteSalaryAdjustment(id: string) {
+  await apiClient.delete<void>(`/adjustments/${id}`);
+}
@@ -1,11 +1,12 @@
 import apiClient from './client';
 
-import type { ApiAdmin } from '@/types/api';
+import type { AdminRole, ApiAdmin } from '@/types/api';
 
 export interface UpsertAdminPayload {
   telegramId: string;
   displayName?: string;
   notes?: string;
+  role?: AdminRole;
 }
 
 export async function listAdmins() {
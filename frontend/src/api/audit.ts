@@ -0,0 +1,18 @@
+import apiClient from './client';
+
+import type { AuditAction, AuditEntityType, AuditLogResponse } from '@/types/api';
+
+export interface AuditLogParams {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  startDate?: string;
+  endDate?: string;
+  cursor?: string;
+}
+
+export async function fetchAuditLog(params: AuditLogParams) {
+  const { data } = await apiClient.get<AuditLogResponse>('/audit', { params });
+  return data;
+}
@@ -0,0 +1,17 @@
+import apiClient from './client';
+
+import type { ApiManagedChat } from '@/types/api';
+
+export async function listChats() {
+  const { data } = await apiClient.get<ApiManagedChat[]>('/chats');
+  return data;
+}
+
+export async function addChat(telegramChatId: string) {
+  const { data } = await apiClient.post<ApiManagedChat>('/chats', { telegramChatId });
+  return data;
+}
+
+export async function deleteChat(id: string) {
+  await apiClient.delete<void>(`/chats/${id}`);
+}
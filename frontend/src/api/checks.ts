@@ -2,6 +2,8 @@ import apiClient from './client';
 
 import type {
   ApiCheck,
+  CheckImportReport,
+  CheckStatus,
   ChecksSummaryResponse,
   MySalarySummaryResponse
 } from '@/types/api';
@@ -10,13 +12,16 @@ export type CheckPeriod = 'day' | 'week' | 'month' | 'custom';
 
 export interface ListChecksParams {
   userId?: string;
+  status?: CheckStatus;
   period?: Exclude<CheckPeriod, 'custom'>;
   startDate?: string;
   endDate?: string;
 }
 
+export type ExportFormat = 'csv' | 'xlsx';
+
 export interface CreateCheckPayload {
-  userId: string;
+  userId?: string;
   amount: number;
   note?: string;
 }
@@ -26,6 +31,11 @@ export interface UpdateCheckPayload {
   note?: string;
 }
 
+export interface CreateCheckAdjustmentPayload {
+  amount: number;
+  note?: string;
+}
+
 export async function listChecks(params: ListChecksParams) {
   const { data } = await apiClient.get<ApiCheck[]>('/checks', {
     params
@@ -43,10 +53,62 @@ export async function updateCheck(id: string, payload: UpdateCheckPayload) {
   return data;
 }
 
+export async function createCheckAdjustment(id: string, payload: CreateCheckAdjustmentPayload) {
+  const { data } = await apiClient.post<ApiCheck>(`/checks/${id}/adjustments`, payload);
+  return data;
+}
+
 export async function deleteCheck(id: string) {
   await apiClient.delete<void>(`/checks/${id}`);
 }
 
+export async function uploadCheckAttachments(id: string, files: File[]) {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('photos', file));
+
+  const { data } = await apiClient.post<ApiCheck>(`/checks/${id}/attachments`, formData, {
+    timeout: 60000
+  });
+  return data;
+}
+
+export async function importChecks(file: File, dryRun: boolean) {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+
+  const { data } = await apiClient.post<CheckImportReport>('/checks/import', formData, {
+    timeout: 60000
+  });
+  return data;
+}
+
+export async function fetchCheckAttachment(checkId: string, attachmentId: string) {
+  const { data } = await apiClient.get<Blob>(`/checks/${checkId}/attachments/${attachmentId}`, {
+    responseType: 'blob'
+  });
+  return data;
+}
+
+export async function deleteCheckAttachment(checkId: string, attachmentId: string) {
+  await apiClient.delete<void>(`/checks/${checkId}/attachments/${attachmentId}`);
+}
+
+export async function listPendingChecks() {
+  const { data } = await apiClient.get<ApiCheck[]>('/checks/pending');
+  return data;
+}
+
+export async function approveCheck(id: string) {
+  const { data } = await apiClient.post<ApiCheck>(`/checks/${id}/approve`);
+  return data;
+}
+
+export async function rejectCheck(id: string, reason: string) {
+  const { data } = await apiClient.post<ApiCheck>(`/checks/${id}/reject`, { reason });
+  return data;
+}
+
 export async function fetchChecksSummary(params: { startDate?: string; endDate?: string }) {
   const { data } = await apiClient.get<ChecksSummaryResponse>('/checks/summary', {
     params
@@ -54,6 +116,26 @@ export async function fetchChecksSummary(params: { startDate?: string; endDate?:
   return data;
 }
 
+export async function exportChecks(params: ListChecksParams & { format: ExportFormat }) {
+  const { data } = await apiClient.get<Blob>('/checks/export', {
+    params,
+    responseType: 'blob'
+  });
+  return data;
+}
+
+export async function exportChecksSummary(params: {
+  startDate?: string;
+  endDate?: string;
+  format: ExportFormat;
+}) {
+  const { data } = await apiClient.get<Blob>('/checks/summary/export', {
+    params,
+    responseType: 'blob'
+  });
+  return data;
+}
+
 export async function fetchMySalarySummary(params: { period?: Exclude<CheckPeriod, 'custom'>; startDate?: string; endDate?: string }) {
   const { data } = await apiClient.get<MySalarySummaryResponse>('/checks/summary/self', {
     params
@@ -1,6 +1,7 @@
-import axios from 'axios';
+import axios, { isAxiosError } from 'axios';
 
 import { useSessionStore } from '@/store/sessionStore';
+import type { InitDataErrorCode } from '@/types/api';
 
 const apiClient = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL ?? '/api',
@@ -20,4 +21,25 @@ apiClient.interceptors.request.use((config) => {
   return config;
 });
 
+// Any request can hit an expired launch, not only the session one, so the app reacts globally
+apiClient.interceptors.response.use(undefined, (error) => {
+  if (
+    isAxiosError<{ code?: InitDataErrorCode }>(error) &&
+    error.response?.status === 401 &&
+    error.response.data?.code?.startsWith('INIT_DATA_')
+  ) {
+    useSessionStore.getState().setAuthError(error.response.data.code);
+  }
+
+  return Promise.reject(error);
+});
+
+export function apiErrorMessage(error: unknown, fallback: string) {
+  if (isAxiosError<{ error?: string }>(error) && typeof error.response?.data?.error === 'string') {
+    return error.response.data.error;
+  }
+
+  return fallback;
+}
+
 export default apiClient;
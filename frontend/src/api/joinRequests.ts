@@ -0,0 +1,18 @@
+import apiClient from './client';
+
+import type { ApiJoinRequest } from '@/types/api';
+
+export async function listJoinRequests() {
+  const { data } = await apiClient.get<ApiJoinRequest[]>('/join-requests');
+  return data;
+}
+
+export async function approveJoinRequest(id: string) {
+  const { data } = await apiClient.post<ApiJoinRequest>(`/join-requests/${id}/approve`);
+  return data;
+}
+
+export async function declineJoinRequest(id: string) {
+  const { data } = await apiClient.post<ApiJoinRequest>(`/join-requests/${id}/decline`);
+  return data;
+}
@@ -0,0 +1,32 @@
+import apiClient from './client';
+
+import type { ApiPayout, ApiPayoutBatch, MyPayoutsResponse } from '@/types/api';
+
+export async function fetchMyPayouts() {
+  const { data } = await apiClient.get<MyPayoutsResponse>('/payouts/self');
+  return data;
+}
+
+export async function listPayoutBatches() {
+  const { data } = await apiClient.get<ApiPayoutBatch[]>('/payouts/batches');
+  return data;
+}
+
+export async function createPayoutBatch(month: string) {
+  const { data } = await apiClient.post<ApiPayoutBatch>('/payouts/batches', { month });
+  return data;
+}
+
+export async function deletePayoutBatch(id: string) {
+  await apiClient.delete<void>(`/payouts/batches/${id}`);
+}
+
+export async function markPayoutPaid(id: string, txHash?: string) {
+  const { data } = await apiClient.post<ApiPayout>(`/payouts/${id}/pay`, { txHash });
+  return data;
+}
+
+export async function cancelPayout(id: string) {
+  const { data } = await apiClient.post<ApiPayout>(`/payouts/${id}/cancel`);
+  return data;
+}
@@ -0,0 +1,20 @@
+import apiClient from './client';
+
+// userId is omitted for the signed-in user's own payslip
+const payslipPath = (userId?: string) => `/payslips/${userId ?? 'self'}`;
+
+export async function downloadPayslip(params: { userId?: string; month: string }) {
+  const { data } = await apiClient.get<Blob>(payslipPath(params.userId), {
+    params: { month: params.month },
+    responseType: 'blob'
+  });
+  return data;
+}
+
+export async function sendPayslip(params: { userId?: string; month: string }) {
+  const { data } = await apiClient.post<{ success: boolean; month: string }>(
+    `${payslipPath(params.userId)}/send`,
+    { month: params.month }
+  );
+  return data;
+}
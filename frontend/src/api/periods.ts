@@ -0,0 +1,17 @@
+import apiClient from './client';
+
+import type { ApiPayPeriod } from '@/types/api';
+
+export async function listPayPeriods() {
+  const { data } = await apiClient.get<ApiPayPeriod[]>('/periods');
+  return data;
+}
+
+export async function closePayPeriod(month: string) {
+  const { data } = await apiClient.post<ApiPayPeriod>('/periods', { month });
+  return data;
+}
+
+export async function reopenPayPeriod(id: string) {
+  await apiClient.delete<void>(`/periods/${id}`);
+}
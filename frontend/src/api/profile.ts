@@ -5,6 +5,7 @@ import type { ApiUser } from '@/types/api';
 export interface UpdateProfilePayload {
   payoutUsdtTrc20?: string;
   payoutUsdtBep20?: string;
+  notifyCheckChanges?: boolean;
 }
 
 export async function updateProfile(payload: UpdateProfilePayload) {
@@ -0,0 +1,64 @@
+import apiClient from './client';
+
+import type {
+  DigestKind,
+  DigestSendResponse,
+  DigestSettings,
+  DigestSettingsResponse,
+  SalaryRules,
+  SalaryRulesPreviewResponse,
+  SalaryRulesResponse,
+  TimeZoneSettingsResponse,
+  WarningSettings,
+  WarningSettingsResponse
+} from '@/types/api';
+
+export async function fetchSalaryRules() {
+  const { data } = await apiClient.get<SalaryRulesResponse>('/settings/salary-rules');
+  return data;
+}
+
+export async function updateSalaryRules(rules: SalaryRules) {
+  const { data } = await apiClient.put<SalaryRulesResponse>('/settings/salary-rules', rules);
+  return data;
+}
+
+export async function previewSalaryRules(payload: { rules: SalaryRules; userId: string; month?: string }) {
+  const { data } = await apiClient.post<SalaryRulesPreviewResponse>('/settings/salary-rules/preview', payload);
+  return data;
+}
+
+export async function fetchTimeZone() {
+  const { data } = await apiClient.get<TimeZoneSettingsResponse>('/settings/time-zone');
+  return data;
+}
+
+export async function updateTimeZone(timeZone: string) {
+  const { data } = await apiClient.put<TimeZoneSettingsResponse>('/settings/time-zone', { timeZone });
+  return data;
+}
+
+export async function fetchDigestSettings() {
+  const { data } = await apiClient.get<DigestSettingsResponse>('/settings/digest');
+  return data;
+}
+
+export async function updateDigestSettings(settings: DigestSettings) {
+  const { data } = await apiClient.put<DigestSettingsResponse>('/settings/digest', settings);
+  return data;
+}
+
+export async function sendDigestNow(kind: DigestKind) {
+  const { data } = await apiClient.post<DigestSendResponse>('/settings/digest/send', { kind });
+  return data;
+}
+
+export async function fetchWarningSettings() {
+  const { data } = await apiClient.get<WarningSettingsResponse>('/settings/warnings');
+  return data;
+}
+
+export async function updateWarningSettings(settings: WarningSettings) {
+  const { data } = await apiClient.put<WarningSettingsResponse>('/settings/warnings', settings);
+  return data;
+}
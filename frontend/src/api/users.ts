@@ -1,6 +1,15 @@
 import apiClient from './client';
 
-import type { ApiUser } from '@/types/api';
+import type {
+  ApiChatMembership,
+  ApiCommissionRate,
+  ApiModerationEvent,
+  ApiUser,
+  ChatSelection,
+  ModerationResponse,
+  UserWarningsResponse,
+  WarnUserResponse
+} from '@/types/api';
 
 export interface UpsertUserPayload {
   telegramId: string;
@@ -15,6 +24,7 @@ export interface UpsertUserPayload {
   payoutUsdtBep20?: string;
   chatId?: string;
   commissionPercent?: number | null;
+  commissionEffectiveFrom?: string;
   isPartner?: boolean;
 }
 
@@ -23,6 +33,16 @@ export async function listUsers() {
   return data;
 }
 
+export async function listCommissionHistory(id: string) {
+  const { data } = await apiClient.get<ApiCommissionRate[]>(`/users/${id}/commission-history`);
+  return data;
+}
+
+export async function listModerationEvents(id: string) {
+  const { data } = await apiClient.get<ApiModerationEvent[]>(`/users/${id}/moderation`);
+  return data;
+}
+
 export async function createUser(payload: UpsertUserPayload) {
   const { data } = await apiClient.post<ApiUser>('/users', payload);
   return data;
@@ -37,22 +57,40 @@ export async function deleteUser(id: string) {
   await apiClient.delete<void>(`/users/${id}`);
 }
 
-export async function muteUser(id: string, payload: { durationMinutes?: number; until?: string; chatId?: string }) {
-  const { data } = await apiClient.post<ApiUser>(`/users/${id}/mute`, payload);
+export async function muteUser(
+  id: string,
+  payload: { durationMinutes?: number; until?: string; chats?: ChatSelection }
+) {
+  const { data } = await apiClient.post<ModerationResponse>(`/users/${id}/mute`, payload);
+  return data;
+}
+
+export async function unmuteUser(id: string, payload: { chats?: ChatSelection }) {
+  const { data } = await apiClient.post<ModerationResponse>(`/users/${id}/unmute`, payload);
+  return data;
+}
+
+export async function blockUser(id: string, payload: { chats?: ChatSelection; reason?: string }) {
+  const { data } = await apiClient.post<ModerationResponse>(`/users/${id}/block`, payload);
+  return data;
+}
+
+export async function unblockUser(id: string, payload: { chats?: ChatSelection }) {
+  const { data } = await apiClient.post<ModerationResponse>(`/users/${id}/unblock`, payload);
   return data;
 }
 
-export async function unmuteUser(id: string, payload: { chatId?: string }) {
-  const { data } = await apiClient.post<ApiUser>(`/users/${id}/unmute`, payload);
+export async function listUserChats(id: string) {
+  const { data } = await apiClient.get<ApiChatMembership[]>(`/users/${id}/chats`);
   return data;
 }
 
-export async function blockUser(id: string, payload: { chatId?: string; reason?: string }) {
-  const { data } = await apiClient.post<ApiUser>(`/users/${id}/block`, payload);
+export async function warnUser(id: string, payload: { chatId?: string; reason?: string; points?: number }) {
+  const { data } = await apiClient.post<WarnUserResponse>(`/users/${id}/warn`, payload);
   return data;
 }
 
-export async function unblockUser(id: string, payload: { chatId?: string }) {
-  const { data } = await apiClient.post<ApiUser>(`/users/${id}/unblock`, payload);
+export async function listWarnings(id: string) {
+  const { data } = await apiClient.get<UserWarningsResponse>(`/users/${id}/warnings`);
   return data;
 }
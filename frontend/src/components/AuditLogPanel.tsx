@@ -0,0 +1,238 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+
+import { fetchAuditLog } from '@/api/audit';
+import type { ApiAdmin, ApiAuditEntry, AuditAction, AuditEntityType } from '@/types/api';
+import { zonedDateFormatter } from '@/utils/timeZone';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'admin.create': 'Добавлен администратор',
+  'admin.update': 'Изменён администратор',
+  'admin.delete': 'Удалён администратор',
+  'user.create': 'Добавлен пользователь',
+  'user.update': 'Изменён пользователь',
+  'user.mute': 'Мут в чате',
+  'user.unmute': 'Мут снят',
+  'user.block': 'Блокировка',
+  'user.unblock': 'Блокировка снята',
+  'user.warn': 'Предупреждение',
+  'user.join.approve': 'Заявка одобрена',
+  'user.join.decline': 'Заявка отклонена',
+  'user.delete': 'Удалён пользователь',
+  'check.create': 'Создан чек',
+  'check.import': 'Импорт чеков',
+  'check.update': 'Изменён чек',
+  'check.delete': 'Удалён чек',
+  'check.approve': 'Чек подтверждён',
+  'check.reject': 'Чек отклонён',
+  'check.adjust': 'Корректировка чека',
+  'check.attachments.add': 'Добавлены фото чека',
+  'check.attachments.delete': 'Удалено фото чека',
+  'profile.update': 'Изменён профиль',
+  'payout.batch.create': 'Сформированы выплаты',
+  'payout.batch.delete': 'Удалён пакет выплат',
+  'payout.pay': 'Выплата проведена',
+  'payout.cancel': 'Выплата отменена',
+  'period.close': 'Период закрыт',
+  'period.reopen': 'Период открыт заново',
+  'adjustment.create': 'Добавлено начисление',
+  'adjustment.delete': 'Удалено начисление',
+  'setting.update': 'Изменены настройки',
+  'chat.create': 'Подключён чат',
+  'chat.delete': 'Отключён чат'
+};
+
+const ENTITY_TYPE_LABELS: Record<AuditEntityType, string> = {
+  admin: 'Администраторы',
+  user: 'Пользователи',
+  check: 'Чеки',
+  profile: 'Профили',
+  payout: 'Выплаты',
+  period: 'Периоды',
+  adjustment: 'Начисления',
+  setting: 'Настройки',
+  chat: 'Чаты'
+};
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'short', timeStyle: 'short' });
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function AuditChanges({ entry }: { entry: ApiAuditEntry }) {
+  const keys = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+
+  if (keys.length === 0) {
+    return <p className="text-xs text-tgHint">Без изменений полей.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-0.5 text-xs">
+      {keys.map((key) => (
+        <p key={key} className="break-all text-tgHint">
+          <span className="text-tgText">{key}:</span>{' '}
+          {entry.before ? `${formatValue(entry.before[key])} → ` : ''}
+          {entry.after ? formatValue(entry.after[key]) : 'удалено'}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface AuditLogPanelProps {
+  admins: ApiAdmin[];
+}
+
+export function AuditLogPanel({ admins }: AuditLogPanelProps) {
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [actor, setActor] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const filters = {
+    action: action || undefined,
+    entityType: entityType || undefined,
+    actor: actor || undefined,
+    entityId: entityId || undefined,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined
+  };
+
+  const auditQuery = useInfiniteQuery({
+    queryKey: ['audit-log', filters],
+    queryFn: ({ pageParam }) => fetchAuditLog({ ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined
+  });
+
+  const entries = auditQuery.data?.pages.flatMap((page) => page.entries) ?? [];
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg font-semibold text-tgText">Журнал действий</h2>
+        <p className="text-sm text-tgHint">
+          Кто и когда менял администраторов, пользователей, чеки и профили. Показаны только
+          изменённые поля.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={entityType}
+          onChange={(event) => setEntityType(event.target.value as AuditEntityType | '')}
+          className={inputClass}
+        >
+          <option value="">Все разделы</option>
+          {(Object.keys(ENTITY_TYPE_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>
+              {ENTITY_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={action}
+          onChange={(event) => setAction(event.target.value as AuditAction | '')}
+          className={inputClass}
+        >
+          <option value="">Все действия</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[])
+            .filter((item) => !entityType || item.startsWith(`${entityType}.`))
+            .map((item) => (
+              <option key={item} value={item}>
+                {AUDIT_ACTION_LABELS[item]}
+              </option>
+            ))}
+        </select>
+        <select value={actor} onChange={(event) => setActor(event.target.value)} className={inputClass}>
+          <option value="">Все исполнители</option>
+          {admins.map((admin) => (
+            <option key={admin.id} value={admin.telegramId}>
+              {admin.displayName || admin.telegramId}
+            </option>
+          ))}
+        </select>
+        <input
+          value={entityId}
+          onChange={(event) => setEntityId(event.target.value.trim())}
+          placeholder="ID объекта"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={startDate}
+          onChange={(event) => setStartDate(event.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={endDate}
+          onChange={(event) => setEndDate(event.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {auditQuery.isLoading ? (
+        <p className="text-sm text-tgHint">Загрузка журнала...</p>
+      ) : auditQuery.isError ? (
+        <p className="text-sm text-red-400">Не удалось загрузить журнал.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-tgHint">Записей нет.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex flex-col gap-1 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-3"
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-semibold text-tgText">
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                </span>
+                <span className="text-xs text-tgHint">{dateFormatter.format(new Date(entry.createdAt))}</span>
+              </div>
+              <p className="text-xs text-tgHint">
+                {entry.actorName ?? entry.actorTelegramId ?? 'Неизвестно'}
+                {entry.actorIsAdmin ? '' : ' (сам пользователь)'}
+                {entry.entityId ? (
+                  <>
+                    {' · '}
+                    <button
+                      type="button"
+                      onClick={() => setEntityId(entry.entityId ?? '')}
+                      className="underline decoration-dotted"
+                    >
+                      {entry.entityId}
+                    </button>
+                  </>
+                ) : null}
+              </p>
+              <AuditChanges entry={entry} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {auditQuery.hasNextPage ? (
+        <button
+          type="button"
+          onClick={() => auditQuery.fetchNextPage()}
+          disabled={auditQuery.isFetchingNextPage}
+          className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+        >
+          {auditQuery.isFetchingNextPage ? 'Загрузка...' : 'Показать ещё'}
+        </button>
+      ) : null}
+    </div>
+  );
+}
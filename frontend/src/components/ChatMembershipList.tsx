@@ -0,0 +1,63 @@
+import type { ApiChatMembership, ChatMemberStatus } from '@/types/api';
+import { zonedDateFormatter } from '@/utils/timeZone';
+
+const STATUS_LABELS: Record<ChatMemberStatus, string> = {
+  creator: 'владелец',
+  administrator: 'администратор',
+  member: 'в чате',
+  restricted: 'ограничен',
+  left: 'не в чате',
+  kicked: 'исключён'
+};
+
+const STATUS_COLORS: Record<ChatMemberStatus, string> = {
+  creator: 'text-tgText',
+  administrator: 'text-tgText',
+  member: 'text-tgText',
+  restricted: 'text-yellow-300',
+  left: 'text-tgHint',
+  kicked: 'text-red-400'
+};
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'short' });
+
+function membershipDetails(membership: ApiChatMembership) {
+  const isGone = membership.status === 'left' || membership.status === 'kicked';
+  const details: string[] = [];
+
+  if (isGone && membership.leftAt) {
+    details.push(dateFormatter.format(new Date(membership.leftAt)));
+  } else if (!isGone && membership.joinedAt) {
+    details.push(`с ${dateFormatter.format(new Date(membership.joinedAt))}`);
+  }
+
+  if (!isGone && membership.invitedByTelegramId) {
+    details.push(`пригласил ${membership.invitedByName ?? `ID ${membership.invitedByTelegramId}`}`);
+  }
+
+  return details.join(', ');
+}
+
+export function ChatMembershipList({ memberships }: { memberships: ApiChatMembership[] }) {
+  if (memberships.length === 0) {
+    return <p className="text-xs text-tgHint">Не замечен в чатах</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-0.5 text-xs">
+      {memberships.map((membership) => (
+        <li key={membership.id} className="text-tgHint">
+          {membership.chat.title ?? membership.chat.telegramChatId}:{' '}
+          {membership.isBanned ? (
+            <span className="text-red-400">заблокирован</span>
+          ) : (
+            <span className={STATUS_COLORS[membership.status]}>
+              {STATUS_LABELS[membership.status]}
+            </span>
+          )}
+          {membershipDetails(membership) ? ` (${membershipDetails(membership)})` : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,114 @@
+import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+
+import { fetchCheckAttachment } from '@/api/checks';
+import { MobileModal } from '@/components/MobileModal';
+import type { ApiCheck, ApiCheckAttachment } from '@/types/api';
+
+interface CheckAttachmentsProps {
+  check: Pick<ApiCheck, 'id' | 'attachments'>;
+  onDelete?: (attachment: ApiCheckAttachment) => void;
+  disabled?: boolean;
+}
+
+// Photos are served behind Telegram init data auth, so they are loaded as blobs instead of plain <img src>
+function useAttachmentUrl(checkId: string, attachmentId: string) {
+  const [url, setUrl] = useState<string | null>(null);
+  const { data, isError } = useQuery({
+    queryKey: ['check-attachment', checkId, attachmentId],
+    queryFn: () => fetchCheckAttachment(checkId, attachmentId),
+    staleTime: Infinity
+  });
+
+  useEffect(() => {
+    if (!data) {
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(data);
+    setUrl(objectUrl);
+
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data]);
+
+  return { url, isError };
+}
+
+function AttachmentThumbnail({
+  checkId,
+  attachment,
+  onOpen
+}: {
+  checkId: string;
+  attachment: ApiCheckAttachment;
+  onOpen: (url: string) => void;
+}) {
+  const { url, isError } = useAttachmentUrl(checkId, attachment.id);
+
+  return (
+    <button
+      type="button"
+      onClick={() => url && onOpen(url)}
+      disabled={!url}
+      className="flex h-16 w-16 items-center justify-center overflow-hidden rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-white/5 text-[10px] text-tgHint"
+    >
+      {url ? (
+        <img src={url} alt="Фото чека" className="h-full w-full object-cover" />
+      ) : isError ? (
+        'Ошибка'
+      ) : (
+        '…'
+      )}
+    </button>
+  );
+}
+
+export function CheckAttachments({ check, onDelete, disabled }: CheckAttachmentsProps) {
+  const [preview, setPreview] = useState<{ url: string; attachment: ApiCheckAttachment } | null>(
+    null
+  );
+
+  if (check.attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {check.attachments.map((attachment) => (
+          <AttachmentThumbnail
+            key={attachment.id}
+            checkId={check.id}
+            attachment={attachment}
+            onOpen={(url) => setPreview({ url, attachment })}
+          />
+        ))}
+      </div>
+
+      <MobileModal
+        open={Boolean(preview)}
+        title="Фото чека"
+        onClose={() => setPreview(null)}
+        footer={
+          preview && onDelete ? (
+            <button
+              type="button"
+              onClick={() => {
+                onDelete(preview.attachment);
+                setPreview(null);
+              }}
+              disabled={disabled}
+              className="rounded-xl bg-red-500/80 px-4 py-2 text-sm text-white disabled:opacity-60"
+            >
+              Удалить фото
+            </button>
+          ) : undefined
+        }
+      >
+        {preview ? (
+          <img src={preview.url} alt="Фото чека" className="w-full rounded-2xl object-contain" />
+        ) : null}
+      </MobileModal>
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { importChecks } from '@/api/checks';
+import { apiErrorMessage } from '@/api/client';
+import type { CheckImportReport } from '@/types/api';
+
+const MAX_ERRORS_SHOWN = 50;
+
+const currencyFormatter = new Intl.NumberFormat('ru-RU', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+export function CheckImportPanel() {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<CheckImportReport | null>(null);
+  const [inputKey, setInputKey] = useState(0);
+
+  const dryRunMutation = useMutation({
+    mutationFn: (selected: File) => importChecks(selected, true),
+    onSuccess: (data) => setReport(data),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось проверить файл'))
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: (selected: File) => importChecks(selected, false),
+    onSuccess: async (data) => {
+      toast.success(`Импортировано чеков: ${data.imported}`);
+      setFile(null);
+      setReport(null);
+      setInputKey((key) => key + 1);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['check-summary'] }),
+        queryClient.invalidateQueries({ queryKey: ['my-salary'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось импортировать чеки'))
+  });
+
+  const isBusy = dryRunMutation.isPending || commitMutation.isPending;
+  const canCommit = Boolean(file && report && report.errors.length === 0 && report.valid > 0);
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-base font-semibold text-tgText">Импорт чеков из CSV</h2>
+        <p className="text-sm text-tgHint">
+          Колонки: telegramId или username, amount, date (ГГГГ-ММ-ДД или ДД.ММ.ГГГГ, можно со временем),
+          note. Чеки создаются подтверждёнными и только если в файле нет ни одной ошибки.
+        </p>
+      </div>
+
+      <input
+        key={inputKey}
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(event) => {
+          setFile(event.target.files?.[0] ?? null);
+          setReport(null);
+        }}
+        className="text-sm text-tgText file:mr-3 file:rounded-xl file:border-0 file:bg-white/10 file:px-3 file:py-1 file:text-sm file:text-tgText"
+      />
+
+      {report ? (
+        <div className="flex flex-col gap-2 text-sm">
+          <p className="text-tgText">
+            Строк: {report.total} · Готово к импорту: {report.valid} ·{' '}
+            {currencyFormatter.format(report.amount)} AED
+          </p>
+          {report.unmatchedUsers.length > 0 ? (
+            <p className="text-xs text-yellow-200">
+              Не найдены пользователи: {report.unmatchedUsers.join(', ')}
+            </p>
+          ) : null}
+          {report.errors.length > 0 ? (
+            <div className="flex max-h-48 flex-col gap-1 overflow-y-auto rounded-xl bg-red-500/10 p-3 text-xs text-red-300">
+              {report.errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+                <span key={`${error.line}-${index}`}>
+                  Строка {error.line}: {error.message}
+                </span>
+              ))}
+              {report.errors.length > MAX_ERRORS_SHOWN ? (
+                <span>И ещё ошибок: {report.errors.length - MAX_ERRORS_SHOWN}</span>
+              ) : null}
+            </div>
+          ) : (
+            <p className="text-xs text-green-300">Ошибок нет.</p>
+          )}
+        </div>
+      ) : null}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => file && dryRunMutation.mutate(file)}
+          disabled={!file || isBusy}
+          className="flex-1 rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+        >
+          Проверить
+        </button>
+        <button
+          type="button"
+          onClick={() => file && commitMutation.mutate(file)}
+          disabled={!canCommit || isBusy}
+          className="flex-1 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+        >
+          Импортировать
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { fetchDigestSettings, sendDigestNow, updateDigestSettings } from '@/api/settings';
+import type { DigestKind, DigestSettings as DigestSettingsValue } from '@/types/api';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const checkboxClass =
+  'h-5 w-5 rounded border border-white/30 bg-white/10 accent-[color:var(--tg-theme-accent-text-color,#5aa7ff)]';
+
+// Week starts on Monday; values follow Date#getDay
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Понедельник' },
+  { value: 2, label: 'Вторник' },
+  { value: 3, label: 'Среда' },
+  { value: 4, label: 'Четверг' },
+  { value: 5, label: 'Пятница' },
+  { value: 6, label: 'Суббота' },
+  { value: 0, label: 'Воскресенье' }
+];
+
+const DIGEST_KIND_LABELS: Record<DigestKind, string> = {
+  daily: 'Ежедневный',
+  weekly: 'Еженедельный'
+};
+
+export function DigestSettings() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DigestSettingsValue | null>(null);
+
+  const digestQuery = useQuery({
+    queryKey: ['digest-settings'],
+    queryFn: fetchDigestSettings
+  });
+
+  useEffect(() => {
+    if (digestQuery.data) {
+      setDraft(digestQuery.data.settings);
+    }
+  }, [digestQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: updateDigestSettings,
+    onSuccess: async () => {
+      toast.success('Настройки отчётов сохранены');
+      await queryClient.invalidateQueries({ queryKey: ['digest-settings'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось сохранить настройки отчётов'))
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: sendDigestNow,
+    onSuccess: (result) => {
+      if (result.failed > 0) {
+        toast.error(`Отправлено в ${result.sent} из ${result.recipients} чатов`);
+      } else {
+        toast.success(`Отчёт отправлен в ${result.sent} чат(ов)`);
+      }
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось отправить отчёт'))
+  });
+
+  if (digestQuery.isError) {
+    return <p className="text-sm text-red-400">Не удалось загрузить настройки отчётов.</p>;
+  }
+
+  if (!draft) {
+    return <p className="text-sm text-tgHint">Загрузка настроек отчётов...</p>;
+  }
+
+  const update = (patch: Partial<DigestSettingsValue>) => setDraft({ ...draft, ...patch });
+  const isBusy = saveMutation.isPending || sendMutation.isPending;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg font-semibold text-tgText">Отчёты в Telegram</h2>
+        <p className="text-sm text-tgHint">
+          Бот присылает итоги за день, неделю и месяц, лучших сотрудников и тех, у кого не было
+          чеков. Время — по часовому поясу хостела.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-tgText">
+        <input
+          type="checkbox"
+          checked={draft.daily.enabled}
+          onChange={(event) => update({ daily: { ...draft.daily, enabled: event.target.checked } })}
+          className={checkboxClass}
+        />
+        Ежедневный отчёт
+      </label>
+      <input
+        type="time"
+        value={draft.daily.time}
+        onChange={(event) => update({ daily: { ...draft.daily, time: event.target.value } })}
+        disabled={!draft.daily.enabled}
+        className={inputClass}
+      />
+
+      <label className="flex items-center gap-2 text-sm text-tgText">
+        <input
+          type="checkbox"
+          checked={draft.weekly.enabled}
+          onChange={(event) => update({ weekly: { ...draft.weekly, enabled: event.target.checked } })}
+          className={checkboxClass}
+        />
+        Еженедельный отчёт
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={draft.weekly.weekday}
+          onChange={(event) =>
+            update({ weekly: { ...draft.weekly, weekday: Number(event.target.value) } })
+          }
+          disabled={!draft.weekly.enabled}
+          className={inputClass}
+        >
+          {WEEKDAY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="time"
+          value={draft.weekly.time}
+          onChange={(event) => update({ weekly: { ...draft.weekly, time: event.target.value } })}
+          disabled={!draft.weekly.enabled}
+          className={inputClass}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-tgText">
+        <input
+          type="checkbox"
+          checked={draft.sendToAdmins}
+          onChange={(event) => update({ sendToAdmins: event.target.checked })}
+          className={checkboxClass}
+        />
+        Отправлять всем администраторам
+      </label>
+
+      <label className="flex flex-col gap-1 text-sm text-tgText">
+        Групповой чат (chat_id, необязательно)
+        <input
+          value={draft.groupChatId ?? ''}
+          onChange={(event) => update({ groupChatId: event.target.value })}
+          placeholder="-1001234567890"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-sm text-tgText">
+        Сотрудников в топе
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={draft.topCount}
+          onChange={(event) => update({ topCount: Number(event.target.value) })}
+          className={inputClass}
+        />
+      </label>
+
+      <button
+        type="button"
+        onClick={() => saveMutation.mutate(draft)}
+        disabled={isBusy}
+        className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+      >
+        Сохранить
+      </button>
+
+      <div className="flex gap-2">
+        {(['daily', 'weekly'] as const).map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => sendMutation.mutate(kind)}
+            disabled={isBusy}
+            className="flex-1 rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+          >
+            {DIGEST_KIND_LABELS[kind]} сейчас
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-tgHint">Отправка сейчас использует сохранённые настройки.</p>
+    </div>
+  );
+}
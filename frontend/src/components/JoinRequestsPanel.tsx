@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { approveJoinRequest, declineJoinRequest, listJoinRequests } from '@/api/joinRequests';
+import { chatLabel } from '@/components/ModerationChatPicker';
+import type { ApiJoinRequest } from '@/types/api';
+import { zonedDateFormatter } from '@/utils/timeZone';
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'short', timeStyle: 'short' });
+
+function requesterName(request: ApiJoinRequest) {
+  const { user } = request;
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || (user.username ? `@${user.username}` : `ID ${user.telegramId}`);
+}
+
+// Pending requests to join managed chats; the same decision is available from the bot message
+export function JoinRequestsPanel() {
+  const queryClient = useQueryClient();
+
+  const requestsQuery = useQuery({ queryKey: ['join-requests'], queryFn: listJoinRequests });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, approve }: { id: string; approve: boolean }) =>
+      approve ? approveJoinRequest(id) : declineJoinRequest(id),
+    onSuccess: async (request) => {
+      toast.success(request.status === 'approved' ? 'Заявка одобрена' : 'Заявка отклонена');
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось рассмотреть заявку')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['join-requests'] })
+  });
+
+  const requests = requestsQuery.data ?? [];
+
+  if (requestsQuery.isError) {
+    return <p className="text-sm text-red-400">Не удалось загрузить заявки на вступление.</p>;
+  }
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl bg-white/5 p-4">
+      <h3 className="text-base font-semibold text-tgText">Заявки на вступление ({requests.length})</h3>
+      {requests.map((request) => (
+        <div key={request.id} className="flex flex-col gap-2 border-t border-white/10 pt-2">
+          <div className="flex flex-col gap-0.5">
+            <p className="text-sm text-tgText">
+              {requesterName(request)}
+              {request.user.username ? (
+                <span className="text-tgHint"> @{request.user.username}</span>
+              ) : null}
+            </p>
+            <p className="text-xs text-tgHint">
+              {chatLabel(request.chat.title, request.chat.telegramChatId)} ·{' '}
+              {dateFormatter.format(new Date(request.createdAt))}
+            </p>
+            {request.bio ? <p className="text-xs text-tgHint">{request.bio}</p> : null}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => decideMutation.mutate({ id: request.id, approve: true })}
+              disabled={decideMutation.isPending}
+              className="rounded-xl bg-tgButton px-3 py-1 text-xs font-semibold text-tgButtonText disabled:opacity-60"
+            >
+              Одобрить
+            </button>
+            <button
+              type="button"
+              onClick={() => decideMutation.mutate({ id: request.id, approve: false })}
+              disabled={decideMutation.isPending}
+              className="rounded-xl border border-white/20 px-3 py-1 text-xs disabled:opacity-60"
+            >
+              Отклонить
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
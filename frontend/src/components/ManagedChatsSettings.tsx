@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { addChat, deleteChat, listChats } from '@/api/chats';
+import { apiErrorMessage } from '@/api/client';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+export function ManagedChatsSettings() {
+  const queryClient = useQueryClient();
+  const [chatId, setChatId] = useState('');
+
+  const chatsQuery = useQuery({
+    queryKey: ['chats'],
+    queryFn: listChats
+  });
+
+  const addMutation = useMutation({
+    mutationFn: addChat,
+    onSuccess: async (chat) => {
+      toast.success(`Чат ${chat.title ?? chat.telegramChatId} подключён`);
+      setChatId('');
+      await queryClient.invalidateQueries({ queryKey: ['chats'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось подключить чат'))
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteChat,
+    onSuccess: async () => {
+      toast.success('Чат отключён');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['chats'] }),
+        queryClient.invalidateQueries({ queryKey: ['user-chats'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось отключить чат'))
+  });
+
+  const chats = chatsQuery.data ?? [];
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg font-semibold text-tgText">Чаты</h2>
+        <p className="text-sm text-tgHint">
+          Групповые чаты, в которых бот — администратор. Мут и блокировку можно применить в одном,
+          нескольких или во всех этих чатах.
+        </p>
+      </div>
+
+      {chatsQuery.isLoading ? (
+        <p className="text-sm text-tgHint">Загрузка чатов...</p>
+      ) : chatsQuery.isError ? (
+        <p className="text-sm text-red-400">Не удалось загрузить чаты.</p>
+      ) : chats.length === 0 ? (
+        <p className="text-sm text-tgHint">Чаты не подключены.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {chats.map((chat) => (
+            <li key={chat.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex flex-col">
+                <span className="text-tgText">{chat.title ?? 'Без названия'}</span>
+                <span className="text-xs text-tgHint">
+                  {chat.telegramChatId} · участников в базе: {chat.memberCount}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(chat.id)}
+                disabled={deleteMutation.isPending}
+                className="shrink-0 text-sm text-red-400 disabled:opacity-60"
+              >
+                Отключить
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="flex flex-col gap-1 text-sm text-tgText">
+        chat_id группы
+        <input
+          value={chatId}
+          onChange={(event) => setChatId(event.target.value)}
+          placeholder="-1001234567890"
+          className={inputClass}
+        />
+      </label>
+      <button
+        type="button"
+        onClick={() => addMutation.mutate(chatId.trim())}
+        disabled={addMutation.isPending || !chatId.trim()}
+        className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+      >
+        Подключить чат
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+
+import { listChats } from '@/api/chats';
+import { listUserChats } from '@/api/users';
+import type { ChatActionResult, ChatSelection } from '@/types/api';
+
+const checkboxClass =
+  'h-4 w-4 rounded border border-white/30 bg-white/10 accent-[color:var(--tg-theme-accent-text-color,#5aa7ff)]';
+
+export function chatLabel(title: string | null, telegramChatId: string) {
+  return title ?? telegramChatId;
+}
+
+// Empty selection means the user's own chats, which is what the API does without `chats`
+export function toChatSelection(value: ChatSelection) {
+  return Array.isArray(value) && value.length === 0 ? undefined : value;
+}
+
+// Success toast for a moderation action, or an error one naming the chats where it failed
+export function toastChatResults(success: string, results: ChatActionResult[]) {
+  const failed = results.filter((result) => !result.ok);
+
+  if (failed.length === 0) {
+    toast.success(success);
+    return;
+  }
+
+  const names = failed.map((result) => chatLabel(result.title, result.chatId)).join(', ');
+  toast.error(`${success}, но не в чатах: ${names}`);
+}
+
+interface ModerationChatPickerProps {
+  userId: string;
+  value: ChatSelection;
+  onChange: (value: ChatSelection) => void;
+}
+
+export function ModerationChatPicker({ userId, value, onChange }: ModerationChatPickerProps) {
+  const chatsQuery = useQuery({ queryKey: ['chats'], queryFn: listChats });
+  const userChatsQuery = useQuery({
+    queryKey: ['user-chats', userId],
+    queryFn: () => listUserChats(userId)
+  });
+
+  const chats = chatsQuery.data ?? [];
+  const memberOf = new Set(
+    (userChatsQuery.data ?? [])
+      .filter((membership) => membership.status !== 'left' && membership.status !== 'kicked')
+      .map((membership) => membership.chatId)
+  );
+  const bannedIn = new Set(
+    (userChatsQuery.data ?? [])
+      .filter((membership) => membership.isBanned)
+      .map((membership) => membership.chatId)
+  );
+  const selected = value === 'all' ? [] : value;
+
+  const toggle = (telegramChatId: string, checked: boolean) =>
+    onChange(
+      checked
+        ? [...selected, telegramChatId]
+        : selected.filter((chatId) => chatId !== telegramChatId)
+    );
+
+  if (chatsQuery.isError) {
+    return <p className="text-xs text-red-400">Не удалось загрузить список чатов.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-tgHint">Чаты</h4>
+      <label className="flex items-center gap-2 text-xs text-tgText">
+        <input
+          type="checkbox"
+          checked={value === 'all'}
+          onChange={(event) => onChange(event.target.checked ? 'all' : [])}
+          className={checkboxClass}
+        />
+        Все чаты ({chats.length})
+      </label>
+      {chats.map((chat) => (
+        <label key={chat.id} className="flex items-center gap-2 text-xs text-tgText">
+          <input
+            type="checkbox"
+            checked={value === 'all' || selected.includes(chat.telegramChatId)}
+            disabled={value === 'all'}
+            onChange={(event) => toggle(chat.telegramChatId, event.target.checked)}
+            className={checkboxClass}
+          />
+          {chatLabel(chat.title, chat.telegramChatId)}
+          {bannedIn.has(chat.id) ? (
+            <span className="text-red-400">· заблокирован</span>
+          ) : memberOf.has(chat.id) ? (
+            <span className="text-tgHint">· участник</span>
+          ) : null}
+        </label>
+      ))}
+      {value !== 'all' && selected.length === 0 ? (
+        <p className="text-xs text-tgHint">
+          Ничего не выбрано — действие применится в чатах, где состоит пользователь.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { listModerationEvents } from '@/api/users';
+import type { ApiModerationEvent, ModerationAction } from '@/types/api';
+import { zonedDateFormatter } from '@/utils/timeZone';
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  mute: 'Мут',
+  unmute: 'Мут снят',
+  block: 'Блокировка',
+  unblock: 'Блокировка снята',
+  warn: 'Предупреждение'
+};
+
+const ACTION_COLORS: Record<ModerationAction, string> = {
+  mute: 'bg-yellow-300',
+  unmute: 'bg-tgButton',
+  block: 'bg-red-500',
+  unblock: 'bg-tgButton',
+  warn: 'bg-orange-400'
+};
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'short', timeStyle: 'short' });
+
+function formatDuration(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} дн.`;
+  }
+
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} ч`;
+  }
+
+  return `${minutes} мин`;
+}
+
+function eventDetails(event: ApiModerationEvent) {
+  const details: string[] = [];
+
+  if (event.durationMinutes) {
+    details.push(formatDuration(event.durationMinutes));
+  }
+
+  if (event.until) {
+    details.push(`до ${dateFormatter.format(new Date(event.until))}`);
+  }
+
+  if (event.chatId) {
+    details.push(`чат ${event.chatId}`);
+  }
+
+  return details.join(' · ');
+}
+
+export function ModerationHistory({ userId }: { userId: string }) {
+  const eventsQuery = useQuery({
+    queryKey: ['moderation-events', userId],
+    queryFn: () => listModerationEvents(userId)
+  });
+
+  const events = eventsQuery.data ?? [];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-tgHint">История</h4>
+      {eventsQuery.isLoading ? (
+        <p className="text-xs text-tgHint">Загрузка истории...</p>
+      ) : eventsQuery.isError ? (
+        <p className="text-xs text-red-400">Не удалось загрузить историю модерации.</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-tgHint">Санкций не было.</p>
+      ) : (
+        <ol className="flex flex-col gap-3 border-l border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] pl-3">
+          {events.map((event) => (
+            <li key={event.id} className="relative flex flex-col gap-0.5 text-xs">
+              <span
+                className={`absolute -left-[17px] top-1 h-2 w-2 rounded-full ${ACTION_COLORS[event.action]}`}
+              />
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-semibold text-tgText">{ACTION_LABELS[event.action]}</span>
+                <span className="text-tgHint">{dateFormatter.format(new Date(event.createdAt))}</span>
+              </div>
+              {eventDetails(event) ? <p className="text-tgHint">{eventDetails(event)}</p> : null}
+              {event.reason ? <p className="text-tgText">{event.reason}</p> : null}
+              <p className="text-tgHint">
+                {event.actorTelegramId
+                  ? event.actorName ?? `ID ${event.actorTelegramId}`
+                  : 'Автоматически'}
+              </p>
+              {event.telegramOk === false ? (
+                <p className="text-red-400">
+                  Telegram не применил действие{event.telegramError ? `: ${event.telegramError}` : ''}
+                </p>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
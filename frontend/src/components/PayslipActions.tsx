@@ -0,0 +1,83 @@
+import { useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { downloadPayslip, sendPayslip } from '@/api/payslips';
+import { toMonthInputValue } from '@/utils/timeZone';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+function downloadBlob(blob: Blob, filename: string) {
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = blobUrl;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+}
+
+interface PayslipActionsProps {
+  // Without a userId the signed-in user's own payslip is used
+  userId?: string;
+}
+
+export function PayslipActions({ userId }: PayslipActionsProps) {
+  const [month, setMonth] = useState(() => toMonthInputValue(new Date()));
+
+  const downloadMutation = useMutation({
+    mutationFn: () => downloadPayslip({ userId, month }),
+    onSuccess: (blob) => downloadBlob(blob, `payslip-${month}.pdf`),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось скачать листок'))
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => sendPayslip({ userId, month }),
+    onSuccess: () => toast.success('Листок отправлен в Telegram'),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось отправить листок'))
+  });
+
+  const isBusy = downloadMutation.isPending || sendMutation.isPending;
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-4">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-sm font-semibold text-tgText">Расчётный листок</h3>
+        <p className="text-xs text-tgHint">
+          PDF со всеми чеками, процентом, начислениями и выплатами за месяц. Для незакрытого месяца
+          расчёт предварительный.
+        </p>
+      </div>
+
+      <input
+        type="month"
+        value={month}
+        onChange={(event) => setMonth(event.target.value)}
+        className={inputClass}
+      />
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => downloadMutation.mutate()}
+          disabled={!month || isBusy}
+          className="flex-1 rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+        >
+          Скачать PDF
+        </button>
+        <button
+          type="button"
+          onClick={() => sendMutation.mutate()}
+          disabled={!month || isBusy}
+          className="flex-1 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+        >
+          Отправить в Telegram
+        </button>
+      </div>
+    </div>
+  );
+}
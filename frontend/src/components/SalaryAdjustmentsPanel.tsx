@@ -0,0 +1,204 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import {
+  createSalaryAdjustment,
+  deleteSalaryAdjustment,
+  listSalaryAdjustments
+} from '@/api/adjustments';
+import { apiErrorMessage } from '@/api/client';
+import type { SalaryAdjustmentType } from '@/types/api';
+import { toMonthInputValue, zonedDateFormatter } from '@/utils/timeZone';
+
+const ADJUSTMENT_TYPE_OPTIONS: { id: SalaryAdjustmentType; label: string; hint: string }[] = [
+  { id: 'bonus', label: 'Премия', hint: 'Добавляется к зарплате.' },
+  { id: 'penalty', label: 'Штраф', hint: 'Вычитается из зарплаты.' },
+  { id: 'advance', label: 'Аванс', hint: 'Уже выплачено, вычитается из итоговой выплаты.' },
+  { id: 'correction', label: 'Корректировка', hint: 'Сумма со знаком: минус уменьшает выплату.' }
+];
+
+const ADJUSTMENT_TYPE_LABELS = Object.fromEntries(
+  ADJUSTMENT_TYPE_OPTIONS.map((option) => [option.id, option.label])
+) as Record<SalaryAdjustmentType, string>;
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const currencyFormatter = new Intl.NumberFormat('ru-RU', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+  signDisplay: 'exceptZero'
+});
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'medium' });
+
+interface SalaryAdjustmentsPanelProps {
+  userId: string;
+}
+
+export function SalaryAdjustmentsPanel({ userId }: SalaryAdjustmentsPanelProps) {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => toMonthInputValue(new Date()));
+  const [type, setType] = useState<SalaryAdjustmentType>('bonus');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [date, setDate] = useState('');
+
+  const adjustmentsQuery = useQuery({
+    queryKey: ['salary-adjustments', userId, month],
+    queryFn: () => listSalaryAdjustments({ userId, month: month || undefined })
+  });
+
+  const invalidate = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['salary-adjustments', userId] }),
+      queryClient.invalidateQueries({ queryKey: ['my-salary'] })
+    ]);
+
+  const createMutation = useMutation({
+    mutationFn: createSalaryAdjustment,
+    onSuccess: async () => {
+      toast.success('Начисление добавлено');
+      setAmount('');
+      setReason('');
+      await invalidate();
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось добавить начисление'))
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSalaryAdjustment,
+    onSuccess: async () => {
+      toast.success('Начисление удалено');
+      await invalidate();
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось удалить начисление'))
+  });
+
+  const isBusy = createMutation.isPending || deleteMutation.isPending;
+  const adjustments = adjustmentsQuery.data ?? [];
+  const total = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+  const handleCreate = () => {
+    const parsed = Number(amount.replace(',', '.').trim());
+
+    if (!amount.trim() || !Number.isFinite(parsed) || parsed === 0) {
+      toast.error('Введите сумму');
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast.error('Укажите причину');
+      return;
+    }
+
+    createMutation.mutate({
+      userId,
+      type,
+      amount: parsed,
+      reason: reason.trim(),
+      date: date || undefined
+    });
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-4">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-sm font-semibold text-tgText">Начисления и удержания</h3>
+        <p className="text-xs text-tgHint">
+          Учитываются в зарплате за месяц, к которому относится дата. В закрытых месяцах изменить их
+          нельзя.
+        </p>
+      </div>
+
+      <input
+        type="month"
+        value={month}
+        onChange={(event) => setMonth(event.target.value)}
+        className={inputClass}
+      />
+
+      {adjustmentsQuery.isError ? (
+        <p className="text-xs text-red-400">Не удалось загрузить начисления.</p>
+      ) : adjustmentsQuery.isLoading ? (
+        <p className="text-xs text-tgHint">Загрузка...</p>
+      ) : adjustments.length === 0 ? (
+        <p className="text-xs text-tgHint">Начислений за месяц нет.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {adjustments.map((adjustment) => (
+            <div key={adjustment.id} className="flex items-start justify-between gap-2 text-xs">
+              <div className="flex flex-col gap-0.5">
+                <span className="font-medium text-tgText">
+                  {ADJUSTMENT_TYPE_LABELS[adjustment.type]} ·{' '}
+                  {currencyFormatter.format(adjustment.amount)} AED
+                </span>
+                <span className="text-tgHint">
+                  {dateFormatter.format(new Date(adjustment.date))} · {adjustment.reason}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(adjustment.id)}
+                disabled={isBusy}
+                className="text-red-400 disabled:opacity-60"
+              >
+                Удалить
+              </button>
+            </div>
+          ))}
+          <span className="text-xs font-medium text-tgText">
+            Итого: {currencyFormatter.format(total)} AED
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <select
+          value={type}
+          onChange={(event) => setType(event.target.value as SalaryAdjustmentType)}
+          className={inputClass}
+        >
+          {ADJUSTMENT_TYPE_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-tgHint">
+          {ADJUSTMENT_TYPE_OPTIONS.find((option) => option.id === type)?.hint}
+        </p>
+        <input
+          type="number"
+          inputMode="decimal"
+          step="0.01"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          placeholder="Сумма, AED"
+          className={inputClass}
+        />
+        <input
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          placeholder="Причина"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(event) => setDate(event.target.value)}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isBusy}
+          className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+        >
+          Добавить
+        </button>
+      </div>
+    </div>
+  );
+}
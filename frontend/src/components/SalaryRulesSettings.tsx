@@ -0,0 +1,404 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { fetchSalaryRules, previewSalaryRules, updateSalaryRules } from '@/api/settings';
+import type {
+  ApiUser,
+  SalaryFormula,
+  SalaryRoleRules,
+  SalaryRules,
+  SalaryRulesPreviewResponse
+} from '@/types/api';
+
+type SalaryRole = keyof SalaryRules['roles'];
+
+interface RoleDraft {
+  formula: SalaryFormula;
+  minimumGuarantee: string;
+  tiers: { minVolume: string; percent: string }[];
+}
+
+interface RulesDraft {
+  fundRatePercent: string;
+  roles: Record<SalaryRole, RoleDraft>;
+}
+
+const ROLE_LABELS: Record<SalaryRole, string> = {
+  staff: 'Сотрудники',
+  partner: 'Партнёры'
+};
+
+const FORMULA_OPTIONS: { id: SalaryFormula; label: string; description: string }[] = [
+  {
+    id: 'fund_share',
+    label: 'Доля общего фонда',
+    description: 'Процент от фонда, собранного со всех чеков.'
+  },
+  {
+    id: 'own_fund_share',
+    label: 'Доля фонда со своих чеков',
+    description: 'Процент от фонда, собранного только с собственных чеков.'
+  },
+  {
+    id: 'own_volume',
+    label: 'Процент от своих чеков',
+    description: 'Процент напрямую от суммы собственных чеков, без учёта ставки фонда.'
+  }
+];
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const currencyFormatter = new Intl.NumberFormat('ru-RU', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+function formatSalary(value: number | null) {
+  return value === null ? '—' : `${currencyFormatter.format(value)} AED`;
+}
+
+function toRoleDraft(role: SalaryRoleRules): RoleDraft {
+  return {
+    formula: role.formula,
+    minimumGuarantee: role.minimumGuarantee === null ? '' : role.minimumGuarantee.toString(),
+    tiers: role.tiers.map((tier) => ({
+      minVolume: tier.minVolume.toString(),
+      percent: tier.percent.toString()
+    }))
+  };
+}
+
+function toDraft(rules: SalaryRules): RulesDraft {
+  return {
+    fundRatePercent: rules.fundRatePercent.toString(),
+    roles: {
+      staff: toRoleDraft(rules.roles.staff),
+      partner: toRoleDraft(rules.roles.partner)
+    }
+  };
+}
+
+function parseNumber(value: string) {
+  const parsed = Number(value.replace(',', '.').trim());
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+function fromDraft(draft: RulesDraft): { rules: SalaryRules } | { error: string } {
+  const fundRatePercent = parseNumber(draft.fundRatePercent);
+
+  if (fundRatePercent === null || fundRatePercent < 0 || fundRatePercent > 100) {
+    return { error: 'Ставка фонда должна быть от 0 до 100%' };
+  }
+
+  const roles = {} as SalaryRules['roles'];
+
+  for (const role of Object.keys(ROLE_LABELS) as SalaryRole[]) {
+    const roleDraft = draft.roles[role];
+    const minimumGuarantee = roleDraft.minimumGuarantee.trim()
+      ? parseNumber(roleDraft.minimumGuarantee)
+      : null;
+
+    if (roleDraft.minimumGuarantee.trim() && (minimumGuarantee === null || minimumGuarantee < 0)) {
+      return { error: `${ROLE_LABELS[role]}: некорректная минимальная гарантия` };
+    }
+
+    const tiers = [];
+
+    for (const tier of roleDraft.tiers) {
+      const minVolume = parseNumber(tier.minVolume);
+      const percent = parseNumber(tier.percent);
+
+      if (minVolume === null || minVolume < 0 || percent === null || percent < 0 || percent > 100) {
+        return { error: `${ROLE_LABELS[role]}: заполните порог и процент для каждой ступени` };
+      }
+
+      tiers.push({ minVolume, percent });
+    }
+
+    roles[role] = { formula: roleDraft.formula, minimumGuarantee, tiers };
+  }
+
+  return { rules: { fundRatePercent, roles } };
+}
+
+interface SalaryRulesSettingsProps {
+  users: ApiUser[];
+}
+
+export function SalaryRulesSettings({ users }: SalaryRulesSettingsProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RulesDraft | null>(null);
+  const [previewUserId, setPreviewUserId] = useState('');
+  const [previewMonth, setPreviewMonth] = useState('');
+  const [preview, setPreview] = useState<SalaryRulesPreviewResponse | null>(null);
+
+  const rulesQuery = useQuery({
+    queryKey: ['salary-rules'],
+    queryFn: fetchSalaryRules
+  });
+
+  useEffect(() => {
+    if (rulesQuery.data) {
+      setDraft(toDraft(rulesQuery.data.rules));
+    }
+  }, [rulesQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: updateSalaryRules,
+    onSuccess: async () => {
+      toast.success('Правила расчёта сохранены');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['salary-rules'] }),
+        queryClient.invalidateQueries({ queryKey: ['check-summary'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось сохранить правила'))
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: previewSalaryRules,
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось рассчитать предпросмотр'))
+  });
+
+  if (rulesQuery.isError) {
+    return <p className="text-sm text-red-400">Не удалось загрузить правила расчёта.</p>;
+  }
+
+  if (rulesQuery.isLoading || !draft) {
+    return <p className="text-sm text-tgHint">Загрузка правил...</p>;
+  }
+
+  const updateRole = (role: SalaryRole, patch: Partial<RoleDraft>) => {
+    setDraft((prev) =>
+      prev ? { ...prev, roles: { ...prev.roles, [role]: { ...prev.roles[role], ...patch } } } : prev
+    );
+  };
+
+  const updateTier = (role: SalaryRole, index: number, patch: Partial<RoleDraft['tiers'][number]>) => {
+    updateRole(role, {
+      tiers: draft.roles[role].tiers.map((tier, tierIndex) =>
+        tierIndex === index ? { ...tier, ...patch } : tier
+      )
+    });
+  };
+
+  const handleSave = () => {
+    const result = fromDraft(draft);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    saveMutation.mutate(result.rules);
+  };
+
+  const handlePreview = () => {
+    const result = fromDraft(draft);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    if (!previewUserId) {
+      toast.error('Выберите пользователя для предпросмотра');
+      return;
+    }
+
+    previewMutation.mutate({
+      rules: result.rules,
+      userId: previewUserId,
+      month: previewMonth || undefined
+    });
+  };
+
+  const isBusy = saveMutation.isPending || previewMutation.isPending;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-lg font-semibold text-tgText">Правила расчёта зарплаты</h2>
+          <p className="text-sm text-tgHint">
+            Изменения применяются ко всем незакрытым периодам. Закрытые месяцы считаются по зафиксированному
+            снимку.
+          </p>
+        </div>
+        <label className="flex flex-col gap-1 text-sm">
+          Ставка фонда, % от объёма чеков
+          <input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            min="0"
+            max="100"
+            value={draft.fundRatePercent}
+            onChange={(event) =>
+              setDraft((prev) => (prev ? { ...prev, fundRatePercent: event.target.value } : prev))
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {(Object.keys(ROLE_LABELS) as SalaryRole[]).map((role) => {
+        const roleDraft = draft.roles[role];
+
+        return (
+          <div key={role} className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+            <h3 className="text-base font-semibold text-tgText">{ROLE_LABELS[role]}</h3>
+
+            <label className="flex flex-col gap-1 text-sm">
+              Формула
+              <select
+                value={roleDraft.formula}
+                onChange={(event) => updateRole(role, { formula: event.target.value as SalaryFormula })}
+                className={inputClass}
+              >
+                {FORMULA_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-tgHint">
+                {FORMULA_OPTIONS.find((option) => option.id === roleDraft.formula)?.description}
+              </span>
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              Минимальная гарантия за месяц, AED
+              <input
+                type="number"
+                inputMode="decimal"
+                step="0.01"
+                min="0"
+                value={roleDraft.minimumGuarantee}
+                onChange={(event) => updateRole(role, { minimumGuarantee: event.target.value })}
+                placeholder="Без гарантии"
+                className={inputClass}
+              />
+            </label>
+
+            <div className="flex flex-col gap-2 text-sm">
+              <span>Ступени по объёму своих чеков за месяц</span>
+              <span className="text-xs text-tgHint">
+                При достижении порога вместо личного процента применяется процент ступени.
+              </span>
+              {roleDraft.tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    value={tier.minVolume}
+                    onChange={(event) => updateTier(role, index, { minVolume: event.target.value })}
+                    placeholder="От, AED"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    min="0"
+                    max="100"
+                    value={tier.percent}
+                    onChange={(event) => updateTier(role, index, { percent: event.target.value })}
+                    placeholder="%"
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateRole(role, {
+                        tiers: roleDraft.tiers.filter((_, tierIndex) => tierIndex !== index)
+                      })
+                    }
+                    className="rounded-xl bg-red-500/80 px-3 py-2 text-xs text-white"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  updateRole(role, { tiers: [...roleDraft.tiers, { minVolume: '', percent: '' }] })
+                }
+                className="self-start rounded-xl border border-white/20 px-3 py-1 text-xs"
+              >
+                Добавить ступень
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+        <div className="flex flex-col gap-1">
+          <h3 className="text-base font-semibold text-tgText">Предпросмотр</h3>
+          <p className="text-sm text-tgHint">
+            Пересчитать зарплату пользователя по новым правилам до сохранения.
+          </p>
+        </div>
+        <select
+          value={previewUserId}
+          onChange={(event) => setPreviewUserId(event.target.value)}
+          className={inputClass}
+        >
+          <option value="">Выберите пользователя</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.firstName ?? user.username ?? user.telegramId}
+            </option>
+          ))}
+        </select>
+        <input
+          type="month"
+          value={previewMonth}
+          onChange={(event) => setPreviewMonth(event.target.value)}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isBusy}
+          className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+        >
+          Рассчитать
+        </button>
+        {preview ? (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="flex flex-col gap-1 rounded-2xl border border-white/10 p-3">
+              <span className="text-xs text-tgHint">Сейчас</span>
+              <span className="font-semibold text-tgText">{formatSalary(preview.current.salary)}</span>
+            </div>
+            <div className="flex flex-col gap-1 rounded-2xl border border-white/10 p-3">
+              <span className="text-xs text-tgHint">По новым правилам</span>
+              <span className="font-semibold text-tgText">{formatSalary(preview.proposed.salary)}</span>
+              {preview.proposed.guaranteeTopUp ? (
+                <span className="text-[11px] text-tgHint">
+                  Доплата до гарантии: {formatSalary(preview.proposed.guaranteeTopUp)}
+                </span>
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isBusy}
+        className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+      >
+        Сохранить правила
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { fetchTimeZone, updateTimeZone } from '@/api/settings';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+export function TimeZoneSettings() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+
+  const timeZoneQuery = useQuery({
+    queryKey: ['time-zone'],
+    queryFn: fetchTimeZone
+  });
+
+  useEffect(() => {
+    if (timeZoneQuery.data) {
+      setDraft(timeZoneQuery.data.timeZone);
+    }
+  }, [timeZoneQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: updateTimeZone,
+    onSuccess: async () => {
+      toast.success('Часовой пояс сохранён');
+      // Zone-dependent queries carry the session zone in their keys and refetch on their own
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['time-zone'] }),
+        queryClient.invalidateQueries({ queryKey: ['session'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось сохранить часовой пояс'))
+  });
+
+  if (timeZoneQuery.isError) {
+    return <p className="text-sm text-red-400">Не удалось загрузить часовой пояс.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg font-semibold text-tgText">Часовой пояс хостела</h2>
+        <p className="text-sm text-tgHint">
+          По нему определяются границы дня, недели и месяца в сводках, зарплате и при закрытии
+          периодов.
+          {timeZoneQuery.data ? ` По умолчанию: ${timeZoneQuery.data.defaultTimeZone}.` : ''}
+        </p>
+      </div>
+      <input
+        list="hostel-time-zones"
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        placeholder="Asia/Dubai"
+        disabled={timeZoneQuery.isLoading}
+        className={inputClass}
+      />
+      <datalist id="hostel-time-zones">
+        {TIME_ZONES.map((timeZone) => (
+          <option key={timeZone} value={timeZone} />
+        ))}
+      </datalist>
+      <button
+        type="button"
+        onClick={() => saveMutation.mutate(draft.trim())}
+        disabled={!draft.trim() || draft.trim() === timeZoneQuery.data?.timeZone || saveMutation.isPending}
+        className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+      >
+        Сохранить
+      </button>
+    </div>
+  );
+}
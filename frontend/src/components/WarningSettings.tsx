@@ -0,0 +1,168 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { fetchWarningSettings, updateWarningSettings } from '@/api/settings';
+import type { WarningSettings as WarningSettingsValue, WarningThreshold } from '@/types/api';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const MAX_THRESHOLDS = 10;
+const DEFAULT_MUTE_HOURS = 24;
+
+export function WarningSettings() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<WarningSettingsValue | null>(null);
+
+  const warningsQuery = useQuery({
+    queryKey: ['warning-settings'],
+    queryFn: fetchWarningSettings
+  });
+
+  useEffect(() => {
+    if (warningsQuery.data) {
+      setDraft(warningsQuery.data.settings);
+    }
+  }, [warningsQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: updateWarningSettings,
+    onSuccess: async () => {
+      toast.success('Правила предупреждений сохранены');
+      await queryClient.invalidateQueries({ queryKey: ['warning-settings'] });
+    },
+    onError: (error) =>
+      toast.error(apiErrorMessage(error, 'Не удалось сохранить правила предупреждений'))
+  });
+
+  if (warningsQuery.isError) {
+    return <p className="text-sm text-red-400">Не удалось загрузить правила предупреждений.</p>;
+  }
+
+  if (!draft) {
+    return <p className="text-sm text-tgHint">Загрузка правил предупреждений...</p>;
+  }
+
+  const updateThreshold = (index: number, patch: Partial<WarningThreshold>) =>
+    setDraft({
+      ...draft,
+      thresholds: draft.thresholds.map((threshold, current) =>
+        current === index ? { ...threshold, ...patch } : threshold
+      )
+    });
+
+  const addThreshold = () => {
+    const lastPoints = draft.thresholds[draft.thresholds.length - 1]?.points ?? 0;
+
+    setDraft({
+      ...draft,
+      thresholds: [
+        ...draft.thresholds,
+        { points: lastPoints + 1, action: 'mute', durationMinutes: DEFAULT_MUTE_HOURS * 60 }
+      ]
+    });
+  };
+
+  const removeThreshold = (index: number) =>
+    setDraft({
+      ...draft,
+      thresholds: draft.thresholds.filter((_, current) => current !== index)
+    });
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-lg font-semibold text-tgText">Предупреждения</h2>
+        <p className="text-sm text-tgHint">
+          Баллы предупреждений суммируются, пока не истекут. Когда сумма достигает порога, бот сам
+          выдаёт мут или блокирует пользователя.
+        </p>
+      </div>
+
+      <label className="flex flex-col gap-1 text-sm text-tgText">
+        Срок действия предупреждения, дней
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={draft.expiryDays}
+          onChange={(event) => setDraft({ ...draft, expiryDays: Number(event.target.value) })}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="flex flex-col gap-2">
+        {draft.thresholds.map((threshold, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={threshold.points}
+              onChange={(event) => updateThreshold(index, { points: Number(event.target.value) })}
+              aria-label="Баллы"
+              className={`${inputClass} w-20`}
+            />
+            <select
+              value={threshold.action}
+              onChange={(event) => {
+                const action = event.target.value as WarningThreshold['action'];
+                updateThreshold(index, {
+                  action,
+                  durationMinutes: action === 'mute' ? DEFAULT_MUTE_HOURS * 60 : null
+                });
+              }}
+              className={inputClass}
+            >
+              <option value="mute">Мут</option>
+              <option value="block">Блокировка</option>
+            </select>
+            {threshold.action === 'mute' ? (
+              <input
+                type="number"
+                min={1}
+                max={720}
+                value={(threshold.durationMinutes ?? 0) / 60}
+                onChange={(event) =>
+                  updateThreshold(index, {
+                    durationMinutes: Math.round(Number(event.target.value) * 60)
+                  })
+                }
+                aria-label="Часов мута"
+                className={`${inputClass} w-24`}
+              />
+            ) : null}
+            <button
+              type="button"
+              onClick={() => removeThreshold(index)}
+              className="shrink-0 text-sm text-red-400"
+            >
+              Удалить
+            </button>
+          </div>
+        ))}
+        <p className="text-xs text-tgHint">Баллы · санкция · часов мута.</p>
+      </div>
+
+      <button
+        type="button"
+        onClick={addThreshold}
+        disabled={draft.thresholds.length >= MAX_THRESHOLDS}
+        className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+      >
+        Добавить порог
+      </button>
+
+      <button
+        type="button"
+        onClick={() => saveMutation.mutate(draft)}
+        disabled={saveMutation.isPending}
+        className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+      >
+        Сохранить
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { apiErrorMessage } from '@/api/client';
+import { listWarnings, warnUser } from '@/api/users';
+import type { ApiUser, WarnUserResponse } from '@/types/api';
+import { zonedDateFormatter } from '@/utils/timeZone';
+
+const inputClass =
+  'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-sm text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none';
+
+const POINT_OPTIONS = [1, 2, 3];
+
+const dateFormatter = zonedDateFormatter('ru-RU', { dateStyle: 'short' });
+
+function escalationMessage(result: WarnUserResponse) {
+  if (!result.escalation) {
+    return `Предупреждение вынесено, активных баллов: ${result.points}`;
+  }
+
+  if (!result.escalation.ok) {
+    return `Баллов: ${result.points}, но автоматическая санкция не применилась в чате`;
+  }
+
+  return result.escalation.action === 'block'
+    ? `Баллов: ${result.points}, пользователь заблокирован автоматически`
+    : `Баллов: ${result.points}, пользователь автоматически получил мут`;
+}
+
+interface WarningsPanelProps {
+  user: ApiUser;
+  onUserChange: (user: ApiUser) => void;
+}
+
+export function WarningsPanel({ user, onUserChange }: WarningsPanelProps) {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const [points, setPoints] = useState(1);
+
+  const warningsQuery = useQuery({
+    queryKey: ['warnings', user.id],
+    queryFn: () => listWarnings(user.id)
+  });
+
+  const warnMutation = useMutation({
+    mutationFn: () =>
+      warnUser(user.id, {
+        reason: reason.trim() || undefined,
+        points
+      }),
+    onSuccess: async (result) => {
+      if (result.escalation && !result.escalation.ok) {
+        toast.error(escalationMessage(result));
+      } else {
+        toast.success(escalationMessage(result));
+      }
+
+      setReason('');
+      onUserChange(result.user);
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось вынести предупреждение')),
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['warnings', user.id] }),
+        queryClient.invalidateQueries({ queryKey: ['moderation-events'] }),
+        queryClient.invalidateQueries({ queryKey: ['user-chats'] })
+      ])
+  });
+
+  const warnings = warningsQuery.data?.warnings ?? [];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-tgHint">Предупреждения</h4>
+      <p className="text-xs text-tgHint">
+        {warningsQuery.isLoading
+          ? 'Загрузка баллов...'
+          : warningsQuery.isError
+            ? 'Не удалось загрузить предупреждения.'
+            : `Активных баллов: ${warningsQuery.data?.points ?? 0}`}
+      </p>
+      {warnings.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-xs">
+          {warnings.map((warning) => (
+            <li key={warning.id} className="flex items-baseline justify-between gap-2">
+              <span className="text-tgText">
+                +{warning.points} {warning.reason ?? 'без причины'}
+              </span>
+              <span className="shrink-0 text-tgHint">
+                до {dateFormatter.format(new Date(warning.expiresAt))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="flex gap-2">
+        <input
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          maxLength={200}
+          placeholder="Причина"
+          className={inputClass}
+        />
+        <select
+          value={points}
+          onChange={(event) => setPoints(Number(event.target.value))}
+          className="w-20 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-2 py-2 text-sm text-tgText"
+        >
+          {POINT_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              +{option}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        type="button"
+        onClick={() => warnMutation.mutate()}
+        disabled={warnMutation.isPending || user.isBlocked}
+        className="rounded-xl bg-orange-400 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+      >
+        Вынести предупреждение
+      </button>
+    </div>
+  );
+}
@@ -1,10 +1,9 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toPng } from 'html-to-image';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import { toPng } from 'html-to-image';
 
-import { MobileModal } from '@/components/MobileModal';
 import {
   createAdmin,
   deleteAdmin,
@@ -12,9 +11,37 @@ import {
   updateAdmin,
   type UpsertAdminPayload
 } from '@/api/admins';
+import {
+  approveCheck as approveCheckApi,
+  createCheck as createCheckApi,
+  createCheckAdjustment,
+  deleteCheck as deleteCheckApi,
+  deleteCheckAttachment,
+  exportChecks,
+  exportChecksSummary,
+  fetchChecksSummary,
+  listChecks,
+  listPendingChecks,
+  rejectCheck as rejectCheckApi,
+  updateCheck as updateCheckApi,
+  uploadCheckAttachments,
+  type CheckPeriod,
+  type ExportFormat,
+  type ListChecksParams
+} from '@/api/checks';
+import { apiErrorMessage } from '@/api/client';
+import {
+  cancelPayout,
+  createPayoutBatch,
+  deletePayoutBatch,
+  listPayoutBatches,
+  markPayoutPaid
+} from '@/api/payouts';
+import { closePayPeriod, listPayPeriods, reopenPayPeriod } from '@/api/periods';
 import {
   createUser,
   deleteUser,
+  listCommissionHistory,
   listUsers,
   updateUser,
   muteUser,
@@ -23,28 +50,57 @@ import {
   unblockUser,
   type UpsertUserPayload
 } from '@/api/users';
-import {
-  createCheck as createCheckApi,
-  deleteCheck as deleteCheckApi,
-  fetchChecksSummary,
-  listChecks,
-  updateCheck as updateCheckApi,
-  type CheckPeriod,
-  type ListChecksParams
-} from '@/api/checks';
+import { AuditLogPanel } from '@/components/AuditLogPanel';
+import { ChatMembershipList } from '@/components/ChatMembershipList';
+import { CheckAttachments } from '@/components/CheckAttachments';
+import { CheckImportPanel } from '@/components/CheckImportPanel';
+import { DigestSettings } from '@/components/DigestSettings';
+import { JoinRequestsPanel } from '@/components/JoinRequestsPanel';
+import { ManagedChatsSettings } from '@/components/ManagedChatsSettings';
+import { MobileModal } from '@/components/MobileModal';
+import { ModerationChatPicker, toChatSelection, toastChatResults } from '@/components/ModerationChatPicker';
+import { ModerationHistory } from '@/components/ModerationHistory';
+import { PayslipActions } from '@/components/PayslipActions';
+import { SalaryAdjustmentsPanel } from '@/components/SalaryAdjustmentsPanel';
+import { SalaryRulesSettings } from '@/components/SalaryRulesSettings';
+import { TimeZoneSettings } from '@/components/TimeZoneSettings';
+import { WarningSettings } from '@/components/WarningSettings';
+import { WarningsPanel } from '@/components/WarningsPanel';
 import { useSession } from '@/providers/SessionProvider';
-import type { ApiAdmin, ApiCheck, ApiUser, CheckStats, ChecksSummaryRow } from '@/types/api';
+import type {
+  AdminRole,
+  ApiAdmin,
+  ApiCheck,
+  ApiPayout,
+  ApiUser,
+  ChatSelection,
+  CheckStats,
+  CheckStatus,
+  ChecksSummaryRow,
+  PayoutStatus,
+  Permission
+} from '@/types/api';
+import { toDateInputValue, toMonthInputValue, zonedDateFormatter } from '@/utils/timeZone';
 
 type AdminFormValues = {
   telegramId: string;
   displayName: string;
   notes: string;
+  role: AdminRole;
 };
 
 const adminDefaultValues: AdminFormValues = {
   telegramId: '',
   displayName: '',
-  notes: ''
+  notes: '',
+  role: 'manager'
+};
+
+const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Владелец',
+  manager: 'Менеджер',
+  accountant: 'Бухгалтер',
+  moderator: 'Модератор'
 };
 
 type UserFormValues = {
@@ -58,6 +114,7 @@ type UserFormValues = {
   payoutUsdtTrc20: string;
   payoutUsdtBep20: string;
   commissionPercent: string;
+  commissionEffectiveFrom: string;
   isPartner: boolean;
 };
 
@@ -72,6 +129,7 @@ const userDefaultValues: UserFormValues = {
   payoutUsdtTrc20: '',
   payoutUsdtBep20: '',
   commissionPercent: '',
+  commissionEffectiveFrom: '',
   isPartner: false
 };
 
@@ -100,7 +158,13 @@ const ADMIN_FIELD_META: Record<keyof AdminFormValues, FieldMeta> = {
     label: 'Заметка',
     required: false,
     description:
-      'Любые комментарии об администраторе (например, его роль или смены). Видно только другим администраторам.'
+      'Любые комментарии об администраторе (например, его смены). Видно только другим администраторам.'
+  },
+  role: {
+    label: 'Роль',
+    required: true,
+    description:
+      'Владелец может всё, включая администраторов и настройки. Менеджер ведёт пользователей и чеки, бухгалтер — выплаты и зарплатные периоды, модератор — только муты и блокировки.'
   }
 };
 
@@ -161,6 +225,12 @@ const USER_FIELD_META: Record<keyof UserFormValues, FieldMeta> = {
     required: false,
     description: 'Процент от суммы чеков, используемый для расчёта зарплаты.'
   },
+  commissionEffectiveFrom: {
+    label: 'Процент действует с',
+    required: false,
+    description:
+      'Дата, с которой применяется новый процент. Чеки до этой даты считаются по прежнему проценту. Если не указать, процент действует с текущего момента.'
+  },
   isPartner: {
     label: 'Партнёр',
     required: false,
@@ -183,7 +253,7 @@ const USER_FIELD_PLACEHOLDERS: Partial<Record<keyof UserFormValues, string>> = {
 
 type UpsertUserTextField = Exclude<
   Extract<keyof UserFormValues, keyof UpsertUserPayload>,
-  'commissionPercent' | 'isPartner'
+  'commissionPercent' | 'commissionEffectiveFrom' | 'isPartner'
 >;
 
 const MUTE_OPTIONS = [
@@ -194,12 +264,16 @@ const MUTE_OPTIONS = [
   { label: '7 дней', minutes: 7 * 24 * 60 }
 ];
 
-type AdminTab = 'users' | 'checks' | 'admins';
+type AdminTab = 'users' | 'checks' | 'payouts' | 'settings' | 'admins' | 'audit';
 
-const ADMIN_TABS: { id: AdminTab; label: string }[] = [
-  { id: 'users', label: 'Пользователи' },
-  { id: 'checks', label: 'Чеки' },
-  { id: 'admins', label: 'Администраторы' }
+// Each tab is shown only to roles with the permission its API requires
+const ADMIN_TABS: { id: AdminTab; label: string; permission: Permission }[] = [
+  { id: 'users', label: 'Пользователи', permission: 'users.view' },
+  { id: 'checks', label: 'Чеки', permission: 'checks.view' },
+  { id: 'payouts', label: 'Выплаты', permission: 'payroll.manage' },
+  { id: 'settings', label: 'Настройки', permission: 'settings.manage' },
+  { id: 'admins', label: 'Администраторы', permission: 'admins.manage' },
+  { id: 'audit', label: 'Журнал', permission: 'audit.view' }
 ];
 
 type CheckFormValues = {
@@ -241,15 +315,29 @@ const SUMMARY_PERIOD_OPTIONS: { id: SummaryViewPeriod; label: string }[] = [
   { id: 'custom', label: 'Период' }
 ];
 
-const FUND_RATE = 0.15;
-const FUND_RATE_PERCENT = FUND_RATE * 100;
+const CHECK_STATUS_BADGES: Record<CheckStatus, { label: string; className: string }> = {
+  pending: { label: 'На проверке', className: 'bg-yellow-500/15 text-yellow-200' },
+  approved: { label: 'Подтверждён', className: 'bg-green-500/15 text-green-300' },
+  rejected: { label: 'Отклонён', className: 'bg-red-500/15 text-red-300' }
+};
+
+const PAYOUT_STATUS_BADGES: Record<PayoutStatus, { label: string; className: string }> = {
+  pending: { label: 'К выплате', className: 'bg-yellow-500/15 text-yellow-200' },
+  paid: { label: 'Выплачено', className: 'bg-green-500/15 text-green-300' },
+  cancelled: { label: 'Отменено', className: 'bg-white/10 text-tgHint' }
+};
+
+const PAYOUT_NETWORK_LABELS = {
+  trc20: 'TRC-20',
+  bep20: 'BEP-20'
+} as const;
 
 const currencyFormatter = new Intl.NumberFormat('ru-RU', {
   minimumFractionDigits: 2,
   maximumFractionDigits: 2
 });
 
-const dateTimeFormatter = new Intl.DateTimeFormat('ru-RU', {
+const dateTimeFormatter = zonedDateFormatter('ru-RU', {
   day: '2-digit',
   month: 'short',
   year: 'numeric',
@@ -257,7 +345,7 @@ const dateTimeFormatter = new Intl.DateTimeFormat('ru-RU', {
   minute: '2-digit'
 });
 
-const shortDateFormatter = new Intl.DateTimeFormat('ru-RU', {
+const shortDateFormatter = zonedDateFormatter('ru-RU', {
   day: '2-digit',
   month: 'short'
 });
@@ -278,6 +366,11 @@ function formatCheckAmount(amount: number) {
   return `${currencyFormatter.format(amount)} AED`;
 }
 
+function previousMonthInput() {
+  const [year, month] = toMonthInputValue(new Date()).split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+}
+
 function formatRange(range?: { start: string; end: string } | null) {
   if (!range) {
     return '';
@@ -290,13 +383,18 @@ function formatRange(range?: { start: string; end: string } | null) {
     return '';
   }
 
-  if (start.toDateString() === end.toDateString()) {
+  if (toDateInputValue(start) === toDateInputValue(end)) {
     return shortDateFormatter.format(start);
   }
 
   return `${shortDateFormatter.format(start)} — ${shortDateFormatter.format(end)}`;
 }
 
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+const exportButtonClass =
+  'w-full rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText transition-colors hover:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] hover:text-tgAccent disabled:opacity-40 sm:w-auto';
+
 const modalInputClass =
   'w-full rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.04))] px-3 py-2 text-base text-tgText placeholder:text-tgHint focus:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] focus:outline-none focus:ring-0 transition-colors';
 
@@ -368,10 +466,24 @@ function dataUrlToBlob(dataUrl: string) {
   return new Blob([buffer], { type: mime });
 }
 
+function downloadBlob(blob: Blob, filename: string) {
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = blobUrl;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+}
+
 export function AdminDashboard() {
   const { session } = useSession();
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<AdminTab>('users');
+  const can = (permission: Permission) => session?.permissions.includes(permission) ?? false;
+  const visibleTabs = ADMIN_TABS.filter((tab) => can(tab.permission));
+  const [activeTab, setActiveTab] = useState<AdminTab>(() => visibleTabs[0]?.id ?? 'users');
   const [adminModal, setAdminModal] = useState<{ mode: 'create' | 'edit'; entity?: ApiAdmin } | null>(
     null
   );
@@ -386,7 +498,7 @@ export function AdminDashboard() {
         name: string;
       }
     | {
-        type: 'check';
+        type: 'check' | 'payout-batch';
         id: string;
         name: string;
       }
@@ -400,6 +512,7 @@ export function AdminDashboard() {
     | { mode: 'edit'; user: ApiUser; check: ApiCheck }
     | null
   >(null);
+  const [checkPhotos, setCheckPhotos] = useState<File[]>([]);
   const [checkFilters, setCheckFilters] = useState<CheckFilterState>({ period: 'month' });
   const [summaryRange, setSummaryRange] = useState<{ start?: string; end?: string }>({});
   const [summaryRangeDraft, setSummaryRangeDraft] = useState<{ start: string; end: string }>({
@@ -409,11 +522,18 @@ export function AdminDashboard() {
   const [summaryViewPeriod, setSummaryViewPeriod] = useState<SummaryViewPeriod>('week');
   const summaryExportRef = useRef<HTMLDivElement | null>(null);
   const [isExportingSummary, setIsExportingSummary] = useState(false);
+  const [moderationChats, setModerationChats] = useState<ChatSelection>([]);
   const [blockModal, setBlockModal] = useState<{
     mode: 'block' | 'unblock';
     user: ApiUser;
     reason: string;
   } | null>(null);
+  const [rejectModal, setRejectModal] = useState<{ check: ApiCheck; reason: string } | null>(null);
+  const [payoutMonth, setPayoutMonth] = useState(previousMonthInput);
+  const [payModal, setPayModal] = useState<{ payout: ApiPayout; txHash: string } | null>(null);
+  const [adjustModal, setAdjustModal] = useState<{ check: ApiCheck; amount: string; note: string } | null>(
+    null
+  );
   const [userSelectModal, setUserSelectModal] = useState(false);
   const [checkCreatedModal, setCheckCreatedModal] = useState(false);
   const [userSearchForCheck, setUserSearchForCheck] = useState('');
@@ -434,18 +554,37 @@ export function AdminDashboard() {
   const adminsQuery = useQuery({
     queryKey: ['admins'],
     queryFn: listAdmins,
-    enabled: session?.isAdmin ?? false
+    enabled: can('admins.manage')
   });
 
   const usersQuery = useQuery({
     queryKey: ['users'],
     queryFn: listUsers,
-    enabled: session?.isAdmin ?? false
+    enabled: can('users.view')
   });
 
+  const checkFilterParams = (userId: string) => {
+    const params: ListChecksParams = { userId };
+
+    if (checkFilters.period === 'custom') {
+      if (checkFilters.startDate) {
+        params.startDate = checkFilters.startDate;
+      }
+
+      if (checkFilters.endDate) {
+        params.endDate = checkFilters.endDate;
+      }
+    } else {
+      params.period = checkFilters.period;
+    }
+
+    return params;
+  };
+
   const checksQuery = useQuery({
     queryKey: [
       'checks',
+      session?.timeZone ?? null,
       checksModal?.user.id ?? null,
       checkFilters.period,
       checkFilters.startDate ?? null,
@@ -456,31 +595,44 @@ export function AdminDashboard() {
         return [];
       }
 
-      const params: ListChecksParams = {
-        userId: checksModal.user.id
-      };
-
-      if (checkFilters.period === 'custom') {
-        if (checkFilters.startDate) {
-          params.startDate = checkFilters.startDate;
-        }
-
-        if (checkFilters.endDate) {
-          params.endDate = checkFilters.endDate;
-        }
-      } else {
-        params.period = checkFilters.period;
-      }
-
-      return listChecks(params);
+      return listChecks(checkFilterParams(checksModal.user.id));
     },
     enabled: Boolean(checksModal)
   });
 
+  const pendingChecksQuery = useQuery({
+    queryKey: ['pending-checks'],
+    queryFn: listPendingChecks,
+    enabled: can('checks.view')
+  });
+
   const checksSummaryQuery = useQuery({
-    queryKey: ['check-summary', summaryRange.start ?? null, summaryRange.end ?? null],
+    queryKey: [
+      'check-summary',
+      session?.timeZone ?? null,
+      summaryRange.start ?? null,
+      summaryRange.end ?? null
+    ],
     queryFn: () => fetchChecksSummary({ startDate: summaryRange.start, endDate: summaryRange.end }),
-    enabled: (session?.isAdmin ?? false) && activeTab === 'checks'
+    enabled: can('checks.view') && activeTab === 'checks'
+  });
+
+  const commissionHistoryQuery = useQuery({
+    queryKey: ['commission-history', userModal?.entity?.id ?? null],
+    queryFn: () => listCommissionHistory(userModal!.entity!.id),
+    enabled: Boolean(userModal?.entity)
+  });
+
+  const payPeriodsQuery = useQuery({
+    queryKey: ['pay-periods'],
+    queryFn: listPayPeriods,
+    enabled: can('payroll.manage') && activeTab === 'payouts'
+  });
+
+  const payoutBatchesQuery = useQuery({
+    queryKey: ['payout-batches'],
+    queryFn: listPayoutBatches,
+    enabled: can('payroll.manage') && activeTab === 'payouts'
   });
 
   const createAdminMutation = useMutation({
@@ -530,10 +682,11 @@ export function AdminDashboard() {
       toast.success('Пользователь обновлен');
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['users'] }),
-        queryClient.invalidateQueries({ queryKey: ['check-summary'] })
+        queryClient.invalidateQueries({ queryKey: ['check-summary'] }),
+        queryClient.invalidateQueries({ queryKey: ['commission-history'] })
       ]);
     },
-    onError: () => toast.error('Не удалось обновить пользователя')
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось обновить пользователя'))
   });
 
   const deleteUserMutation = useMutation({
@@ -548,55 +701,71 @@ export function AdminDashboard() {
     onError: () => toast.error('Не удалось удалить пользователя')
   });
 
+  const invalidateModeration = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['moderation-events'] }),
+      queryClient.invalidateQueries({ queryKey: ['user-chats'] })
+    ]);
+
   const muteUserMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: { durationMinutes?: number; until?: string; chatId?: string } }) =>
-      muteUser(id, payload),
-    onSuccess: async (updated) => {
-      toast.success('Пользователь временно ограничен');
+    mutationFn: ({
+      id,
+      payload
+    }: {
+      id: string;
+      payload: { durationMinutes?: number; until?: string; chats?: ChatSelection };
+    }) => muteUser(id, payload),
+    onSuccess: async ({ user: updated, results }) => {
+      toastChatResults('Пользователь временно ограничен', results);
       if (userModal?.entity?.id === updated.id) {
         setUserModal({ mode: 'edit', entity: updated });
       }
       await queryClient.invalidateQueries({ queryKey: ['users'] });
     },
-    onError: () => toast.error('Не удалось применить ограничение')
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось применить ограничение')),
+    onSettled: invalidateModeration
   });
 
   const unmuteUserMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: { chatId?: string } }) => unmuteUser(id, payload),
-    onSuccess: async (updated) => {
-      toast.success('Ограничение снято');
+    mutationFn: ({ id, payload }: { id: string; payload: { chats?: ChatSelection } }) =>
+      unmuteUser(id, payload),
+    onSuccess: async ({ user: updated, results }) => {
+      toastChatResults('Ограничение снято', results);
       if (userModal?.entity?.id === updated.id) {
         setUserModal({ mode: 'edit', entity: updated });
       }
       await queryClient.invalidateQueries({ queryKey: ['users'] });
     },
-    onError: () => toast.error('Не удалось снять ограничение')
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось снять ограничение')),
+    onSettled: invalidateModeration
   });
 
   const blockUserMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: { chatId?: string; reason?: string } }) =>
+    mutationFn: ({ id, payload }: { id: string; payload: { chats?: ChatSelection; reason?: string } }) =>
       blockUser(id, payload),
-    onSuccess: async (updated) => {
-      toast.success('Пользователь заблокирован');
+    onSuccess: async ({ user: updated, results }) => {
+      toastChatResults('Пользователь заблокирован', results);
       if (userModal?.entity?.id === updated.id) {
         setUserModal({ mode: 'edit', entity: updated });
       }
       await queryClient.invalidateQueries({ queryKey: ['users'] });
     },
-    onError: () => toast.error('Не удалось заблокировать пользователя')
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось заблокировать пользователя')),
+    onSettled: invalidateModeration
   });
 
   const unblockUserMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: { chatId?: string } }) =>
+    mutationFn: ({ id, payload }: { id: string; payload: { chats?: ChatSelection } }) =>
       unblockUser(id, payload),
-    onSuccess: async (updated) => {
-      toast.success('Пользователь разблокирован');
+    onSuccess: async ({ user: updated, results }) => {
+      toastChatResults('Пользователь разблокирован', results);
       if (userModal?.entity?.id === updated.id) {
         setUserModal({ mode: 'edit', entity: updated });
       }
       await queryClient.invalidateQueries({ queryKey: ['users'] });
     },
-    onError: () => toast.error('Не удалось разблокировать пользователя')
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось разблокировать пользователя')),
+    onSettled: invalidateModeration
   });
 
   const createCheckMutation = useMutation({
@@ -644,7 +813,145 @@ export function AdminDashboard() {
     onError: () => toast.error('Не удалось удалить чек')
   });
 
+  const uploadCheckAttachmentsMutation = useMutation({
+    mutationFn: ({ id, files }: { id: string; files: File[] }) => uploadCheckAttachments(id, files),
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['pending-checks'] })
+      ]);
+    },
+    onError: () => toast.error('Не удалось загрузить фото чека')
+  });
+
+  const deleteCheckAttachmentMutation = useMutation({
+    mutationFn: ({ checkId, attachmentId }: { checkId: string; attachmentId: string }) =>
+      deleteCheckAttachment(checkId, attachmentId),
+    onSuccess: async () => {
+      toast.success('Фото удалено');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['pending-checks'] })
+      ]);
+    },
+    onError: () => toast.error('Не удалось удалить фото')
+  });
+
+  const approveCheckMutation = useMutation({
+    mutationFn: approveCheckApi,
+    onSuccess: async () => {
+      toast.success('Чек подтверждён');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['pending-checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['check-summary'] })
+      ]);
+    },
+    onError: () => toast.error('Не удалось подтвердить чек')
+  });
+
+  const rejectCheckMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectCheckApi(id, reason),
+    onSuccess: async () => {
+      toast.success('Чек отклонён');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['pending-checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['checks'] })
+      ]);
+    },
+    onError: () => toast.error('Не удалось отклонить чек')
+  });
+
+  const adjustCheckMutation = useMutation({
+    mutationFn: ({ id, amount, note }: { id: string; amount: number; note?: string }) =>
+      createCheckAdjustment(id, { amount, note }),
+    onSuccess: async () => {
+      toast.success('Корректировка добавлена');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['check-summary'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось добавить корректировку'))
+  });
+
+  const closePayPeriodMutation = useMutation({
+    mutationFn: closePayPeriod,
+    onSuccess: async () => {
+      toast.success('Период закрыт');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['pay-periods'] }),
+        queryClient.invalidateQueries({ queryKey: ['checks'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось закрыть период'))
+  });
+
+  const reopenPayPeriodMutation = useMutation({
+    mutationFn: reopenPayPeriod,
+    onSuccess: async () => {
+      toast.success('Период открыт');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['pay-periods'] }),
+        queryClient.invalidateQueries({ queryKey: ['checks'] })
+      ]);
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось открыть период'))
+  });
+
+  const createPayoutBatchMutation = useMutation({
+    mutationFn: createPayoutBatch,
+    onSuccess: async () => {
+      toast.success('Выплаты сформированы');
+      await queryClient.invalidateQueries({ queryKey: ['payout-batches'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось сформировать выплаты'))
+  });
+
+  const exportChecksMutation = useMutation({
+    mutationFn: exportChecks,
+    onSuccess: (blob, params) =>
+      downloadBlob(blob, `checks-${toDateInputValue(new Date())}.${params.format}`),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось выгрузить чеки'))
+  });
+
+  const exportSummaryMutation = useMutation({
+    mutationFn: exportChecksSummary,
+    onSuccess: (blob, params) =>
+      downloadBlob(blob, `checks-summary-${toDateInputValue(new Date())}.${params.format}`),
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось выгрузить сводку'))
+  });
+
+  const deletePayoutBatchMutation = useMutation({
+    mutationFn: deletePayoutBatch,
+    onSuccess: async () => {
+      toast.success('Пакет выплат удалён');
+      await queryClient.invalidateQueries({ queryKey: ['payout-batches'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось удалить пакет выплат'))
+  });
+
+  const markPayoutPaidMutation = useMutation({
+    mutationFn: ({ id, txHash }: { id: string; txHash?: string }) => markPayoutPaid(id, txHash),
+    onSuccess: async () => {
+      toast.success('Выплата отмечена');
+      await queryClient.invalidateQueries({ queryKey: ['payout-batches'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось отметить выплату'))
+  });
+
+  const cancelPayoutMutation = useMutation({
+    mutationFn: cancelPayout,
+    onSuccess: async () => {
+      toast.success('Выплата отменена');
+      await queryClient.invalidateQueries({ queryKey: ['payout-batches'] });
+    },
+    onError: (error) => toast.error(apiErrorMessage(error, 'Не удалось отменить выплату'))
+  });
+
   const adminList = useMemo(() => adminsQuery.data ?? [], [adminsQuery.data]);
+  const payoutBatches = useMemo(() => payoutBatchesQuery.data ?? [], [payoutBatchesQuery.data]);
+  const payPeriods = useMemo(() => payPeriodsQuery.data ?? [], [payPeriodsQuery.data]);
   const userList = useMemo(() => usersQuery.data ?? [], [usersQuery.data]);
   const selectedUser = userModal?.entity ?? null;
   const filteredAdminList = useMemo(() => {
@@ -719,9 +1026,13 @@ export function AdminDashboard() {
 
   const checkList = useMemo(() => checksQuery.data ?? [], [checksQuery.data]);
 
+  const pendingChecks = useMemo(() => pendingChecksQuery.data ?? [], [pendingChecksQuery.data]);
+
   const checkTotals = useMemo(() => {
     const list = checksQuery.data ?? [];
-    const total = list.reduce((acc, item) => acc + item.amount, 0);
+    const total = list
+      .filter((item) => item.status === 'approved')
+      .reduce((acc, item) => acc + item.amount, 0);
 
     return {
       count: list.length,
@@ -731,6 +1042,12 @@ export function AdminDashboard() {
 
   const summaryRows = useMemo(() => checksSummaryQuery.data?.users ?? [], [checksSummaryQuery.data]);
   const summaryRanges = checksSummaryQuery.data?.ranges;
+  const fundRatePercent = checksSummaryQuery.data?.fundRatePercent ?? 0;
+
+  // Chats picked for one user shouldn't carry over to the next one opened
+  useEffect(() => {
+    setModerationChats([]);
+  }, [selectedUser?.id]);
 
   useEffect(() => {
     if (summaryViewPeriod === 'custom' && !summaryRanges?.custom) {
@@ -746,15 +1063,15 @@ export function AdminDashboard() {
 
     const totalVolume = rowsWithStats.reduce((acc, item) => acc + (item.stats?.total ?? 0), 0);
     const totalCount = rowsWithStats.reduce((acc, item) => acc + (item.stats?.count ?? 0), 0);
-    const fund = totalVolume * FUND_RATE;
+    const fund = (totalVolume * fundRatePercent) / 100;
 
     let hasAnyPercent = false;
     let hasPartner = false;
 
     const rows = rowsWithStats.map(({ row, stats }) => {
       const effectiveStats: CheckStats = stats ?? { count: 0, total: 0 };
-      const percent = row.user.commissionPercent ?? null;
-      const baseRate = percent !== null ? percent / 100 : null;
+      // Salary comes from the backend: it applies the percent that was valid on each check's date
+      const percent = stats ? stats.percent ?? null : row.user.commissionPercent ?? null;
 
       if (percent !== null) {
         hasAnyPercent = true;
@@ -763,28 +1080,13 @@ export function AdminDashboard() {
         hasPartner = true;
       }
 
-      let salary: number | null = null;
-      let partnerFromOwn: number | null = null;
-      let partnerFromOthers: number | null = null;
-
-      if (baseRate !== null) {
-        if (row.user.isPartner) {
-          const othersTotal = Math.max(totalVolume - effectiveStats.total, 0);
-          partnerFromOwn = baseRate * FUND_RATE * effectiveStats.total;
-          partnerFromOthers = baseRate * FUND_RATE * othersTotal;
-          salary = partnerFromOwn + partnerFromOthers;
-        } else {
-          salary = fund * baseRate;
-        }
-      }
-
       return {
         user: row.user,
         stats: effectiveStats,
         percent,
-        salary,
-        partnerFromOwn,
-        partnerFromOthers
+        salary: effectiveStats.salary ?? null,
+        partnerFromOwn: row.user.isPartner ? effectiveStats.partnerFromOwn ?? null : null,
+        partnerFromOthers: row.user.isPartner ? effectiveStats.partnerFromOthers ?? null : null
       };
     });
 
@@ -815,7 +1117,7 @@ export function AdminDashboard() {
       hasAnyPercent,
       hasPartner
     };
-  }, [summaryRows, summaryViewPeriod]);
+  }, [fundRatePercent, summaryRows, summaryViewPeriod]);
 
   const summaryTableRows = summaryData.rows;
   const summaryTotals = summaryData.aggregates;
@@ -843,7 +1145,10 @@ export function AdminDashboard() {
 
   const isSummaryRangeActive = Boolean(summaryRange.start || summaryRange.end);
 
-  const todayDate = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const todayDate = useMemo(
+    () => toDateInputValue(new Date(), session?.timeZone),
+    [session?.timeZone]
+  );
 
   const handleExportSummary = useCallback(async () => {
     if (typeof window === 'undefined') {
@@ -871,9 +1176,7 @@ export function AdminDashboard() {
 
       if ('showSaveFilePicker' in window && typeof window.showSaveFilePicker === 'function') {
         const fileHandle = await window.showSaveFilePicker({
-          suggestedName: `checks-summary-${SUMMARY_PERIOD_LABELS[summaryViewPeriod].toLowerCase()}-${new Date()
-            .toISOString()
-            .slice(0, 10)}.png`,
+          suggestedName: `checks-summary-${SUMMARY_PERIOD_LABELS[summaryViewPeriod].toLowerCase()}-${toDateInputValue(new Date())}.png`,
           types: [
             {
               description: 'PNG изображение',
@@ -886,17 +1189,10 @@ export function AdminDashboard() {
         await writable.close();
         toast.success('Изображение сохранено');
       } else {
-        const blobUrl = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.download = `checks-summary-${SUMMARY_PERIOD_LABELS[summaryViewPeriod].toLowerCase()}-${new Date()
-          .toISOString()
-          .slice(0, 10)}.png`;
-        link.href = blobUrl;
-        link.rel = 'noopener';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(blobUrl);
+        downloadBlob(
+          blob,
+          `checks-summary-${SUMMARY_PERIOD_LABELS[summaryViewPeriod].toLowerCase()}-${toDateInputValue(new Date())}.png`
+        );
         toast.success('Изображение сохранено через загрузку файла');
       }
     } catch (error) {
@@ -907,10 +1203,24 @@ export function AdminDashboard() {
     }
   }, [summaryViewPeriod]);
 
+  const handleExportSummaryData = (format: ExportFormat) => {
+    exportSummaryMutation.mutate({ startDate: summaryRange.start, endDate: summaryRange.end, format });
+  };
+
+  // Every user's checks for the period currently shown in the summary
+  const handleExportSummaryChecks = (format: ExportFormat) => {
+    exportChecksMutation.mutate(
+      summaryViewPeriod === 'custom'
+        ? { startDate: summaryRange.start, endDate: summaryRange.end, format }
+        : { period: summaryViewPeriod, format }
+    );
+  };
+
   const sanitizeAdminPayload = (values: AdminFormValues): UpsertAdminPayload => ({
     telegramId: values.telegramId.trim(),
     displayName: values.displayName?.trim() ? values.displayName.trim() : undefined,
-    notes: values.notes?.trim() ? values.notes.trim() : undefined
+    notes: values.notes?.trim() ? values.notes.trim() : undefined,
+    role: values.role
   });
 
   const sanitizeUserPayload = (values: UserFormValues): UpsertUserPayload => {
@@ -949,7 +1259,8 @@ export function AdminDashboard() {
     adminForm.reset({
       telegramId: admin.telegramId,
       displayName: admin.displayName ?? '',
-      notes: admin.notes ?? ''
+      notes: admin.notes ?? '',
+      role: admin.role
     });
     setAdminModal({ mode: 'edit', entity: admin });
   };
@@ -979,6 +1290,7 @@ export function AdminDashboard() {
         user.commissionPercent !== null && user.commissionPercent !== undefined
           ? user.commissionPercent.toString()
           : '',
+      commissionEffectiveFrom: '',
       isPartner: user.isPartner
     });
     setUserModal({ mode: 'edit', entity: user });
@@ -1002,6 +1314,7 @@ export function AdminDashboard() {
 
   const openCheckCreateModal = (user: ApiUser) => {
     checkForm.reset(checkFormDefaultValues);
+    setCheckPhotos([]);
     setCheckFormModal({ mode: 'create', user });
   };
 
@@ -1039,11 +1352,13 @@ export function AdminDashboard() {
       amount: check.amount.toString(),
       note: check.note ?? ''
     });
+    setCheckPhotos([]);
     setCheckFormModal({ mode: 'edit', user, check });
   };
 
   const closeCheckFormModal = () => {
     setCheckFormModal(null);
+    setCheckPhotos([]);
     checkForm.reset(checkFormDefaultValues);
   };
 
@@ -1093,7 +1408,7 @@ export function AdminDashboard() {
       id: userModal.entity.id,
       payload: {
         durationMinutes: minutes,
-        chatId: userModal.entity.chatId ?? undefined
+        chats: toChatSelection(moderationChats)
       }
     });
   };
@@ -1106,7 +1421,7 @@ export function AdminDashboard() {
     await unmuteUserMutation.mutateAsync({
       id: userModal.entity.id,
       payload: {
-        chatId: userModal.entity.chatId ?? undefined
+        chats: toChatSelection(moderationChats)
       }
     });
   };
@@ -1130,7 +1445,7 @@ export function AdminDashboard() {
     }
 
     const payloadBase = {
-      chatId: blockModal.user.chatId ?? undefined
+      chats: toChatSelection(moderationChats)
     };
 
     if (blockModal.mode === 'block') {
@@ -1151,6 +1466,56 @@ export function AdminDashboard() {
     setBlockModal(null);
   };
 
+  const handleRejectModalConfirm = async () => {
+    if (!rejectModal) {
+      return;
+    }
+
+    const reason = rejectModal.reason.trim();
+
+    if (!reason) {
+      toast.error('Укажите причину отклонения');
+      return;
+    }
+
+    await rejectCheckMutation.mutateAsync({ id: rejectModal.check.id, reason });
+    setRejectModal(null);
+  };
+
+  const handleAdjustModalConfirm = async () => {
+    if (!adjustModal) {
+      return;
+    }
+
+    const amount = Number(adjustModal.amount.replace(',', '.'));
+
+    if (!Number.isFinite(amount) || amount === 0) {
+      toast.error('Введите сумму корректировки');
+      return;
+    }
+
+    const note = adjustModal.note.trim();
+
+    await adjustCheckMutation.mutateAsync({
+      id: adjustModal.check.id,
+      amount: Math.round(amount * 100) / 100,
+      note: note.length > 0 ? note : undefined
+    });
+    setAdjustModal(null);
+  };
+
+  const handlePayModalConfirm = async () => {
+    if (!payModal) {
+      return;
+    }
+
+    await markPayoutPaidMutation.mutateAsync({
+      id: payModal.payout.id,
+      txHash: payModal.txHash.trim() || undefined
+    });
+    setPayModal(null);
+  };
+
   const handleAdminSubmit = adminForm.handleSubmit(async (values) => {
     const payload = sanitizeAdminPayload(values);
 
@@ -1201,6 +1566,10 @@ export function AdminDashboard() {
 
     if (values.commissionPercent.trim().length > 0) {
       payload.commissionPercent = percentResult.value;
+
+      if (values.commissionEffectiveFrom) {
+        payload.commissionEffectiveFrom = values.commissionEffectiveFrom;
+      }
     }
 
     if (!payload.telegramId) {
@@ -1252,6 +1621,10 @@ export function AdminDashboard() {
         updatePayload.commissionPercent = null;
       }
 
+      if (updatePayload.commissionPercent !== undefined && values.commissionEffectiveFrom) {
+        updatePayload.commissionEffectiveFrom = values.commissionEffectiveFrom;
+      }
+
       if (Object.keys(updatePayload).length === 0) {
         toast('Изменений нет');
       } else {
@@ -1284,12 +1657,16 @@ export function AdminDashboard() {
     const note = values.note.trim();
 
     if (checkFormModal.mode === 'create') {
-      await createCheckMutation.mutateAsync({
+      const created = await createCheckMutation.mutateAsync({
         userId: checkFormModal.user.id,
         amount: normalizedAmount,
         note: note.length > 0 ? note : undefined
       });
 
+      if (checkPhotos.length > 0) {
+        await uploadCheckAttachmentsMutation.mutateAsync({ id: created.id, files: checkPhotos });
+      }
+
       // Close form modal - confirmation modal will be shown by mutation's onSuccess
       closeCheckFormModal();
 
@@ -1310,13 +1687,23 @@ export function AdminDashboard() {
         updatePayload.note = note;
       }
 
-      if (Object.keys(updatePayload).length === 0) {
+      if (Object.keys(updatePayload).length === 0 && checkPhotos.length === 0) {
         toast('Изменений нет');
       } else {
-        await updateCheckMutation.mutateAsync({
-          id: checkFormModal.check.id,
-          payload: updatePayload
-        });
+        if (Object.keys(updatePayload).length > 0) {
+          await updateCheckMutation.mutateAsync({
+            id: checkFormModal.check.id,
+            payload: updatePayload
+          });
+        }
+
+        if (checkPhotos.length > 0) {
+          await uploadCheckAttachmentsMutation.mutateAsync({
+            id: checkFormModal.check.id,
+            files: checkPhotos
+          });
+          toast.success('Фото добавлены');
+        }
       }
 
       closeCheckFormModal();
@@ -1333,6 +1720,19 @@ export function AdminDashboard() {
     createCheckMutation.isPending ||
     updateCheckMutation.isPending ||
     deleteCheckMutation.isPending ||
+    uploadCheckAttachmentsMutation.isPending ||
+    deleteCheckAttachmentMutation.isPending ||
+    approveCheckMutation.isPending ||
+    rejectCheckMutation.isPending ||
+    adjustCheckMutation.isPending ||
+    closePayPeriodMutation.isPending ||
+    reopenPayPeriodMutation.isPending ||
+    createPayoutBatchMutation.isPending ||
+    deletePayoutBatchMutation.isPending ||
+    markPayoutPaidMutation.isPending ||
+    cancelPayoutMutation.isPending ||
+    exportChecksMutation.isPending ||
+    exportSummaryMutation.isPending ||
     muteUserMutation.isPending ||
     unmuteUserMutation.isPending ||
     blockUserMutation.isPending ||
@@ -1350,6 +1750,8 @@ export function AdminDashboard() {
         await deleteUserMutation.mutateAsync(confirmDelete.id);
       } else if (confirmDelete.type === 'check') {
         await deleteCheckMutation.mutateAsync(confirmDelete.id);
+      } else if (confirmDelete.type === 'payout-batch') {
+        await deletePayoutBatchMutation.mutateAsync(confirmDelete.id);
       }
       setConfirmDelete(null);
     } catch {
@@ -1389,7 +1791,7 @@ export function AdminDashboard() {
   return (
     <section className="flex flex-col gap-6">
       <div className="flex gap-2 overflow-x-auto rounded-2xl bg-white/5 p-2">
-        {ADMIN_TABS.map((tab) => (
+        {visibleTabs.map((tab) => (
           <button
             key={tab.id}
             type="button"
@@ -1400,6 +1802,7 @@ export function AdminDashboard() {
           >
             {tab.label}
             {tab.id === 'users' ? ` (${userList.length})` : null}
+            {tab.id === 'checks' && pendingChecks.length > 0 ? ` (${pendingChecks.length})` : null}
             {tab.id === 'admins' ? ` (${adminList.length})` : null}
           </button>
         ))}
@@ -1440,7 +1843,9 @@ export function AdminDashboard() {
                       <p className="text-base font-semibold">
                         {admin.displayName ?? `Admin ${admin.telegramId}`}
                       </p>
-                      <p className="text-sm text-tgHint">ID: {admin.telegramId}</p>
+                      <p className="text-sm text-tgHint">
+                        ID: {admin.telegramId} · {ADMIN_ROLE_LABELS[admin.role]}
+                      </p>
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -1475,14 +1880,77 @@ export function AdminDashboard() {
         </div>
       ) : activeTab === 'checks' ? (
         <div className="flex flex-col gap-4">
-          <button
-            type="button"
-            onClick={openUserSelectModalForCheck}
-            className="flex flex-col gap-1 rounded-2xl bg-white/5 p-4 text-left transition-colors hover:bg-white/10"
-          >
-            <span className="text-base font-semibold text-tgText">Создать чек</span>
-            <span className="text-sm text-tgHint">Выбрать пользователя и добавить чек.</span>
-          </button>
+          {can('checks.manage') ? (
+            <>
+              <button
+                type="button"
+                onClick={openUserSelectModalForCheck}
+                className="flex flex-col gap-1 rounded-2xl bg-white/5 p-4 text-left transition-colors hover:bg-white/10"
+              >
+                <span className="text-base font-semibold text-tgText">Создать чек</span>
+                <span className="text-sm text-tgHint">Выбрать пользователя и добавить чек.</span>
+              </button>
+
+              <CheckImportPanel />
+            </>
+          ) : null}
+
+          <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+            <div className="flex flex-col gap-1">
+              <h2 className="text-lg font-semibold text-tgText">На проверке</h2>
+              <p className="text-sm text-tgHint">
+                Чеки, отправленные сотрудниками. В зарплате учитываются только подтверждённые.
+              </p>
+            </div>
+            {pendingChecksQuery.isLoading ? (
+              <p className="text-sm text-tgHint">Загрузка чеков...</p>
+            ) : pendingChecksQuery.isError ? (
+              <p className="text-sm text-red-400">Не удалось загрузить чеки на проверке.</p>
+            ) : pendingChecks.length === 0 ? (
+              <p className="text-sm text-tgHint">Новых чеков нет.</p>
+            ) : (
+              pendingChecks.map((check) => (
+                <div
+                  key={check.id}
+                  className="flex flex-col gap-2 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-3"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-base font-semibold text-tgText">
+                        {formatCheckAmount(check.amount)}
+                      </p>
+                      <p className="text-xs text-tgHint">
+                        {check.user ? formatUserDisplay(check.user) : check.userId} ·{' '}
+                        {dateTimeFormatter.format(new Date(check.createdAt))}
+                      </p>
+                    </div>
+                    {can('checks.manage') ? (
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => approveCheckMutation.mutate(check.id)}
+                          disabled={isBusy}
+                          className="rounded-xl bg-tgButton px-3 py-1 text-xs font-semibold text-tgButtonText disabled:opacity-60"
+                        >
+                          Подтвердить
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setRejectModal({ check, reason: '' })}
+                          disabled={isBusy}
+                          className="rounded-xl bg-red-500/80 px-3 py-1 text-xs text-white disabled:opacity-60"
+                        >
+                          Отклонить
+                        </button>
+                      </div>
+                    ) : null}
+                  </div>
+                  {check.note && <p className="text-sm text-tgHint">{check.note}</p>}
+                  <CheckAttachments check={check} />
+                </div>
+              ))
+            )}
+          </div>
 
           <div className="rounded-2xl bg-white/5 p-4">
             <h2 className="text-lg font-semibold text-tgText">Сводка чеков</h2>
@@ -1561,7 +2029,7 @@ export function AdminDashboard() {
                   {summaryTableRows.length > 0 ? (
                     <p className="text-[11px] text-tgHint">
                       Объём: {formatAmount(summaryVolume)} AED · Фонд (
-                      {percentFormatter.format(FUND_RATE_PERCENT)}%): {formatAmount(summaryFund)} AED
+                      {percentFormatter.format(fundRatePercent)}%): {formatAmount(summaryFund)} AED
                       {summaryCheckCount
                         ? ` · Чеки: ${summaryCheckCount.toLocaleString('ru-RU')} шт.`
                         : ''}
@@ -1790,33 +2258,227 @@ export function AdminDashboard() {
                     </table>
                   </div>
                   <p className="text-[11px] text-tgHint">
-                    Фонд = {percentFormatter.format(FUND_RATE_PERCENT)}% от объёма (
+                    Фонд = {percentFormatter.format(fundRatePercent)}% от объёма (
                     {formatAmount(summaryFund)} AED). Зарплата считается от фонда; для партнёров показываем
                     долю из чужих и собственных чеков.
                   </p>
                 </>
               )}
             </div>
-            <button
-              type="button"
-              onClick={handleExportSummary}
-              disabled={!canExportSummary || isExportingSummary}
-              className="w-full rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText transition-colors hover:border-[color:var(--tg-theme-accent-text-color,#5aa7ff)] hover:text-tgAccent disabled:opacity-40 sm:w-auto sm:self-end"
-            >
-              {isExportingSummary ? 'Формирование…' : 'Скачать PNG'}
-            </button>
+            <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:justify-end">
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={`summary-${format}`}
+                  type="button"
+                  onClick={() => handleExportSummaryData(format)}
+                  disabled={!canExportSummary || isBusy}
+                  className={exportButtonClass}
+                >
+                  Сводка {format.toUpperCase()}
+                </button>
+              ))}
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={`checks-${format}`}
+                  type="button"
+                  onClick={() => handleExportSummaryChecks(format)}
+                  disabled={!canExportSummary || isBusy}
+                  className={exportButtonClass}
+                >
+                  Чеки {format.toUpperCase()}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={handleExportSummary}
+                disabled={!canExportSummary || isExportingSummary}
+                className={exportButtonClass}
+              >
+                {isExportingSummary ? 'Формирование…' : 'Скачать PNG'}
+              </button>
+            </div>
           </div>
         </div>
-      ) : (
+      ) : activeTab === 'audit' ? (
+        <AuditLogPanel admins={adminList} />
+      ) : activeTab === 'settings' ? (
         <div className="flex flex-col gap-4">
-          <button
-            type="button"
-            onClick={openUserCreateModal}
-            className="flex flex-col gap-1 rounded-2xl bg-white/5 p-4 text-left transition-colors hover:bg-white/10"
-          >
-            <span className="text-base font-semibold text-tgText">Добавить пользователя</span>
-            <span className="text-sm text-tgHint">Форма откроется в новом модальном окне.</span>
-          </button>
+          <TimeZoneSettings />
+          <SalaryRulesSettings users={userList} />
+          <DigestSettings />
+          <ManagedChatsSettings />
+          <WarningSettings />
+        </div>
+      ) : activeTab === 'payouts' ? (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+            <div className="flex flex-col gap-1">
+              <h2 className="text-lg font-semibold text-tgText">Закрытие месяца</h2>
+              <p className="text-sm text-tgHint">
+                После закрытия чеки месяца нельзя изменить, а зарплата фиксируется. Исправления вносятся
+                корректировками в текущем периоде. Выплаты формируются только по закрытым месяцам, кошельки
+                берутся из профилей на момент формирования.
+              </p>
+            </div>
+            <input
+              type="month"
+              value={payoutMonth}
+              onChange={(event) => setPayoutMonth(event.target.value)}
+              className={modalInputClass}
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => closePayPeriodMutation.mutate(payoutMonth)}
+                disabled={!payoutMonth || isBusy}
+                className="flex-1 rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-medium text-tgText disabled:opacity-60"
+              >
+                Закрыть месяц
+              </button>
+              <button
+                type="button"
+                onClick={() => createPayoutBatchMutation.mutate(payoutMonth)}
+                disabled={!payoutMonth || isBusy}
+                className="flex-1 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+              >
+                Сформировать выплаты
+              </button>
+            </div>
+            {payPeriodsQuery.isError ? (
+              <p className="text-sm text-red-400">Не удалось загрузить закрытые периоды.</p>
+            ) : payPeriods.length > 0 ? (
+              <div className="flex flex-col gap-2">
+                {payPeriods.map((period) => (
+                  <div
+                    key={period.id}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] p-3"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-tgText">
+                        {formatRange({ start: period.start, end: period.end })}
+                      </p>
+                      <p className="text-xs text-tgHint">
+                        {period.checks} чеков · {formatCheckAmount(period.amount)} · з/п{' '}
+                        {formatCheckAmount(period.salary)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => reopenPayPeriodMutation.mutate(period.id)}
+                      disabled={isBusy}
+                      className="rounded-xl border border-white/20 px-3 py-1 text-xs disabled:opacity-60"
+                    >
+                      Открыть
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          {payoutBatchesQuery.isLoading ? (
+            <p className="text-sm text-tgHint">Загрузка выплат...</p>
+          ) : payoutBatchesQuery.isError ? (
+            <p className="text-sm text-red-400">Не удалось загрузить выплаты.</p>
+          ) : payoutBatches.length === 0 ? (
+            <p className="text-sm text-tgHint">Выплаты ещё не формировались.</p>
+          ) : (
+            payoutBatches.map((batch) => (
+              <div key={batch.id} className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-base font-semibold text-tgText">
+                      {formatRange({ start: batch.periodStart, end: batch.periodEnd })}
+                    </p>
+                    <p className="text-xs text-tgHint">
+                      Выплачено {formatCheckAmount(batch.paid)} из {formatCheckAmount(batch.total)}
+                    </p>
+                  </div>
+                  {batch.payouts.every((payout) => payout.status !== 'paid') ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setConfirmDelete({
+                          type: 'payout-batch',
+                          id: batch.id,
+                          name: `выплаты за ${formatRange({ start: batch.periodStart, end: batch.periodEnd })}`
+                        })
+                      }
+                      disabled={isBusy}
+                      className="rounded-xl bg-red-500/80 px-3 py-1 text-xs text-white disabled:opacity-60"
+                    >
+                      Удалить
+                    </button>
+                  ) : null}
+                </div>
+                {batch.payouts.map((payout) => (
+                  <div
+                    key={payout.id}
+                    className="flex flex-col gap-2 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-3"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-base font-semibold text-tgText">{formatCheckAmount(payout.amount)}</p>
+                        <p className="text-xs text-tgHint">
+                          {payout.user ? formatUserDisplay(payout.user) : payout.userId}
+                        </p>
+                      </div>
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                          PAYOUT_STATUS_BADGES[payout.status].className
+                        }`}
+                      >
+                        {PAYOUT_STATUS_BADGES[payout.status].label}
+                      </span>
+                    </div>
+                    <p className="break-all text-xs text-tgHint">
+                      {payout.wallet && payout.network
+                        ? `${PAYOUT_NETWORK_LABELS[payout.network]}: ${payout.wallet}`
+                        : 'Кошелёк не указан'}
+                    </p>
+                    {payout.txHash ? (
+                      <p className="break-all text-[11px] text-tgHint">TX: {payout.txHash}</p>
+                    ) : null}
+                    {payout.status === 'pending' ? (
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setPayModal({ payout, txHash: '' })}
+                          disabled={isBusy}
+                          className="rounded-xl bg-tgButton px-3 py-1 text-xs font-semibold text-tgButtonText disabled:opacity-60"
+                        >
+                          Выплачено
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => cancelPayoutMutation.mutate(payout.id)}
+                          disabled={isBusy}
+                          className="rounded-xl border border-white/20 px-3 py-1 text-xs disabled:opacity-60"
+                        >
+                          Отменить
+                        </button>
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {can('users.manage') ? (
+            <button
+              type="button"
+              onClick={openUserCreateModal}
+              className="flex flex-col gap-1 rounded-2xl bg-white/5 p-4 text-left transition-colors hover:bg-white/10"
+            >
+              <span className="text-base font-semibold text-tgText">Добавить пользователя</span>
+              <span className="text-sm text-tgHint">Форма откроется в новом модальном окне.</span>
+            </button>
+          ) : null}
+
+          {can('users.moderate') ? <JoinRequestsPanel /> : null}
 
           <input
             value={userSearch}
@@ -1851,8 +2513,11 @@ export function AdminDashboard() {
                       </div>
                       <p className="text-sm text-tgHint">@{user.username ?? 'без username'}</p>
                       <p className="text-sm text-tgHint">ID: {user.telegramId}</p>
+                      <ChatMembershipList memberships={user.chatMemberships ?? []} />
                       {user.isBlocked ? (
                         <p className="text-xs text-red-400">Заблокирован</p>
+                      ) : user.isPending ? (
+                        <p className="text-xs text-tgHint">Заявка на вступление не одобрена</p>
                       ) : user.mutedUntil ? (
                         <p className="text-xs text-yellow-300">
                           Мут до {dateTimeFormatter.format(new Date(user.mutedUntil))}
@@ -1860,36 +2525,42 @@ export function AdminDashboard() {
                       ) : null}
                     </div>
                     <div className="flex flex-wrap justify-end gap-2">
-                      <button
-                        type="button"
-                        onClick={() => openChecksModal(user)}
-                        disabled={isBusy}
-                        className="rounded-xl bg-tgButton px-3 py-1 text-sm font-semibold text-tgButtonText disabled:opacity-60"
-                      >
-                        Чеки
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => openUserEditModal(user)}
-                        disabled={isBusy}
-                        className="rounded-xl border border-white/20 px-3 py-1 text-sm disabled:opacity-60"
-                      >
-                        Изменить
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setConfirmDelete({
-                            type: 'user',
-                            id: user.id,
-                            name: user.firstName ?? user.username ?? user.telegramId
-                          })
-                        }
-                        disabled={isBusy}
-                        className="rounded-xl bg-red-500/80 px-3 py-1 text-sm text-white disabled:opacity-60"
-                      >
-                        Удалить
-                      </button>
+                      {can('checks.view') ? (
+                        <button
+                          type="button"
+                          onClick={() => openChecksModal(user)}
+                          disabled={isBusy}
+                          className="rounded-xl bg-tgButton px-3 py-1 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+                        >
+                          Чеки
+                        </button>
+                      ) : null}
+                      {can('users.manage') || can('users.moderate') ? (
+                        <button
+                          type="button"
+                          onClick={() => openUserEditModal(user)}
+                          disabled={isBusy}
+                          className="rounded-xl border border-white/20 px-3 py-1 text-sm disabled:opacity-60"
+                        >
+                          Изменить
+                        </button>
+                      ) : null}
+                      {can('users.manage') ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setConfirmDelete({
+                              type: 'user',
+                              id: user.id,
+                              name: user.firstName ?? user.username ?? user.telegramId
+                            })
+                          }
+                          disabled={isBusy}
+                          className="rounded-xl bg-red-500/80 px-3 py-1 text-sm text-white disabled:opacity-60"
+                        >
+                          Удалить
+                        </button>
+                      ) : null}
                     </div>
                   </div>
                   {user.bio && <p className="text-sm text-tgHint">{user.bio}</p>}
@@ -1936,6 +2607,17 @@ export function AdminDashboard() {
             />
           )}
 
+          {renderAdminField(
+            'role',
+            <select {...adminForm.register('role')} className={modalInputClass}>
+              {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map((role) => (
+                <option key={role} value={role}>
+                  {ADMIN_ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          )}
+
           {renderAdminField(
             'notes',
             <textarea
@@ -2060,6 +2742,25 @@ export function AdminDashboard() {
             />
           )}
 
+          {renderUserField(
+            'commissionEffectiveFrom',
+            <input type="date" {...userForm.register('commissionEffectiveFrom')} className={modalInputClass} />
+          )}
+
+          {userModal?.mode === 'edit' && (commissionHistoryQuery.data ?? []).length > 0 ? (
+            <div className="flex flex-col gap-1 text-xs text-tgHint">
+              <span className="font-medium text-tgText">История процента</span>
+              {(commissionHistoryQuery.data ?? []).map((rate) => (
+                <span key={rate.id}>
+                  {formatPercent(rate.percent)} с{' '}
+                  {new Date(rate.effectiveFrom).getFullYear() <= 1970
+                    ? 'начала учёта'
+                    : dateTimeFormatter.format(new Date(rate.effectiveFrom))}
+                </span>
+              ))}
+            </div>
+          ) : null}
+
           {renderUserField(
             'isPartner',
             <div className="flex items-center gap-2">
@@ -2072,16 +2773,18 @@ export function AdminDashboard() {
             </div>
           )}
 
-          <button
-            type="submit"
-            disabled={isBusy}
-            className="mt-2 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
-          >
-            {userModal?.mode === 'edit' ? 'Сохранить' : 'Добавить'}
-          </button>
+          {can('users.manage') ? (
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="mt-2 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+            >
+              {userModal?.mode === 'edit' ? 'Сохранить' : 'Добавить'}
+            </button>
+          ) : null}
           </form>
 
-      {userModal?.mode === 'edit' && selectedUser ? (
+      {userModal?.mode === 'edit' && selectedUser && can('users.moderate') ? (
         <div className="mt-4 flex flex-col gap-3 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-4">
           <div className="flex flex-col gap-1">
             <h3 className="text-sm font-semibold text-tgText">Модерация</h3>
@@ -2092,11 +2795,17 @@ export function AdminDashboard() {
             </p>
             <p className="text-xs text-tgHint">
               {selectedUser.isBlocked
-                ? `Статус: заблокирован${selectedUser.blockReason ? ` (${selectedUser.blockReason})` : ''}.`
+                ? `Статус: заблокирован, доступ к приложению закрыт${selectedUser.blockReason ? ` (${selectedUser.blockReason})` : ''}. Чаты с блокировкой отмечены в списке чатов.`
                 : 'Статус: активен.'}
             </p>
           </div>
 
+          <ModerationChatPicker
+            userId={selectedUser.id}
+            value={moderationChats}
+            onChange={setModerationChats}
+          />
+
           <div className="flex flex-wrap gap-2">
             {MUTE_OPTIONS.map((option) => (
               <button
@@ -2120,21 +2829,43 @@ export function AdminDashboard() {
             >
               Снять мут
             </button>
-            <button
-              type="button"
-              onClick={() => handleBlockToggle(!selectedUser.isBlocked)}
-              disabled={isBusy}
-              className={`rounded-xl px-4 py-2 text-sm font-semibold transition-colors ${
-                selectedUser.isBlocked
-                  ? 'border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] text-tgText'
-                  : 'bg-red-500 text-white'
-              } disabled:opacity-60`}
-            >
-              {selectedUser.isBlocked ? 'Разблокировать' : 'Заблокировать'}
-            </button>
+            {/* Bans are per chat, so both actions stay available for the chats picked above */}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleBlockToggle(true)}
+                disabled={isBusy}
+                className="flex-1 rounded-xl bg-red-500 px-4 py-2 text-sm font-semibold text-white transition-colors disabled:opacity-60"
+              >
+                Заблокировать
+              </button>
+              <button
+                type="button"
+                onClick={() => handleBlockToggle(false)}
+                disabled={isBusy}
+                className="flex-1 rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm font-semibold text-tgText transition-colors disabled:opacity-60"
+              >
+                Разблокировать
+              </button>
+            </div>
           </div>
+
+          <WarningsPanel
+            user={selectedUser}
+            onUserChange={(updated) => setUserModal({ mode: 'edit', entity: updated })}
+          />
+
+          <ModerationHistory userId={selectedUser.id} />
         </div>
       ) : null}
+
+      {userModal?.mode === 'edit' && selectedUser && can('payroll.manage') ? (
+        <SalaryAdjustmentsPanel userId={selectedUser.id} />
+      ) : null}
+
+      {userModal?.mode === 'edit' && selectedUser && can('payroll.manage') ? (
+        <PayslipActions userId={selectedUser.id} />
+      ) : null}
         </>
       </MobileModal>
 
@@ -2143,7 +2874,7 @@ export function AdminDashboard() {
         title={checksModal ? `Чеки · ${formatUserDisplay(checksModal.user)}` : ''}
         onClose={closeChecksModal}
         footer={
-          checksModal ? (
+          checksModal && can('checks.manage') ? (
             <button
               type="button"
               onClick={() => openCheckCreateModal(checksModal.user)}
@@ -2206,6 +2937,22 @@ export function AdminDashboard() {
               <span> · Сумма: {formatCheckAmount(checkTotals.total)}</span>
             </div>
 
+            <div className="flex gap-2">
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() =>
+                    exportChecksMutation.mutate({ ...checkFilterParams(checksModal.user.id), format })
+                  }
+                  disabled={isBusy || checkTotals.count === 0}
+                  className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-3 py-1 text-xs text-tgText disabled:opacity-60"
+                >
+                  Скачать {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
             <div className="flex flex-col gap-3">
               {checksQuery.isLoading ? (
                 <p className="text-sm text-tgHint">Загрузка чеков...</p>
@@ -2224,33 +2971,77 @@ export function AdminDashboard() {
                         <p className="text-xs text-tgHint">
                           {dateTimeFormatter.format(new Date(check.createdAt))}
                         </p>
-                      </div>
-                      <div className="flex gap-2">
-                        <button
-                          type="button"
-                          onClick={() => openCheckEditModal(checksModal.user, check)}
-                          disabled={isBusy}
-                          className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-3 py-1 text-xs text-tgText disabled:opacity-60"
-                        >
-                          Изменить
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() =>
-                            setConfirmDelete({
-                              type: 'check',
-                              id: check.id,
-                              name: formatCheckAmount(check.amount)
-                            })
-                          }
-                          disabled={isBusy}
-                          className="rounded-xl bg-red-500/80 px-3 py-1 text-xs text-white disabled:opacity-60"
+                        <span
+                          className={`mt-1 inline-block rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                            CHECK_STATUS_BADGES[check.status].className
+                          }`}
                         >
-                          Удалить
-                        </button>
+                          {CHECK_STATUS_BADGES[check.status].label}
+                        </span>
+                        {check.adjustedCheckId ? (
+                          <span className="ml-1 mt-1 inline-block rounded-full bg-white/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-tgHint">
+                            Корректировка
+                          </span>
+                        ) : null}
                       </div>
+                      {!can('checks.manage') ? null : check.locked ? (
+                        check.status === 'approved' ? (
+                          <button
+                            type="button"
+                            onClick={() => setAdjustModal({ check, amount: '', note: '' })}
+                            disabled={isBusy}
+                            className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-3 py-1 text-xs text-tgText disabled:opacity-60"
+                          >
+                            Корректировка
+                          </button>
+                        ) : null
+                      ) : (
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => openCheckEditModal(checksModal.user, check)}
+                            disabled={isBusy}
+                            className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-3 py-1 text-xs text-tgText disabled:opacity-60"
+                          >
+                            Изменить
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setConfirmDelete({
+                                type: 'check',
+                                id: check.id,
+                                name: formatCheckAmount(check.amount)
+                              })
+                            }
+                            disabled={isBusy}
+                            className="rounded-xl bg-red-500/80 px-3 py-1 text-xs text-white disabled:opacity-60"
+                          >
+                            Удалить
+                          </button>
+                        </div>
+                      )}
                     </div>
                     {check.note && <p className="text-sm text-tgHint">{check.note}</p>}
+                    {check.status === 'rejected' && check.rejectionReason ? (
+                      <p className="text-xs text-red-300">Причина отклонения: {check.rejectionReason}</p>
+                    ) : null}
+                    {check.locked ? (
+                      <p className="text-xs text-tgHint">Период закрыт — чек нельзя изменить.</p>
+                    ) : null}
+                    <CheckAttachments
+                      check={check}
+                      disabled={isBusy}
+                      onDelete={
+                        check.locked || !can('checks.manage')
+                          ? undefined
+                          : (attachment) =>
+                              deleteCheckAttachmentMutation.mutate({
+                                checkId: check.id,
+                                attachmentId: attachment.id
+                              })
+                      }
+                    />
                   </div>
                 ))
               )}
@@ -2294,6 +3085,20 @@ export function AdminDashboard() {
             />
           </label>
 
+          <label className="flex flex-col gap-1 text-sm">
+            Фото чека
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/heic"
+              multiple
+              onChange={(event) => setCheckPhotos(Array.from(event.target.files ?? []))}
+              className="text-sm text-tgHint file:mr-3 file:rounded-xl file:border-0 file:bg-tgButton file:px-3 file:py-1 file:text-sm file:text-tgButtonText"
+            />
+            {checkPhotos.length > 0 ? (
+              <span className="text-xs text-tgHint">Выбрано фото: {checkPhotos.length}</span>
+            ) : null}
+          </label>
+
           <button
             type="submit"
             disabled={isBusy}
@@ -2369,6 +3174,152 @@ export function AdminDashboard() {
         )}
       </MobileModal>
 
+      <MobileModal
+        open={Boolean(rejectModal)}
+        title="Отклонение чека"
+        onClose={() => setRejectModal(null)}
+        footer={
+          rejectModal ? (
+            <div className="flex flex-col gap-2">
+              <button
+                type="button"
+                onClick={handleRejectModalConfirm}
+                disabled={isBusy}
+                className="rounded-xl bg-red-500 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+              >
+                Отклонить
+              </button>
+              <button
+                type="button"
+                onClick={() => setRejectModal(null)}
+                className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm text-tgText"
+              >
+                Отмена
+              </button>
+            </div>
+          ) : undefined
+        }
+      >
+        {rejectModal ? (
+          <label className="flex flex-col gap-2 text-sm">
+            Причина отклонения чека на {formatCheckAmount(rejectModal.check.amount)}
+            <textarea
+              value={rejectModal.reason}
+              onChange={(event) =>
+                setRejectModal((prev) => (prev ? { ...prev, reason: event.target.value } : prev))
+              }
+              rows={3}
+              className={`${modalInputClass} min-h-[96px]`}
+              placeholder="Причина, которая будет показана сотруднику"
+            />
+          </label>
+        ) : null}
+      </MobileModal>
+
+      <MobileModal
+        open={Boolean(adjustModal)}
+        title="Корректировка чека"
+        onClose={() => setAdjustModal(null)}
+        footer={
+          adjustModal ? (
+            <div className="flex flex-col gap-2">
+              <button
+                type="button"
+                onClick={handleAdjustModalConfirm}
+                disabled={isBusy}
+                className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+              >
+                Добавить корректировку
+              </button>
+              <button
+                type="button"
+                onClick={() => setAdjustModal(null)}
+                className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm text-tgText"
+              >
+                Отмена
+              </button>
+            </div>
+          ) : undefined
+        }
+      >
+        {adjustModal ? (
+          <div className="flex flex-col gap-3">
+            <p className="text-sm text-tgHint">
+              Чек на {formatCheckAmount(adjustModal.check.amount)} от{' '}
+              {dateTimeFormatter.format(new Date(adjustModal.check.createdAt))} находится в закрытом периоде.
+              Корректировка попадёт в текущий период; для уменьшения суммы укажите отрицательное значение.
+            </p>
+            <label className="flex flex-col gap-2 text-sm">
+              Сумма корректировки
+              <input
+                type="number"
+                step="0.01"
+                inputMode="decimal"
+                value={adjustModal.amount}
+                onChange={(event) =>
+                  setAdjustModal((prev) => (prev ? { ...prev, amount: event.target.value } : prev))
+                }
+                className={modalInputClass}
+                placeholder="-100.00"
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm">
+              Заметка
+              <textarea
+                value={adjustModal.note}
+                onChange={(event) =>
+                  setAdjustModal((prev) => (prev ? { ...prev, note: event.target.value } : prev))
+                }
+                rows={3}
+                className={`${modalInputClass} min-h-[96px]`}
+                placeholder="Причина корректировки"
+              />
+            </label>
+          </div>
+        ) : null}
+      </MobileModal>
+
+      <MobileModal
+        open={Boolean(payModal)}
+        title="Отметить выплату"
+        onClose={() => setPayModal(null)}
+        footer={
+          payModal ? (
+            <div className="flex flex-col gap-2">
+              <button
+                type="button"
+                onClick={handlePayModalConfirm}
+                disabled={isBusy}
+                className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+              >
+                Подтвердить выплату
+              </button>
+              <button
+                type="button"
+                onClick={() => setPayModal(null)}
+                className="rounded-xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] px-4 py-2 text-sm text-tgText"
+              >
+                Отмена
+              </button>
+            </div>
+          ) : undefined
+        }
+      >
+        {payModal ? (
+          <label className="flex flex-col gap-2 text-sm">
+            Хеш транзакции для выплаты {formatCheckAmount(payModal.payout.amount)}
+            <input
+              value={payModal.txHash}
+              onChange={(event) =>
+                setPayModal((prev) => (prev ? { ...prev, txHash: event.target.value } : prev))
+              }
+              className={modalInputClass}
+              placeholder="Необязательно"
+            />
+          </label>
+        ) : null}
+      </MobileModal>
+
       <MobileModal
         open={Boolean(confirmDelete)}
         title="Подтверждение удаления"
@@ -1,11 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 
+import {
+  createCheck,
+  deleteCheckAttachment,
+  fetchMySalarySummary,
+  listChecks,
+  uploadCheckAttachments,
+  type CheckPeriod
+} from '@/api/checks';
+import { fetchMyPayouts } from '@/api/payouts';
 import { updateProfile, type UpdateProfilePayload } from '@/api/profile';
-import { fetchMySalarySummary, listChecks, type CheckPeriod } from '@/api/checks';
+import { CheckAttachments } from '@/components/CheckAttachments';
+import { MobileModal } from '@/components/MobileModal';
+import { PayslipActions } from '@/components/PayslipActions';
 import { useSession } from '@/providers/SessionProvider';
+import type { CheckStatus, PayoutStatus, SalaryAdjustmentType } from '@/types/api';
+import { toDateInputValue, zonedDateFormatter } from '@/utils/timeZone';
 
 const CHECK_PERIOD_OPTIONS: { id: CheckPeriod; label: string }[] = [
   { id: 'day', label: 'Сегодня' },
@@ -14,23 +27,59 @@ const CHECK_PERIOD_OPTIONS: { id: CheckPeriod; label: string }[] = [
   { id: 'custom', label: 'Период' }
 ];
 
-const PROFILE_TABS: { id: 'profile' | 'settings' | 'checks'; label: string }[] = [
+const PROFILE_TABS: { id: 'profile' | 'settings' | 'checks' | 'payouts'; label: string }[] = [
   { id: 'profile', label: 'Профиль' },
   { id: 'settings', label: 'Настройки' },
-  { id: 'checks', label: 'Чеки' }
+  { id: 'checks', label: 'Чеки' },
+  { id: 'payouts', label: 'Выплаты' }
 ];
 
 type SettingsFormValues = {
   payoutUsdtTrc20: string;
   payoutUsdtBep20: string;
+  notifyCheckChanges: boolean;
+};
+
+type CheckFormValues = {
+  amount: string;
+  note: string;
+};
+
+const checkFormDefaultValues: CheckFormValues = {
+  amount: '',
+  note: ''
+};
+
+const CHECK_STATUS_BADGES: Record<CheckStatus, { label: string; className: string }> = {
+  pending: { label: 'На проверке', className: 'bg-yellow-500/15 text-yellow-200' },
+  approved: { label: 'Подтверждён', className: 'bg-green-500/15 text-green-300' },
+  rejected: { label: 'Отклонён', className: 'bg-red-500/15 text-red-300' }
+};
+
+const PAYOUT_STATUS_BADGES: Record<PayoutStatus, { label: string; className: string }> = {
+  pending: { label: 'К выплате', className: 'bg-yellow-500/15 text-yellow-200' },
+  paid: { label: 'Выплачено', className: 'bg-green-500/15 text-green-300' },
+  cancelled: { label: 'Отменено', className: 'bg-white/10 text-tgHint' }
 };
 
+const ADJUSTMENT_TYPE_LABELS: Record<SalaryAdjustmentType, string> = {
+  bonus: 'Премия',
+  penalty: 'Штраф',
+  advance: 'Аванс',
+  correction: 'Корректировка'
+};
+
+const PAYOUT_NETWORK_LABELS = {
+  trc20: 'USDT (TRC-20)',
+  bep20: 'USDT (BEP-20)'
+} as const;
+
 const currencyFormatter = new Intl.NumberFormat('ru-RU', {
   minimumFractionDigits: 2,
   maximumFractionDigits: 2
 });
 
-const checkDateFormatter = new Intl.DateTimeFormat('ru-RU', {
+const checkDateFormatter = zonedDateFormatter('ru-RU', {
   day: '2-digit',
   month: 'short',
   year: 'numeric',
@@ -38,7 +87,7 @@ const checkDateFormatter = new Intl.DateTimeFormat('ru-RU', {
   minute: '2-digit'
 });
 
-const dateOnlyFormatter = new Intl.DateTimeFormat('ru-RU', {
+const dateOnlyFormatter = zonedDateFormatter('ru-RU', {
   day: '2-digit',
   month: '2-digit',
   year: 'numeric'
@@ -47,13 +96,18 @@ const dateOnlyFormatter = new Intl.DateTimeFormat('ru-RU', {
 export function ProfilePage() {
   const { session } = useSession();
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<'profile' | 'settings' | 'checks'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'settings' | 'checks' | 'payouts'>('profile');
   const [checksPeriod, setChecksPeriod] = useState<CheckPeriod>('month');
   const [customRange, setCustomRange] = useState<{ start: string; end: string }>({
     start: '',
     end: ''
   });
-  const todayDate = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [checkFormOpen, setCheckFormOpen] = useState(false);
+  const [checkPhotos, setCheckPhotos] = useState<File[]>([]);
+  const todayDate = useMemo(
+    () => toDateInputValue(new Date(), session?.timeZone),
+    [session?.timeZone]
+  );
   const displayName = useMemo(() => {
     if (!session) {
       return '';
@@ -76,12 +130,22 @@ export function ProfilePage() {
   } = useForm<SettingsFormValues>({
     defaultValues: {
       payoutUsdtTrc20: session?.user.payoutUsdtTrc20 ?? '',
-      payoutUsdtBep20: session?.user.payoutUsdtBep20 ?? ''
+      payoutUsdtBep20: session?.user.payoutUsdtBep20 ?? '',
+      notifyCheckChanges: session?.user.notifyCheckChanges ?? true
     }
   });
+  const checkForm = useForm<CheckFormValues>({
+    defaultValues: checkFormDefaultValues
+  });
 
   const checksQuery = useQuery({
-    queryKey: ['my-checks', checksPeriod, customRange.start, customRange.end],
+    queryKey: [
+      'my-checks',
+      session?.timeZone ?? null,
+      checksPeriod,
+      customRange.start,
+      customRange.end
+    ],
     queryFn: async () => {
       if (checksPeriod === 'custom') {
         return listChecks({
@@ -100,7 +164,13 @@ export function ProfilePage() {
   });
 
   const salaryQuery = useQuery({
-    queryKey: ['my-salary', checksPeriod, customRange.start, customRange.end],
+    queryKey: [
+      'my-salary',
+      session?.timeZone ?? null,
+      checksPeriod,
+      customRange.start,
+      customRange.end
+    ],
     queryFn: async () => {
       if (checksPeriod === 'custom') {
         if (!customRange.start || !customRange.end) {
@@ -121,11 +191,20 @@ export function ProfilePage() {
     staleTime: 1000 * 60
   });
 
+  const payoutsQuery = useQuery({
+    queryKey: ['my-payouts'],
+    queryFn: fetchMyPayouts,
+    enabled: Boolean(session) && activeTab === 'payouts',
+    staleTime: 1000 * 60
+  });
+
   const myChecks = useMemo(() => checksQuery.data ?? [], [checksQuery.data]);
   const myChecksTotals = useMemo(() => {
-    const total = myChecks.reduce((sum, check) => sum + check.amount, 0);
+    const approved = myChecks.filter((check) => check.status === 'approved');
+    const total = approved.reduce((sum, check) => sum + check.amount, 0);
     return {
-      count: myChecks.length,
+      count: approved.length,
+      pending: myChecks.filter((check) => check.status === 'pending').length,
       total
     };
   }, [myChecks]);
@@ -135,6 +214,7 @@ export function ProfilePage() {
   const formatDateOnly = (value: string) => dateOnlyFormatter.format(new Date(value));
 
   const salaryStats = salaryQuery.data?.stats ?? null;
+  const salaryAdjustments = salaryQuery.data?.adjustments?.items ?? [];
   const salaryDisplay = salaryQuery.isLoading
     ? 'Загрузка…'
     : salaryQuery.isError || !salaryStats || salaryStats.salary === null
@@ -177,7 +257,8 @@ export function ProfilePage() {
     if (session?.user) {
       reset({
         payoutUsdtTrc20: session.user.payoutUsdtTrc20 ?? '',
-        payoutUsdtBep20: session.user.payoutUsdtBep20 ?? ''
+        payoutUsdtBep20: session.user.payoutUsdtBep20 ?? '',
+        notifyCheckChanges: session.user.notifyCheckChanges
       });
     }
   }, [reset, session?.user]);
@@ -193,6 +274,71 @@ export function ProfilePage() {
     }
   });
 
+  const createCheckMutation = useMutation({
+    mutationFn: createCheck,
+    onSuccess: async () => {
+      toast.success('Чек отправлен на проверку');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['my-checks'] }),
+        queryClient.invalidateQueries({ queryKey: ['my-salary'] })
+      ]);
+    },
+    onError: () => {
+      toast.error('Не удалось отправить чек');
+    }
+  });
+
+  const deleteAttachmentMutation = useMutation({
+    mutationFn: ({ checkId, attachmentId }: { checkId: string; attachmentId: string }) =>
+      deleteCheckAttachment(checkId, attachmentId),
+    onSuccess: async () => {
+      toast.success('Фото удалено');
+      await queryClient.invalidateQueries({ queryKey: ['my-checks'] });
+    },
+    onError: () => {
+      toast.error('Не удалось удалить фото');
+    }
+  });
+
+  const openCheckForm = () => {
+    checkForm.reset(checkFormDefaultValues);
+    setCheckPhotos([]);
+    setCheckFormOpen(true);
+  };
+
+  const closeCheckForm = () => {
+    setCheckFormOpen(false);
+    setCheckPhotos([]);
+    checkForm.reset(checkFormDefaultValues);
+  };
+
+  const handleCheckSubmit = checkForm.handleSubmit(async (values) => {
+    const parsedAmount = Number(values.amount.replace(',', '.'));
+
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      toast.error('Введите корректную сумму');
+      return;
+    }
+
+    const note = values.note.trim();
+
+    const created = await createCheckMutation.mutateAsync({
+      amount: Math.round(parsedAmount * 100) / 100,
+      note: note.length > 0 ? note : undefined
+    });
+
+    if (checkPhotos.length > 0) {
+      try {
+        await uploadCheckAttachments(created.id, checkPhotos);
+        await queryClient.invalidateQueries({ queryKey: ['my-checks'] });
+      } catch {
+        toast.error('Чек сохранён, но фото загрузить не удалось');
+      }
+    }
+
+    closeCheckForm();
+  });
+
   const onSubmit = handleSubmit(async (values) => {
     const payload: UpdateProfilePayload = {};
 
@@ -201,6 +347,7 @@ export function ProfilePage() {
 
     payload.payoutUsdtTrc20 = trc.length > 0 ? trc : '';
     payload.payoutUsdtBep20 = bep.length > 0 ? bep : '';
+    payload.notifyCheckChanges = values.notifyCheckChanges;
 
     await mutation.mutateAsync(payload);
   });
@@ -284,6 +431,31 @@ export function ProfilePage() {
                 Процент не задан — обратитесь к администратору.
               </span>
             ) : null}
+            {salaryStats?.guaranteeTopUp ? (
+              <span className="text-[11px] text-tgHint">
+                Включая доплату до минимальной гарантии: {formatAmount(salaryStats.guaranteeTopUp)}
+              </span>
+            ) : null}
+            {salaryQuery.data?.closed ? (
+              <span className="text-[11px] text-tgHint">Период закрыт, сумма зафиксирована.</span>
+            ) : null}
+            {salaryAdjustments.length > 0 ? (
+              <div className="mt-2 flex flex-col gap-1 border-t border-white/10 pt-2">
+                <span className="text-xs uppercase tracking-wide text-tgHint">Начисления и удержания</span>
+                {salaryAdjustments.map((adjustment) => (
+                  <div key={adjustment.id} className="flex flex-col text-xs">
+                    <span className="text-tgText">
+                      {ADJUSTMENT_TYPE_LABELS[adjustment.type]}: {adjustment.amount > 0 ? '+' : ''}
+                      {formatAmount(adjustment.amount)}
+                    </span>
+                    <span className="text-[11px] text-tgHint">{adjustment.reason}</span>
+                  </div>
+                ))}
+                <span className="text-sm font-semibold text-tgText">
+                  К выплате: {formatAmount(salaryQuery.data?.payable ?? 0)}
+                </span>
+              </div>
+            ) : null}
             {salaryQuery.isError ? (
               <span className="text-[11px] text-red-400">Не удалось загрузить данные.</span>
             ) : null}
@@ -313,6 +485,19 @@ export function ProfilePage() {
             />
           </label>
 
+          <h2 className="mt-2 text-lg font-semibold">Уведомления</h2>
+
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              {...register('notifyCheckChanges')}
+              className="mt-0.5 h-5 w-5 rounded border border-white/30 bg-white/10 accent-[color:var(--tg-theme-accent-text-color,#5aa7ff)]"
+            />
+            <span className="text-tgText">
+              Сообщать в Telegram, когда администратор добавляет, изменяет или удаляет мои чеки
+            </span>
+          </label>
+
           <button
             type="submit"
             disabled={!isDirty || isSubmitting}
@@ -330,6 +515,7 @@ export function ProfilePage() {
               <h2 className="text-lg font-semibold">Мои чеки</h2>
               <span className="text-xs text-tgHint">
                 {myChecksTotals.count} шт · {formatAmount(myChecksTotals.total)}
+                {myChecksTotals.pending ? ` · на проверке: ${myChecksTotals.pending}` : ''}
               </span>
             </div>
             <div className="flex flex-col items-end gap-0.5 text-right">
@@ -344,6 +530,14 @@ export function ProfilePage() {
             </div>
           </div>
 
+          <button
+            type="button"
+            onClick={openCheckForm}
+            className="rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText"
+          >
+            Отправить чек
+          </button>
+
           <div className="flex flex-wrap gap-2">
             {CHECK_PERIOD_OPTIONS.map((option) => (
               <button
@@ -395,13 +589,151 @@ export function ProfilePage() {
                     <span className="text-base font-semibold text-tgText">{formatAmount(check.amount)}</span>
                     <span className="text-xs text-tgHint">{formatCheckDate(check.createdAt)}</span>
                   </div>
+                  <span
+                    className={`self-start rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                      CHECK_STATUS_BADGES[check.status].className
+                    }`}
+                  >
+                    {CHECK_STATUS_BADGES[check.status].label}
+                  </span>
+                  {check.adjustedCheckId ? (
+                    <span className="text-[11px] text-tgHint">Корректировка чека из закрытого периода</span>
+                  ) : null}
                   {check.note && <p className="text-xs text-tgHint">{check.note}</p>}
+                  {check.status === 'rejected' && check.rejectionReason ? (
+                    <p className="text-xs text-red-300">Причина: {check.rejectionReason}</p>
+                  ) : null}
+                  <CheckAttachments
+                    check={check}
+                    disabled={deleteAttachmentMutation.isPending}
+                    onDelete={
+                      check.status === 'pending'
+                        ? (attachment) =>
+                            deleteAttachmentMutation.mutate({
+                              checkId: check.id,
+                              attachmentId: attachment.id
+                            })
+                        : undefined
+                    }
+                  />
+                </div>
+              ))
+            )}
+          </div>
+        </section>
+      ) : null}
+
+      {activeTab === 'payouts' ? (
+        <section className="flex flex-col gap-3 rounded-2xl bg-white/5 p-4">
+          <div className="flex flex-col gap-1">
+            <h2 className="text-lg font-semibold">Выплаты</h2>
+            <span className="text-xs text-tgHint">Начисленная зарплата за закрытые месяцы.</span>
+          </div>
+
+          <div className="flex flex-col gap-1 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-3">
+            <span className="text-xs uppercase tracking-wide text-tgHint">Ожидает выплаты</span>
+            <span className="text-2xl font-semibold text-tgText">
+              {payoutsQuery.data ? formatAmount(payoutsQuery.data.outstanding) : '—'}
+            </span>
+          </div>
+
+          <PayslipActions />
+
+          <div className="flex flex-col gap-2">
+            {payoutsQuery.isLoading ? (
+              <p className="text-sm text-tgHint">Загрузка выплат...</p>
+            ) : payoutsQuery.isError ? (
+              <p className="text-sm text-red-400">Не удалось загрузить выплаты.</p>
+            ) : (payoutsQuery.data?.payouts ?? []).length === 0 ? (
+              <p className="text-sm text-tgHint">Выплат пока не было.</p>
+            ) : (
+              (payoutsQuery.data?.payouts ?? []).map((payout) => (
+                <div
+                  key={payout.id}
+                  className="flex flex-col gap-1 rounded-2xl border border-[color:var(--tg-theme-section-separator-color,rgba(255,255,255,0.12))] bg-[color:var(--tg-theme-section-bg-color,rgba(255,255,255,0.05))] p-3"
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-base font-semibold text-tgText">{formatAmount(payout.amount)}</span>
+                    <span className="text-xs text-tgHint">
+                      {formatDateOnly(payout.periodStart)} — {formatDateOnly(payout.periodEnd)}
+                    </span>
+                  </div>
+                  <span
+                    className={`self-start rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                      PAYOUT_STATUS_BADGES[payout.status].className
+                    }`}
+                  >
+                    {PAYOUT_STATUS_BADGES[payout.status].label}
+                  </span>
+                  {payout.wallet ? (
+                    <p className="break-all text-xs text-tgHint">
+                      {payout.network ? `${PAYOUT_NETWORK_LABELS[payout.network]}: ` : ''}
+                      {payout.wallet}
+                    </p>
+                  ) : null}
+                  {payout.paidAt ? (
+                    <p className="text-xs text-tgHint">Выплачено {formatCheckDate(payout.paidAt)}</p>
+                  ) : null}
+                  {payout.txHash ? <p className="break-all text-[11px] text-tgHint">TX: {payout.txHash}</p> : null}
                 </div>
               ))
             )}
           </div>
         </section>
       ) : null}
+
+      <MobileModal open={checkFormOpen} title="Новый чек" onClose={closeCheckForm}>
+        <form onSubmit={handleCheckSubmit} className="flex flex-col gap-3">
+          <p className="text-xs text-tgHint">
+            Чек попадёт к администратору на проверку и будет учтён в зарплате после подтверждения.
+          </p>
+
+          <label className="flex flex-col gap-1 text-sm">
+            Сумма
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              inputMode="decimal"
+              {...checkForm.register('amount')}
+              placeholder="0.00"
+              className="rounded-xl border border-white/10 bg-transparent px-3 py-2 text-base text-tgText"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            Заметка
+            <textarea
+              rows={3}
+              {...checkForm.register('note')}
+              placeholder="Комментарий к чеку"
+              className="min-h-[96px] rounded-xl border border-white/10 bg-transparent px-3 py-2 text-base text-tgText"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            Фото чека
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/heic"
+              multiple
+              onChange={(event) => setCheckPhotos(Array.from(event.target.files ?? []))}
+              className="text-sm text-tgHint file:mr-3 file:rounded-xl file:border-0 file:bg-tgButton file:px-3 file:py-1 file:text-sm file:text-tgButtonText"
+            />
+            {checkPhotos.length > 0 ? (
+              <span className="text-xs text-tgHint">Выбрано фото: {checkPhotos.length}</span>
+            ) : null}
+          </label>
+
+          <button
+            type="submit"
+            disabled={createCheckMutation.isPending}
+            className="mt-2 rounded-xl bg-tgButton px-4 py-2 text-sm font-semibold text-tgButtonText disabled:opacity-60"
+          >
+            Отправить
+          </button>
+        </form>
+      </MobileModal>
     </section>
   );
 }
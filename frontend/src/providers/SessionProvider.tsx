@@ -1,12 +1,12 @@
-import type { ReactNode } from 'react';
-import { createContext, useContext, useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import type { AxiosError } from 'axios';
+import type { ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState } from 'react';
 
 import { fetchSession } from '@/api/auth';
-import { useSessionStore } from '@/store/sessionStore';
-import type { SessionResponse } from '@/types/api';
 import { useInitData } from '@/hooks/useInitData';
+import { useSessionStore } from '@/store/sessionStore';
+import type { InitDataErrorCode, SessionResponse } from '@/types/api';
 
 interface SessionContextValue {
   session: SessionResponse | null;
@@ -15,6 +15,7 @@ interface SessionContextValue {
   initData: string | null;
   refetch: () => void;
   blockedInfo: { title: string; reason: string | null } | null;
+  authError: InitDataErrorCode | null;
 }
 
 const SessionContext = createContext<SessionContextValue | undefined>(undefined);
@@ -23,6 +24,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const initData = useInitData();
   const session = useSessionStore((state) => state.session);
   const setSession = useSessionStore((state) => state.setSession);
+  const authError = useSessionStore((state) => state.authError);
   const [blockedInfo, setBlockedInfo] = useState<{ title: string; reason: string | null } | null>(null);
 
   const { data, isLoading, isError, error, refetch } = useQuery({
@@ -60,7 +62,8 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     error: Boolean(initData) ? error : null,
     initData,
     refetch,
-    blockedInfo
+    blockedInfo,
+    authError
   };
 
   return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
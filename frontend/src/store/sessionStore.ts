@@ -1,17 +1,21 @@
 import { create } from 'zustand';
 
-import type { SessionResponse } from '@/types/api';
+import type { InitDataErrorCode, SessionResponse } from '@/types/api';
 
 interface SessionState {
   initData: string | null;
   session: SessionResponse | null;
+  authError: InitDataErrorCode | null;
   setInitData: (value: string | null) => void;
   setSession: (session: SessionResponse | null) => void;
+  setAuthError: (code: InitDataErrorCode | null) => void;
 }
 
 export const useSessionStore = create<SessionState>((set) => ({
   initData: null,
   session: null,
+  authError: null,
   setInitData: (value) => set({ initData: value }),
-  setSession: (session) => set({ session })
+  setSession: (session) => set({ session }),
+  setAuthError: (code) => set({ authError: code })
 }));
@@ -14,26 +14,62 @@ export interface ApiUser {
   commissionPercent: number | null;
   isPartner: boolean;
   mutedUntil: string | null;
+  // While banned in any managed chat; which chats is on the memberships
   isBlocked: boolean;
   blockReason: string | null;
+  // Applied to join a chat and not approved yet; no WebApp access until then
+  isPending: boolean;
+  notifyCheckChanges: boolean;
   createdAt: string;
   updatedAt: string;
+  // Only in the users list
+  chatMemberships?: ApiChatMembership[];
 }
 
+export type AdminRole = 'owner' | 'manager' | 'accountant' | 'moderator';
+
+export type Permission =
+  | 'admins.manage'
+  | 'settings.manage'
+  | 'audit.view'
+  | 'users.view'
+  | 'users.manage'
+  | 'users.moderate'
+  | 'checks.view'
+  | 'checks.manage'
+  | 'payroll.manage';
+
 export interface ApiAdmin {
   id: string;
   telegramId: string;
   displayName: string | null;
   notes: string | null;
+  role: AdminRole;
   createdAt: string;
   updatedAt: string;
 }
 
+export type CheckStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ApiCheckAttachment {
+  id: string;
+  mimeType: string | null;
+  size: number | null;
+  source: 'upload' | 'telegram';
+  createdAt: string;
+}
+
 export interface ApiCheck {
   id: string;
   userId: string;
   amount: number;
   note: string | null;
+  status: CheckStatus;
+  rejectionReason: string | null;
+  reviewedAt: string | null;
+  adjustedCheckId: string | null;
+  locked: boolean;
+  attachments: ApiCheckAttachment[];
   createdAt: string;
   updatedAt: string;
   user?: Pick<ApiUser, 'id' | 'telegramId' | 'firstName' | 'lastName' | 'username'>;
@@ -42,6 +78,127 @@ export interface ApiCheck {
 export interface CheckStats {
   count: number;
   total: number;
+  salary?: number | null;
+  percent?: number | null;
+  partnerFromOwn?: number | null;
+  partnerFromOthers?: number | null;
+}
+
+export interface ApiCommissionRate {
+  id: string;
+  percent: number | null;
+  effectiveFrom: string;
+  createdAt: string;
+}
+
+export type ModerationAction = 'mute' | 'unmute' | 'block' | 'unblock' | 'warn';
+
+export interface ApiModerationEvent {
+  id: string;
+  userId: string;
+  action: ModerationAction;
+  actorTelegramId: string | null;
+  actorName: string | null;
+  chatId: string | null;
+  reason: string | null;
+  durationMinutes: number | null;
+  until: string | null;
+  telegramOk: boolean | null;
+  telegramError: string | null;
+  createdAt: string;
+}
+
+export interface ApiManagedChat {
+  id: string;
+  telegramChatId: string;
+  title: string | null;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChatMemberStatus =
+  | 'creator'
+  | 'administrator'
+  | 'member'
+  | 'restricted'
+  | 'left'
+  | 'kicked';
+
+export interface ApiChatMembership {
+  id: string;
+  userId: string;
+  chatId: string;
+  status: ChatMemberStatus;
+  mutedUntil: string | null;
+  isBanned: boolean;
+  banReason: string | null;
+  joinedAt: string | null;
+  leftAt: string | null;
+  invitedByTelegramId: string | null;
+  invitedByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  chat: Omit<ApiManagedChat, 'memberCount'>;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined';
+
+export interface ApiJoinRequest {
+  id: string;
+  userId: string;
+  chatId: string;
+  status: JoinRequestStatus;
+  bio: string | null;
+  // Null on a decided request means it was declined automatically
+  decidedByTelegramId: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  user: ApiUser;
+  chat: Omit<ApiManagedChat, 'memberCount'>;
+}
+
+// 'all' managed chats or Telegram chat ids; left out, the user's own chats
+export type ChatSelection = 'all' | string[];
+
+export interface ChatActionResult {
+  chatId: string;
+  title: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface ModerationResponse {
+  user: ApiUser;
+  results: ChatActionResult[];
+}
+
+export interface ApiWarning {
+  id: string;
+  userId: string;
+  points: number;
+  reason: string | null;
+  actorTelegramId: string | null;
+  chatId: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface UserWarningsResponse {
+  points: number;
+  warnings: ApiWarning[];
+}
+
+export interface WarnUserResponse {
+  user: ApiUser;
+  points: number;
+  escalation: {
+    action: WarningThreshold['action'];
+    thresholdPoints: number;
+    ok: boolean;
+    results: ChatActionResult[];
+  } | null;
 }
 
 export interface ChecksSummaryRow {
@@ -54,6 +211,8 @@ export interface ChecksSummaryRow {
 
 export interface ChecksSummaryResponse {
   generatedAt: string;
+  timeZone: string;
+  fundRatePercent: number;
   ranges: {
     day: { start: string; end: string };
     week: { start: string; end: string };
@@ -66,6 +225,8 @@ export interface ChecksSummaryResponse {
 export interface MySalarySummaryResponse {
   generatedAt: string;
   period: 'day' | 'week' | 'month' | 'custom';
+  timeZone: string;
+  closed: boolean;
   range: {
     start: string;
     end: string;
@@ -78,7 +239,98 @@ export interface MySalarySummaryResponse {
     partnerFromOwn: number | null;
     partnerFromOthers: number | null;
     totalChecks: number;
+    formula?: SalaryFormula;
+    guaranteeTopUp?: number | null;
   };
+  adjustments?: {
+    items: ApiSalaryAdjustment[];
+    total: number;
+  };
+  payable?: number;
+}
+
+export type SalaryAdjustmentType = 'bonus' | 'penalty' | 'advance' | 'correction';
+
+export interface ApiSalaryAdjustment {
+  id: string;
+  userId: string;
+  type: SalaryAdjustmentType;
+  amount: number;
+  reason: string;
+  date: string;
+  createdAt: string;
+}
+
+export type SalaryFormula = 'fund_share' | 'own_fund_share' | 'own_volume';
+
+export interface SalaryRoleRules {
+  formula: SalaryFormula;
+  tiers: { minVolume: number; percent: number }[];
+  minimumGuarantee: number | null;
+}
+
+export interface SalaryRules {
+  fundRatePercent: number;
+  roles: {
+    staff: SalaryRoleRules;
+    partner: SalaryRoleRules;
+  };
+}
+
+export interface SalaryRulesResponse {
+  rules: SalaryRules;
+  updatedAt: string | null;
+}
+
+export interface SalaryRulesPreviewResponse {
+  range: { start: string; end: string };
+  current: MySalarySummaryResponse['stats'];
+  proposed: MySalarySummaryResponse['stats'];
+}
+
+export interface ApiPayPeriod {
+  id: string;
+  start: string;
+  end: string;
+  closedAt: string;
+  checks: number;
+  amount: number;
+  salary: number;
+}
+
+export type PayoutStatus = 'pending' | 'paid' | 'cancelled';
+
+export type PayoutNetwork = 'trc20' | 'bep20';
+
+export interface ApiPayout {
+  id: string;
+  batchId: string;
+  userId: string;
+  user?: Pick<ApiUser, 'id' | 'telegramId' | 'firstName' | 'lastName' | 'username'>;
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+  network: PayoutNetwork | null;
+  wallet: string | null;
+  txHash: string | null;
+  status: PayoutStatus;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiPayoutBatch {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  createdAt: string;
+  total: number;
+  paid: number;
+  payouts: ApiPayout[];
+}
+
+export interface MyPayoutsResponse {
+  payouts: ApiPayout[];
+  outstanding: number;
 }
 
 export interface TelegramUser {
@@ -92,8 +344,135 @@ export interface TelegramUser {
   photo_url?: string;
 }
 
+export interface CheckImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  amount: number;
+  errors: { line: number; message: string }[];
+  unmatchedUsers: string[];
+}
+
+// Returned with 401 when the init data of the WebApp launch is rejected
+export type InitDataErrorCode =
+  | 'INIT_DATA_MISSING'
+  | 'INIT_DATA_INVALID'
+  | 'INIT_DATA_EXPIRED'
+  | 'INIT_DATA_USER_INVALID';
+
 export interface SessionResponse {
   user: ApiUser;
   telegramUser: TelegramUser;
   isAdmin: boolean;
+  role: AdminRole | null;
+  permissions: Permission[];
+  timeZone: string;
+}
+
+export interface TimeZoneSettingsResponse {
+  timeZone: string;
+  defaultTimeZone: string;
+}
+
+export type DigestKind = 'daily' | 'weekly';
+
+export interface DigestSettings {
+  daily: { enabled: boolean; time: string };
+  weekly: { enabled: boolean; weekday: number; time: string };
+  sendToAdmins: boolean;
+  groupChatId: string | null;
+  topCount: number;
+}
+
+export interface DigestSettingsResponse {
+  settings: DigestSettings;
+  updatedAt: string | null;
+}
+
+export interface DigestSendResponse {
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+export interface WarningThreshold {
+  points: number;
+  action: 'mute' | 'block';
+  durationMinutes: number | null;
+}
+
+export interface WarningSettings {
+  expiryDays: number;
+  thresholds: WarningThreshold[];
+}
+
+export interface WarningSettingsResponse {
+  settings: WarningSettings;
+  updatedAt: string | null;
+}
+
+export type AuditAction =
+  | 'admin.create'
+  | 'admin.update'
+  | 'admin.delete'
+  | 'user.create'
+  | 'user.update'
+  | 'user.mute'
+  | 'user.unmute'
+  | 'user.block'
+  | 'user.unblock'
+  | 'user.warn'
+  | 'user.join.approve'
+  | 'user.join.decline'
+  | 'user.delete'
+  | 'check.create'
+  | 'check.import'
+  | 'check.update'
+  | 'check.delete'
+  | 'check.approve'
+  | 'check.reject'
+  | 'check.adjust'
+  | 'check.attachments.add'
+  | 'check.attachments.delete'
+  | 'profile.update'
+  | 'payout.batch.create'
+  | 'payout.batch.delete'
+  | 'payout.pay'
+  | 'payout.cancel'
+  | 'period.close'
+  | 'period.reopen'
+  | 'adjustment.create'
+  | 'adjustment.delete'
+  | 'setting.update'
+  | 'chat.create'
+  | 'chat.delete';
+
+export type AuditEntityType =
+  | 'admin'
+  | 'user'
+  | 'check'
+  | 'profile'
+  | 'payout'
+  | 'period'
+  | 'adjustment'
+  | 'setting'
+  | 'chat';
+
+export interface ApiAuditEntry {
+  id: string;
+  actorTelegramId: string | null;
+  actorIsAdmin: boolean;
+  actorName: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditLogResponse {
+  entries: ApiAuditEntry[];
+  nextCursor: string | null;
 }
@@ -0,0 +1,44 @@
+import { useSessionStore } from '@/store/sessionStore';
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Hostel time zone from the session; the backend cuts days and months in it
+export function currentTimeZone() {
+  return useSessionStore.getState().session?.timeZone ?? browserTimeZone;
+}
+
+/**
+ * Drop-in for a module-level Intl.DateTimeFormat that formats in the current hostel time zone
+ * unless given another one. Formatters are cached per zone.
+ */
+export function zonedDateFormatter(locale: string, options: Intl.DateTimeFormatOptions) {
+  const formatters = new Map<string, Intl.DateTimeFormat>();
+
+  return {
+    format(date: Date, timeZone = currentTimeZone()) {
+      let formatter = formatters.get(timeZone);
+
+      if (!formatter) {
+        formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone });
+        formatters.set(timeZone, formatter);
+      }
+
+      return formatter.format(date);
+    }
+  };
+}
+
+// en-CA formats dates as YYYY-MM-DD, the value format of <input type="date">
+const dateInputFormatter = zonedDateFormatter('en-CA', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+export function toDateInputValue(date: Date, timeZone?: string) {
+  return dateInputFormatter.format(date, timeZone);
+}
+
+export function toMonthInputValue(date: Date) {
+  return toDateInputValue(date).slice(0, 7);
+}